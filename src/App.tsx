@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { LogSummary } from './components/LogSummary';
 import { LogCharts } from './components/LogCharts';
@@ -7,17 +7,40 @@ import { ReportGenerator } from './components/ReportGenerator';
 import { GeminiChatbot } from './components/GeminiChatbot';
 import { PasswordProtection } from './components/PasswordProtection';
 import { ThemeToggle } from './components/ThemeToggle';
+import { TimezoneToggle } from './components/TimezoneToggle';
 import { KnowledgeBase } from './components/KnowledgeBase';
 import { AuditFileUpload } from './components/AuditFileUpload';
 import { AuditSummary } from './components/AuditSummary';
 import { AuditCategorizedTable } from './components/AuditCategorizedTable';
 import { AuditTable } from './components/AuditTable';
+import { CustomFormatEditor } from './components/CustomFormatEditor';
+import { ParserModeSelector } from './components/ParserModeSelector';
+import { AiConsentDialog } from './components/AiConsentDialog';
+import { AiBatchStatusList } from './components/AiBatchStatusList';
+import { ParseDiagnosticsPanel } from './components/ParseDiagnosticsPanel';
+import { LogComparisonView } from './components/LogComparisonView';
+import { LogPatterns } from './components/LogPatterns';
 import { parseLogFileHybrid } from './utils/hybridLogParser';
-import { parseAuditTrailCSV, generateAuditSummary } from './utils/auditParser';
-import { LogEntry, LogSummary as LogSummaryType } from './types/log';
+import { parseLogFileWithAI } from './utils/aiLogParser';
+import { findOrLearnLogFormat } from './utils/formatLearning';
+import { computeParseDiagnostics } from './utils/parseDiagnostics';
+import { generateLogSummary } from './utils/logParser';
+import { getSessionFileColor, getUniqueSessionFileName, mergeSessionEntries, tagSessionEntries } from './utils/logSession';
+import { RotatedLogPart, getRotatedLogName, stitchRotatedLogs } from './utils/rotatedLogs';
+import { LogComparison } from './utils/logComparison';
+import { LogTemplate, LogTemplateMiner, createLogTemplateMiner, getTopErrorTemplates } from './utils/templateMiner';
+import { LogAnomaly, detectAnomalies } from './utils/anomalyDetection';
+import { DEFAULT_PARSER_MODE, getParserMode, getParserModeLlmConfig } from './utils/parserModes';
+import { createLlmClient } from './utils/llmClient';
+import { RedactionSettings, createRedactor } from './utils/redaction';
+import { parseLogFileInWorker, parseAuditFileInWorker, PARSE_CANCELLED_MESSAGE } from './utils/parseWorkerClient';
+import { LogEntry, LogParseOptions, LogSummary as LogSummaryType, LogUpload, ParseDiagnostics, ParserMode, SessionLogFile } from './types/log';
 import { AuditEntry, AuditSummary as AuditSummaryType } from './types/audit';
+import { ParseProgress } from './types/worker';
+import { AiBatchStatus } from './types/llm';
 import { saveAnalysisSession } from './lib/supabase';
-import { BarChart3, FileText, TrendingUp, RotateCcw, FileDown, Bot, Shield, Activity, BookOpen, FileSpreadsheet, Table } from 'lucide-react';
+import { registerCustomFormats } from './utils/customFormats';
+import { BarChart3, FileText, TrendingUp, RotateCcw, FileDown, Bot, Shield, Activity, BookOpen, FileSpreadsheet, Table, FilePlus, GitCompare, Shapes, X } from 'lucide-react';
 
 /**
  * Interface for additional content that can be added to reports
@@ -29,6 +52,41 @@ interface AddedContent {
   timestamp: Date;
 }
 
+/**
+ * Log uploads waiting for consent to send their content to an AI service
+ */
+interface PendingAiUpload {
+  uploads: LogUpload[];
+  mode: ParserMode;
+}
+
+/**
+ * A parsed log file ready to be added to the session
+ */
+interface ParsedLogFile {
+  fileName: string;
+  entries: LogEntry[];
+  summary: LogSummaryType;
+  diagnostics: ParseDiagnostics;
+}
+
+/**
+ * Largest file sent through AI parsing, which needs the whole text
+ */
+const MAX_AI_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Error templates listed in the summary
+ */
+const TOP_ERROR_COUNT = 5;
+
+/**
+ * Parser mode an upload is parsed with; JSON records and event log exports
+ * already name their fields, so they are always parsed locally
+ */
+const getUploadParserMode = ({ options }: LogUpload, mode: ParserMode): ParserMode =>
+  options.jsonFields || options.windowsEventLog ? 'local' : mode;
+
 /**
  * Application mode type
  */
@@ -100,13 +158,14 @@ function App() {
   // SHARED STATE
   /**
    * Original filename of the uploaded file
+   * For a multi-file log session, the names of all its files
    */
   const [filename, setFilename] = useState<string>('');
   
   /**
    * Active tab state - controls which analysis view is displayed
    */
-  const [activeTab, setActiveTab] = useState<'summary' | 'charts' | 'table' | 'report' | 'categorized'>('summary');
+  const [activeTab, setActiveTab] = useState<'summary' | 'charts' | 'table' | 'patterns' | 'compare' | 'report' | 'categorized'>('summary');
   
   /**
    * Reset operation state - provides user feedback during data clearing
@@ -118,6 +177,70 @@ function App() {
    */
   const [addedReportContent, setAddedReportContent] = useState<AddedContent[]>([]);
 
+  /**
+   * Before/after comparison of two session files included in the report
+   */
+  const [reportComparison, setReportComparison] = useState<LogComparison | null>(null);
+
+  /**
+   * Progress of the background parse, null when no parse is running
+   */
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+
+  /**
+   * Abort controller for the running background parse
+   */
+  const parseAbortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Template miner holding the session's templates, so each added file
+   * only mines its own entries
+   */
+  const templateMinerRef = useRef<LogTemplateMiner>(createLogTemplateMiner());
+
+  /**
+   * Status of each batch of the last AI parse, empty for local parses
+   * Kept after parsing so degraded line ranges stay visible
+   */
+  const [aiBatches, setAiBatches] = useState<AiBatchStatus[]>([]);
+
+  /**
+   * Log files loaded into the session, in load order, with how well each parsed
+   * Their entries are merged into one timeline in `logs`
+   */
+  const [sessionFiles, setSessionFiles] = useState<SessionLogFile[]>([]);
+
+  /**
+   * Whether the upload panel for adding another file to the session is shown
+   */
+  const [showAddFile, setShowAddFile] = useState(false);
+
+  /**
+   * Message templates mined from the session's entries, most frequent first
+   */
+  const [logTemplates, setLogTemplates] = useState<LogTemplate[]>([]);
+
+  /**
+   * Template the log table filters by when opened from the Patterns tab
+   */
+  const [tableTemplateId, setTableTemplateId] = useState<string | null>(null);
+
+  /**
+   * Spikes and silences detected in the session, most severe first
+   */
+  const [anomalies, setAnomalies] = useState<LogAnomaly[]>([]);
+
+  /**
+   * How uploaded log files are parsed
+   * Always starts as local; AI modes must be picked explicitly
+   */
+  const [parserMode, setParserMode] = useState<ParserMode>(DEFAULT_PARSER_MODE);
+
+  /**
+   * Upload held back until the user consents to sending it to an AI service
+   */
+  const [pendingAiUpload, setPendingAiUpload] = useState<PendingAiUpload | null>(null);
+
   // ============================================================================
   // AUTHENTICATION MANAGEMENT
   // ============================================================================
@@ -132,6 +255,13 @@ function App() {
     }
   }, []);
 
+  /**
+   * Register user-defined log formats saved in this browser
+   */
+  useEffect(() => {
+    registerCustomFormats();
+  }, []);
+
   /**
    * Handle successful authentication
    */
@@ -156,6 +286,15 @@ function App() {
     await new Promise(resolve => setTimeout(resolve, 150));
     
     // Switch mode and reset all data
+    parseAbortRef.current?.abort();
+    setPendingAiUpload(null);
+    setAiBatches([]);
+    setSessionFiles([]);
+    setShowAddFile(false);
+    setLogTemplates([]);
+    templateMinerRef.current = createLogTemplateMiner();
+    setTableTemplateId(null);
+    setAnomalies([]);
     setAppMode(newMode);
     setLogs([]);
     setLogSummary(null);
@@ -164,6 +303,7 @@ function App() {
     setFilename('');
     setActiveTab('summary');
     setAddedReportContent([]);
+    setReportComparison(null);
     
     // Complete transition
     await new Promise(resolve => setTimeout(resolve, 150));
@@ -175,25 +315,272 @@ function App() {
   // ============================================================================
   
   /**
-   * Handle log file upload and processing
+   * Start a background parse, cancelling any parse still running
+   *
+   * @returns Abort signal for the new parse
+   */
+  const startBackgroundParse = () => {
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+    setParseProgress({ phase: 'parsing', processed: 0, total: 0 });
+    return controller.signal;
+  };
+
+  /**
+   * Clear progress once a background parse has finished or failed
+   *
+   * @param signal - Signal of the parse that finished
+   */
+  const finishBackgroundParse = (signal: AbortSignal) => {
+    if (parseAbortRef.current?.signal === signal) {
+      parseAbortRef.current = null;
+      setParseProgress(null);
+    }
+  };
+
+  /**
+   * Cancel the running background parse
    */
-  const handleLogFileUpload = async (content: string, fileName: string) => {
+  const handleCancelParse = () => {
+    parseAbortRef.current?.abort();
+    parseAbortRef.current = null;
+    setParseProgress(null);
+  };
+
+  /**
+   * Handle log file upload
+   *
+   * Local mode parses straight away. AI modes hold the upload until the user
+   * consents to sending it; nothing leaves the browser before that.
+   * Log files arrive as a File and are streamed; JSON uploads arrive as text.
+   * Each upload is added to the current session; Start Over clears it.
+   */
+  const handleLogFileUpload = (source: string | File, fileName: string, options: LogParseOptions) => {
+    handleLogUploads([{ source, fileName, options }]);
+  };
+
+  /**
+   * Handle several log files uploaded at once, such as the members of an
+   * archive, which are added to the session as separate files
+   *
+   * One consent covers every file sent to an AI service.
+   *
+   * @param uploads - Files to parse, in the order they are added
+   */
+  const handleLogUploads = (uploads: LogUpload[]) => {
+    const aiUploads = uploads.filter(upload => getUploadParserMode(upload, parserMode) !== 'local');
+    if (aiUploads.length === 0) {
+      parseLogUploads(uploads, 'local');
+      return;
+    }
+
+    const tooLarge = aiUploads.find(({ source }) => (typeof source === 'string' ? new Blob([source]).size : source.size) > MAX_AI_FILE_SIZE);
+    if (tooLarge) {
+      alert(`${getParserMode(parserMode).label} parsing is limited to files under 50MB (${tooLarge.fileName} is larger). Switch to Local mode for larger files.`);
+      return;
+    }
+
+    setPendingAiUpload({ uploads, mode: parserMode });
+  };
+
+  /**
+   * Parse the held-back uploads once the user has consented
+   *
+   * @param redaction - Redaction settings chosen in the consent dialog
+   */
+  const handleAiConsent = (redaction: RedactionSettings) => {
+    if (!pendingAiUpload) return;
+
+    const { uploads, mode } = pendingAiUpload;
+    setPendingAiUpload(null);
+    parseLogUploads(uploads, mode, redaction);
+  };
+
+  /**
+   * Parse log uploads one after another and add them to the session together
+   *
+   * One background parse covers every file, so cancelling stops them all
+   * and nothing is added unless every file parsed.
+   *
+   * @param uploads - Files to parse
+   * @param mode - Parser mode chosen for the uploads
+   * @param redaction - Redaction settings for AI modes (optional)
+   */
+  const parseLogUploads = async (uploads: LogUpload[], mode: ParserMode, redaction?: RedactionSettings) => {
+    const signal = startBackgroundParse();
+    setAiBatches([]);
+
     try {
-      console.log('Starting AI-enhanced log file processing...');
+      const parsed: ParsedLogFile[] = [];
+      for (const upload of uploads) {
+        const uploadMode = getUploadParserMode(upload, mode);
+        const result = await parseLogUpload(upload, uploadMode, signal, redaction);
+        if (signal.aborted) return;
 
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new Error('OpenAI API key not configured. Please add VITE_OPENAI_API_KEY to your .env file.');
+        // AI extraction has no format of its own; the parser mode names it
+        parsed.push({
+          fileName: upload.fileName,
+          entries: result.entries,
+          summary: result.summary,
+          diagnostics: result.diagnostics ?? computeParseDiagnostics(result.entries, getParserMode(uploadMode).label),
+        });
       }
 
-      const { entries: parsedLogs, summary } = await parseLogFileHybrid(content, apiKey);
+      await addLogFilesToSession(parsed);
+    } catch (error) {
+      if (signal.aborted) {
+        console.log(PARSE_CANCELLED_MESSAGE);
+        return;
+      }
+      console.error('Error parsing log file:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to parse log file: ${errorMessage}`);
+    } finally {
+      finishBackgroundParse(signal);
+    }
+  };
 
-      setLogs(parsedLogs);
-      setLogSummary(summary);
-      setFilename(fileName);
-      setActiveTab('summary');
+  /**
+   * Parse one log upload with the given mode
+   *
+   * Local parsing runs in the background worker with progress and
+   * cancellation; the AI modes read the whole text, redact it and call
+   * their service.
+   */
+  const parseLogUpload = async (
+    { source, fileName, options }: LogUpload,
+    mode: ParserMode,
+    signal: AbortSignal,
+    redaction?: RedactionSettings
+  ): Promise<{ entries: LogEntry[]; summary: LogSummaryType; diagnostics?: ParseDiagnostics }> => {
+    console.log(`Starting ${getParserMode(mode).label} processing of ${fileName}...`);
+
+    if (mode === 'local') {
+      return parseLogFileInWorker(source, options, { onProgress: setParseProgress, signal });
+    }
+
+    const client = createLlmClient(getParserModeLlmConfig(mode)!);
+
+    // Token map for this upload only; never leaves this function
+    const redactor = createRedactor(redaction);
+    const content = typeof source === 'string' ? source : await source.text();
+
+    // Batch statuses double as the progress bar: lines in finished batches
+    const onBatchStatus = (batches: AiBatchStatus[]) => {
+      if (signal.aborted) return;
+      setAiBatches(batches);
+      setParseProgress({
+        phase: 'parsing',
+        processed: batches
+          .filter(batch => batch.state !== 'queued' && batch.state !== 'running' && batch.state !== 'retrying')
+          .reduce((sum, batch) => sum + batch.endLine - batch.startLine, 0),
+        total: batches.length > 0 ? batches[batches.length - 1].endLine : 0,
+      });
+    };
+
+    // Hybrid mode first tries a saved or newly learned format, which lets
+    // the worker parse the whole file locally; batches are the fallback
+    const formatId = mode === 'hybrid'
+      ? await findOrLearnLogFormat(content, client, options, redactor, signal)
+      : null;
+
+    const result = formatId
+      ? await parseLogFileInWorker(content, { ...options, formatId }, { onProgress: setParseProgress, signal })
+      : mode === 'hybrid'
+        ? await parseLogFileHybrid(content, client, options, redactor, { onBatchStatus, signal })
+        : await parseLogFileWithAI(content, client, options, redactor, { onBatchStatus, signal });
+    console.log('Values redacted before sending:', redactor.getCounts());
+    return result;
+  };
+
+  /**
+   * Handle the upload of a rotated log (server.log, server.log.1, ...)
+   *
+   * Each file is parsed locally in the background worker, then the files
+   * are stitched into one continuous log and added to the session under
+   * the series' base name.
+   *
+   * @param files - Files of the series, in any order
+   * @param baseName - Name the files share
+   * @param options - Upload-time parse settings; each file's own modified
+   *   date is used for year inference
+   */
+  const handleRotatedLogUpload = async (files: File[], baseName: string, options: LogParseOptions) => {
+    const signal = startBackgroundParse();
+    setAiBatches([]);
+
+    try {
+      console.log(`Starting rotated log processing of ${files.length} files...`);
+
+      const parts: RotatedLogPart[] = [];
+      let formatName: string | null = null;
+      for (const file of files) {
+        const result = await parseLogFileInWorker(
+          file,
+          { ...options, fileLastModified: file.lastModified },
+          { onProgress: setParseProgress, signal }
+        );
+        if (signal.aborted) return;
+        parts.push({ name: file.name, index: getRotatedLogName(file.name).index, entries: result.entries });
+        formatName ??= result.diagnostics.formatName;
+      }
+
+      const stitched = stitchRotatedLogs(parts);
+      const diagnostics = computeParseDiagnostics(stitched.entries, formatName);
+      diagnostics.rotation = { files: stitched.files, duplicateCount: stitched.duplicateCount };
+      await addLogFilesToSession([
+        { fileName: baseName, entries: stitched.entries, summary: generateLogSummary(stitched.entries), diagnostics },
+      ]);
+    } catch (error) {
+      if (signal.aborted) {
+        console.log(PARSE_CANCELLED_MESSAGE);
+        return;
+      }
+      console.error('Error parsing rotated log:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to parse rotated log: ${errorMessage}`);
+    } finally {
+      finishBackgroundParse(signal);
+    }
+  };
+
+  /**
+   * Add parsed log files to the session and show the results
+   *
+   * Tags each file's entries, merges them into the session timeline and
+   * recomputes the summary across files when there are several.
+   *
+   * @param parsed - Parsed files, each with its entries newest first, the
+   *   summary of the file on its own and how well it parsed
+   */
+  const addLogFilesToSession = async (parsed: ParsedLogFile[]) => {
+    const files = [...sessionFiles];
+    let sessionLogs = logs;
+    for (const { fileName, entries, diagnostics } of parsed) {
+      const sessionName = getUniqueSessionFileName(fileName, files.map(file => file.name));
+      const tagged = tagSessionEntries(entries, sessionName, files.length);
 
-      console.log(`Processed ${parsedLogs.length} log entries from ${fileName}`);
+      // Mined into the session's templates so each pattern has one template
+      templateMinerRef.current.add(tagged);
+      sessionLogs = mergeSessionEntries(sessionLogs, tagged);
+      files.push({ name: sessionName, entryCount: entries.length, diagnostics });
+    }
+
+    const templates = templateMinerRef.current.getTemplates();
+    setLogTemplates(templates);
+    setTableTemplateId(null);
+    setAnomalies(detectAnomalies(sessionLogs, templates));
+    setLogs(sessionLogs);
+    const summary = files.length > 1 ? generateLogSummary(sessionLogs, files.map(file => file.name)) : parsed[0].summary;
+    setLogSummary({ ...summary, topErrors: getTopErrorTemplates(templates, TOP_ERROR_COUNT) });
+    setSessionFiles(files);
+    setFilename(files.map(file => file.name).join(', '));
+    setShowAddFile(false);
+    setActiveTab('summary');
+
+    for (const { fileName, entries, summary } of parsed) {
+      console.log(`Processed ${entries.length} log entries from ${fileName}`);
 
       try {
         await saveAnalysisSession({
@@ -207,10 +594,6 @@ function App() {
       } catch (dbError) {
         console.error('Failed to save analysis session:', dbError);
       }
-    } catch (error) {
-      console.error('Error parsing log file:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Failed to parse log file: ${errorMessage}`);
     }
   };
 
@@ -218,11 +601,15 @@ function App() {
    * Handle audit trail CSV upload and processing
    */
   const handleAuditFileUpload = async (content: string, fileName: string) => {
+    const signal = startBackgroundParse();
+
     try {
       console.log('Starting audit trail processing...');
 
-      const parsedEntries = parseAuditTrailCSV(content);
-      const summary = generateAuditSummary(parsedEntries);
+      const { entries: parsedEntries, summary } = await parseAuditFileInWorker(content, {
+        onProgress: setParseProgress,
+        signal,
+      });
 
       setAuditEntries(parsedEntries);
       setAuditSummary(summary);
@@ -231,8 +618,14 @@ function App() {
 
       console.log(`Processed ${parsedEntries.length} audit entries from ${fileName}`);
     } catch (error) {
+      if (signal.aborted) {
+        console.log(PARSE_CANCELLED_MESSAGE);
+        return;
+      }
       console.error('Error parsing audit trail CSV:', error);
       alert('Failed to parse audit trail. Please check the console for details.');
+    } finally {
+      finishBackgroundParse(signal);
     }
   };
 
@@ -248,7 +641,16 @@ function App() {
     
     console.log('Resetting application state...');
     
-    // Clear all analysis state
+    // Cancel any running parse and clear all analysis state
+    handleCancelParse();
+    setPendingAiUpload(null);
+    setAiBatches([]);
+    setSessionFiles([]);
+    setShowAddFile(false);
+    setLogTemplates([]);
+    templateMinerRef.current = createLogTemplateMiner();
+    setTableTemplateId(null);
+    setAnomalies([]);
     setLogs([]);
     setLogSummary(null);
     setAuditEntries([]);
@@ -256,6 +658,7 @@ function App() {
     setFilename('');
     setActiveTab('summary');
     setAddedReportContent([]);
+    setReportComparison(null);
     
     setTimeout(() => {
       setIsResetting(false);
@@ -310,6 +713,9 @@ function App() {
         { id: 'summary', name: 'Summary', icon: FileText },
         { id: 'charts', name: 'Charts', icon: BarChart3 },
         { id: 'table', name: 'Log Table', icon: TrendingUp },
+        { id: 'patterns', name: 'Patterns', icon: Shapes },
+        // Comparing needs two files in the session
+        ...(sessionFiles.length > 1 ? [{ id: 'compare', name: 'Compare', icon: GitCompare }] : []),
         { id: 'report', name: 'Generate Report', icon: FileDown },
       ];
     } else {
@@ -414,6 +820,9 @@ function App() {
                 <span>Knowledge Base</span>
               </button>
               
+              {/* Display timezone selector */}
+              {appMode === 'logs' && <TimezoneToggle />}
+              
               {/* Dark/Light theme toggle */}
               <ThemeToggle />
               
@@ -441,12 +850,33 @@ function App() {
               ) : (
                 <FileSpreadsheet className="h-4 w-4 mr-2" />
               )}
-              <span>Analyzing: <strong>{filename}</strong></span>
+              {appMode === 'logs' && sessionFiles.length > 1 ? (
+                <span className="flex flex-wrap items-center gap-2">
+                  <span>Analyzing {sessionFiles.length} files:</span>
+                  {sessionFiles.map((file, index) => (
+                    <span key={file.name} className="flex items-center space-x-1">
+                      <span className={`w-2 h-2 rounded-full ${getSessionFileColor(index).dot}`} />
+                      <strong>{file.name}</strong>
+                    </span>
+                  ))}
+                </span>
+              ) : (
+                <span>Analyzing: <strong>{filename}</strong></span>
+              )}
               {currentSummary && (
                 <span className="ml-4 text-gray-500 dark:text-gray-400">
                   • {currentSummary.totalEntries.toLocaleString()} entries
                 </span>
               )}
+              {appMode === 'logs' && hasData && !showAddFile && (
+                <button
+                  onClick={() => setShowAddFile(true)}
+                  className="ml-4 flex items-center space-x-1 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors duration-200"
+                >
+                  <FilePlus className="h-4 w-4" />
+                  <span>Add file</span>
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -480,9 +910,32 @@ function App() {
             isTransitioning ? 'opacity-30 scale-95' : 'opacity-100 scale-100'
           }`}>
             {appMode === 'logs' ? (
-              <FileUpload onFileUpload={handleLogFileUpload} />
+              <div className="w-full">
+                <ParserModeSelector
+                  mode={parserMode}
+                  onChange={setParserMode}
+                  disabled={!!parseProgress}
+                />
+                <FileUpload
+                  onFileUpload={handleLogFileUpload}
+                  onFilesUpload={handleLogUploads}
+                  onRotatedLogUpload={handleRotatedLogUpload}
+                  progress={parseProgress}
+                  onCancel={handleCancelParse}
+                />
+                {parseProgress && aiBatches.length > 0 && (
+                  <div className="w-full max-w-2xl mx-auto mt-4">
+                    <AiBatchStatusList batches={aiBatches} />
+                  </div>
+                )}
+                <CustomFormatEditor />
+              </div>
             ) : (
-              <AuditFileUpload onFileUpload={handleAuditFileUpload} />
+              <AuditFileUpload
+                onFileUpload={handleAuditFileUpload}
+                progress={parseProgress}
+                onCancel={handleCancelParse}
+              />
             )}
           </div>
         ) : (
@@ -490,6 +943,42 @@ function App() {
             isTransitioning ? 'opacity-30 scale-95' : 'opacity-100 scale-100'
           }`}>
             
+            {/* ================================================================
+                ADD FILE TO SESSION (Log Analysis Only)
+                ================================================================ */}
+            {appMode === 'logs' && showAddFile && (
+              <div className="relative bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+                <button
+                  onClick={() => setShowAddFile(false)}
+                  disabled={!!parseProgress}
+                  className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-50"
+                  aria-label="Close"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+                <p className="mb-4 text-center text-sm text-gray-600 dark:text-gray-300">
+                  The file's entries are merged into the current timeline and tagged with its name
+                </p>
+                <ParserModeSelector
+                  mode={parserMode}
+                  onChange={setParserMode}
+                  disabled={!!parseProgress}
+                />
+                <FileUpload
+                  onFileUpload={handleLogFileUpload}
+                  onFilesUpload={handleLogUploads}
+                  onRotatedLogUpload={handleRotatedLogUpload}
+                  progress={parseProgress}
+                  onCancel={handleCancelParse}
+                />
+                {parseProgress && aiBatches.length > 0 && (
+                  <div className="w-full max-w-2xl mx-auto mt-4">
+                    <AiBatchStatusList batches={aiBatches} />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* ================================================================
                 TAB NAVIGATION
                 ================================================================ */}
@@ -500,7 +989,10 @@ function App() {
                   return (
                     <button
                       key={tab.id}
-                      onClick={() => setActiveTab(tab.id as any)}
+                      onClick={() => {
+                        setActiveTab(tab.id as any);
+                        setTableTemplateId(null);
+                      }}
                       className={`flex items-center space-x-2 px-4 py-2 rounded-md font-medium text-sm transition-all duration-200 ${
                         activeTab === tab.id
                           ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 shadow-sm'
@@ -526,7 +1018,25 @@ function App() {
               }`}>
                 {activeTab === 'summary' && currentSummary && (
                   appMode === 'logs' ? (
-                    <LogSummary summary={logSummary!} />
+                    <div className="space-y-6">
+                      {aiBatches.length > 0 && <AiBatchStatusList batches={aiBatches} />}
+                      <LogSummary
+                        summary={logSummary!}
+                        anomalies={anomalies}
+                        onShowTemplateEntries={(templateId) => {
+                          setTableTemplateId(templateId);
+                          setActiveTab('table');
+                        }}
+                      />
+                      {sessionFiles.map(file => (
+                        <ParseDiagnosticsPanel
+                          key={file.name}
+                          diagnostics={file.diagnostics}
+                          logs={logs}
+                          filename={file.name}
+                        />
+                      ))}
+                    </div>
                   ) : (
                     <AuditSummary summary={auditSummary!} />
                   )
@@ -539,7 +1049,7 @@ function App() {
                   activeTab === 'charts' ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 absolute inset-0 pointer-events-none'
                 }`}>
                   {activeTab === 'charts' && (
-                    <LogCharts logs={logs} />
+                    <LogCharts logs={logs} anomalies={anomalies} />
                   )}
                 </div>
               )}
@@ -561,13 +1071,53 @@ function App() {
               }`}>
                 {activeTab === 'table' && (
                   appMode === 'logs' ? (
-                    <LogTable logs={logs} />
+                    <LogTable
+                      logs={logs}
+                      files={sessionFiles.map(file => file.name)}
+                      templates={logTemplates}
+                      initialTemplateId={tableTemplateId}
+                    />
                   ) : (
                     <AuditTable entries={auditEntries} />
                   )
                 )}
               </div>
 
+              {/* Patterns Panel (Log Analysis Only) */}
+              {appMode === 'logs' && (
+                <div className={`transition-all duration-300 ease-in-out ${
+                  activeTab === 'patterns' ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 absolute inset-0 pointer-events-none'
+                }`}>
+                  {activeTab === 'patterns' && (
+                    <LogPatterns
+                      templates={logTemplates}
+                      onShowEntries={(templateId) => {
+                        setTableTemplateId(templateId);
+                        setActiveTab('table');
+                      }}
+                    />
+                  )}
+                </div>
+              )}
+
+              {/* Compare Panel (Multi-file Log Sessions Only) */}
+              {appMode === 'logs' && sessionFiles.length > 1 && (
+                <div className={`transition-all duration-300 ease-in-out ${
+                  activeTab === 'compare' ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 absolute inset-0 pointer-events-none'
+                }`}>
+                  {activeTab === 'compare' && (
+                    <LogComparisonView
+                      logs={logs}
+                      files={sessionFiles.map(file => file.name)}
+                      templates={logTemplates}
+                      reportComparison={reportComparison}
+                      onAddToReport={setReportComparison}
+                      onRemoveFromReport={() => setReportComparison(null)}
+                    />
+                  )}
+                </div>
+              )}
+
               {/* Report Panel (Log Analysis Only) */}
               {appMode === 'logs' && (
                 <div className={`transition-all duration-300 ease-in-out ${
@@ -580,6 +1130,8 @@ function App() {
                       filename={filename}
                       addedContent={addedReportContent}
                       onRemoveContent={handleRemoveFromReport}
+                      comparison={reportComparison}
+                      onRemoveComparison={() => setReportComparison(null)}
                     />
                   )}
                 </div>
@@ -602,7 +1154,7 @@ function App() {
               <div>
                 <h4 className="text-sm font-medium text-green-800 dark:text-green-300">Privacy Protected</h4>
                 <p className="text-sm text-green-700 dark:text-green-400 mt-1">
-                  {appMode === 'logs' ? 'Log' : 'Audit trail'} content is processed locally and never stored in the database. 
+                  {appMode === 'logs' ? 'Log' : 'Audit trail'} content is processed locally{appMode === 'logs' && ' unless you choose and confirm an AI parser mode'} and never stored in the database. 
                   Only analysis metadata (timestamps, counts) is saved for session tracking.
                   No data caching ensures fresh processing and maximum security.
                 </p>
@@ -618,9 +1170,10 @@ function App() {
                 <div>
                   <h4 className="text-sm font-medium text-blue-800 dark:text-blue-300">AI Usage Notice</h4>
                   <p className="text-sm text-blue-700 dark:text-blue-400 mt-1">
-                    <strong>Limited AI Integration:</strong> Only the optional AI chatbot assistant uses artificial intelligence (Google Gemini). 
-                    All core log analysis features (parsing, statistics, charts, and reports) are processed locally without AI. 
-                    The AI assistant only receives summary statistics, never actual log content.
+                    <strong>Limited AI Integration:</strong> Parsing is local by default. The Hybrid AI and Full AI parser modes
+                    send log content to the configured language model, and only after you confirm each upload.
+                    Statistics, charts, and reports are always computed locally. The optional AI chatbot assistant
+                    only receives summary statistics, never actual log content.
                   </p>
                 </div>
               </div>
@@ -657,6 +1210,18 @@ function App() {
         />
       )}
 
+      {/* ========================================================================
+          AI PARSING CONSENT
+          ======================================================================== */}
+      {pendingAiUpload && (
+        <AiConsentDialog
+          mode={pendingAiUpload.mode}
+          uploads={pendingAiUpload.uploads.filter(upload => getUploadParserMode(upload, pendingAiUpload.mode) !== 'local')}
+          onConfirm={handleAiConsent}
+          onCancel={() => setPendingAiUpload(null)}
+        />
+      )}
+
     </div>
   );
 }
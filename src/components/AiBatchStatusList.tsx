@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Layers, ChevronDown, ChevronRight } from 'lucide-react';
+import { AiBatchState, AiBatchStatus } from '../types/llm';
+
+/**
+ * Props interface for the AiBatchStatusList component
+ */
+interface AiBatchStatusListProps {
+  /** Status of every batch, in file order */
+  batches: AiBatchStatus[];
+}
+
+/**
+ * Label and badge colours for each state
+ */
+const STATE_STYLES: Record<AiBatchState, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300' },
+  running: { label: 'Running', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' },
+  retrying: { label: 'Retrying', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300' },
+  cached: { label: 'Cached', className: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' },
+  done: { label: 'AI', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+  partial: { label: 'Partly local', className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' },
+  fallback: { label: 'Local fallback', className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' },
+};
+
+/**
+ * Format an estimated token count compactly
+ */
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+/**
+ * AiBatchStatusList Component
+ *
+ * Shows how each batch of an AI parse went, so it is clear which line
+ * ranges came from the model and which degraded to local parsing. The
+ * per-batch rows start expanded only when some lines fell back.
+ */
+export function AiBatchStatusList({ batches }: AiBatchStatusListProps) {
+  const degraded = batches.filter(batch => batch.fallbackLines > 0);
+  const [expanded, setExpanded] = useState(degraded.length > 0);
+
+  const counts = batches.reduce((acc, batch) => {
+    acc[batch.state] = (acc[batch.state] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<AiBatchState, number>>);
+  const fallbackLines = degraded.reduce((sum, batch) => sum + batch.fallbackLines, 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 transition-colors duration-200">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={expanded}
+      >
+        <span className="flex items-center space-x-2 text-sm font-medium text-gray-900 dark:text-white">
+          <Layers className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+          <span>AI batches</span>
+          {fallbackLines > 0 && (
+            <span className="text-xs font-normal text-red-600 dark:text-red-400">
+              {fallbackLines.toLocaleString()} line{fallbackLines === 1 ? '' : 's'} parsed locally
+            </span>
+          )}
+        </span>
+        <span className="flex items-center space-x-2">
+          {(Object.keys(STATE_STYLES) as AiBatchState[]).filter(state => counts[state]).map(state => (
+            <span key={state} className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATE_STYLES[state].className}`}>
+              {counts[state]} {STATE_STYLES[state].label}
+            </span>
+          ))}
+          {expanded
+            ? <ChevronDown className="h-4 w-4 text-gray-400" />
+            : <ChevronRight className="h-4 w-4 text-gray-400" />}
+        </span>
+      </button>
+
+      {expanded && (
+        <ul className="mt-3 max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 text-xs">
+          {batches.map(batch => (
+            <li key={batch.index} className="flex items-center space-x-3 py-1.5">
+              <span className="w-32 font-mono text-gray-700 dark:text-gray-300">
+                Lines {(batch.startLine + 1).toLocaleString()}–{batch.endLine.toLocaleString()}
+              </span>
+              <span className={`px-2 py-0.5 rounded-full font-medium ${STATE_STYLES[batch.state].className}`}>
+                {STATE_STYLES[batch.state].label}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {batch.attempts > 1 && `${batch.attempts} attempts · `}~{formatTokens(batch.estimatedTokens)} tokens
+                {batch.fallbackLines > 0 && batch.state !== 'fallback' && ` · ${batch.fallbackLines} local`}
+              </span>
+              {batch.error && (
+                <span className="flex-1 truncate text-red-600 dark:text-red-400" title={batch.error}>
+                  {batch.error}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
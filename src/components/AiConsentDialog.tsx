@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Send, X, EyeOff, Trash2 } from 'lucide-react';
+import { LogUpload, ParserMode } from '../types/log';
+import { getParserMode, getParserModeService } from '../utils/parserModes';
+import { RedactionSettings, createRedactor, loadRedactionSettings, saveRedactionSettings } from '../utils/redaction';
+import { LOG_SAMPLE_BYTES, readLogSample } from '../utils/logStreamParser';
+import { clearAiCache } from '../utils/aiCache';
+import { RedactionSettingsPanel } from './RedactionSettingsPanel';
+
+/**
+ * Props interface for the AiConsentDialog component
+ */
+interface AiConsentDialogProps {
+  /** AI mode the files would be parsed with */
+  mode: ParserMode;
+
+  /** Uploads awaiting consent; the first is read for the redaction preview */
+  uploads: LogUpload[];
+
+  /** Send the files to the AI service with the chosen redaction settings */
+  onConfirm: (redaction: RedactionSettings) => void;
+
+  /** Discard the upload without sending anything */
+  onCancel: () => void;
+}
+
+/**
+ * Number of lines shown in the redaction preview
+ */
+const PREVIEW_LINE_COUNT = 5;
+
+/**
+ * AiConsentDialog Component
+ *
+ * Modal shown before every AI-parsed upload. It names the language model,
+ * the host and what part of the file will be sent, and nothing is sent
+ * unless the user confirms. Consent is never remembered between uploads;
+ * the redaction settings are, and a preview shows the first lines exactly
+ * as they will be sent.
+ */
+export function AiConsentDialog({ mode, uploads, onConfirm, onCancel }: AiConsentDialogProps) {
+  const { label, dataSent } = getParserMode(mode);
+  const service = getParserModeService(mode);
+  const [{ source }] = uploads;
+  const fileSize = uploads.reduce(
+    (sum, upload) => sum + (typeof upload.source === 'string' ? new Blob([upload.source]).size : upload.source.size),
+    0
+  );
+
+  const [redaction, setRedaction] = useState<RedactionSettings>(loadRedactionSettings);
+  const [sampleLines, setSampleLines] = useState<string[]>([]);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  /**
+   * Read the first lines for the preview without loading the whole file
+   */
+  useEffect(() => {
+    let cancelled = false;
+    const sample = typeof source === 'string'
+      ? Promise.resolve(source.slice(0, LOG_SAMPLE_BYTES).split('\n'))
+      : readLogSample(source);
+
+    sample.then(lines => {
+      if (!cancelled) setSampleLines(lines.filter(line => line.trim()).slice(0, PREVIEW_LINE_COUNT));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  /**
+   * Preview lines redacted with the current settings
+   */
+  const previewLines = useMemo(() => {
+    const redactor = createRedactor(redaction);
+    return sampleLines.map(redactor.redact);
+  }, [sampleLines, redaction]);
+
+  /**
+   * Save the redaction settings for next time and send the file
+   */
+  const handleConfirm = () => {
+    saveRedactionSettings(redaction);
+    onConfirm(redaction);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true" aria-labelledby="ai-consent-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 transition-colors duration-200">
+        <div className="flex items-start justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="bg-amber-100 dark:bg-amber-900/30 p-2 rounded-lg">
+              <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+            </div>
+            <h3 id="ai-consent-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+              Send log content to {service?.name}?
+            </h3>
+          </div>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Cancel"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3 text-sm text-gray-700 dark:text-gray-300">
+          <p>
+            <strong>{label}</strong> parsing sends the content of {uploads.length > 1 ? 'these files' : 'this file'} outside your browser.
+            Do not continue if the log contains customer data you are not allowed to share.
+          </p>
+          <dl className="grid grid-cols-3 gap-x-3 gap-y-2 bg-gray-50 dark:bg-gray-900/40 rounded-lg p-3">
+            <dt className="text-gray-500 dark:text-gray-400">{uploads.length > 1 ? 'Files' : 'File'}</dt>
+            <dd className="col-span-2 font-medium break-all">
+              {uploads.map(upload => upload.fileName).join(', ')} ({(fileSize / (1024 * 1024)).toFixed(2)} MB)
+            </dd>
+            <dt className="text-gray-500 dark:text-gray-400">Sent to</dt>
+            <dd className="col-span-2 font-mono">{service?.host}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">Data sent</dt>
+            <dd className="col-span-2">{dataSent}</dd>
+          </dl>
+
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
+            <RedactionSettingsPanel settings={redaction} onChange={setRedaction} />
+          </div>
+
+          {previewLines.length > 0 && (
+            <div>
+              <p className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                <EyeOff className="h-3.5 w-3.5" />
+                <span>First lines as they will be sent</span>
+              </p>
+              <pre className="text-xs font-mono bg-gray-50 dark:bg-gray-900/40 rounded-lg p-3 overflow-x-auto whitespace-pre">
+                {previewLines.join('\n')}
+              </pre>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            You will be asked again for every upload. Choose Local mode to keep everything in the browser.
+            Batches analysed before with the same model are reused from this browser's cache and not sent again.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 p-5 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => clearAiCache().then(() => setCacheCleared(true))}
+            disabled={cacheCleared}
+            className="mr-auto flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:hover:text-gray-500 dark:disabled:hover:text-gray-400 transition-colors duration-200"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            <span>{cacheCleared ? 'Cached AI results cleared' : 'Clear cached AI results'}</span>
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="flex items-center space-x-2 px-4 py-2 bg-amber-600 dark:bg-amber-500 text-white rounded-lg text-sm font-medium hover:bg-amber-700 dark:hover:bg-amber-600 transition-colors duration-200"
+          >
+            <Send className="h-4 w-4" />
+            <span>Send to {service?.host}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { FileArchive, X } from 'lucide-react';
+import { ArchiveMember } from '../utils/archiveReader';
+import { findRotatedSeries } from '../utils/rotatedLogs';
+
+/**
+ * Props interface for the ArchiveMemberPicker component
+ */
+interface ArchiveMemberPickerProps {
+  /** Name of the uploaded archive */
+  archiveName: string;
+
+  /** Members of the archive, in archive order */
+  members: ArchiveMember[];
+
+  /** Whether the chosen members are being decompressed */
+  loading: boolean;
+
+  /** Loads the chosen members into the analysis */
+  onLoad: (members: ArchiveMember[]) => void;
+
+  /** Closes the picker without loading anything */
+  onCancel: () => void;
+}
+
+/**
+ * Format a byte count for the member list
+ */
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * ArchiveMemberPicker Component
+ *
+ * Lists the members of an uploaded .zip or .gz with their sizes and
+ * detected formats, and loads the chosen members into the analysis, each
+ * as its own file of the session. Binary, encrypted and unsupported
+ * members are listed but cannot be chosen.
+ */
+export function ArchiveMemberPicker({ archiveName, members, loading, onLoad, onCancel }: ArchiveMemberPickerProps) {
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+
+  const selected = members.filter(member => selectedPaths.has(member.path));
+  const rotated = findRotatedSeries(selected.map(member => ({ file: member, name: member.name }))) !== null;
+
+  /**
+   * Add a member to the selection, or take it out
+   */
+  const toggleMember = (path: string) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg transition-colors duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <span className="flex items-center space-x-2 text-sm font-medium text-gray-900 dark:text-white">
+          <FileArchive className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+          <span>{archiveName}</span>
+          <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+            {members.length} file{members.length === 1 ? '' : 's'}
+          </span>
+        </span>
+        <button
+          onClick={onCancel}
+          disabled={loading}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          aria-label="Close archive"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {members.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">This archive has no files.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto rounded border border-gray-200 dark:border-gray-700">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400 sticky top-0">
+              <tr>
+                <th className="w-8 px-2 py-2" />
+                <th className="px-2 py-2 text-left font-medium">File</th>
+                <th className="px-2 py-2 text-right font-medium">Size</th>
+                <th className="px-2 py-2 text-left font-medium">Format</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {members.map(member => {
+                const loadable = member.kind !== 'binary' && member.kind !== 'unsupported';
+                return (
+                  <tr
+                    key={member.path}
+                    className={loadable ? 'hover:bg-gray-50 dark:hover:bg-gray-700/50' : 'opacity-50'}
+                  >
+                    <td className="px-2 py-1.5 text-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedPaths.has(member.path)}
+                        onChange={() => toggleMember(member.path)}
+                        disabled={!loadable || loading}
+                        aria-label={`Select ${member.path}`}
+                      />
+                    </td>
+                    <td className="px-2 py-1.5 font-mono text-gray-900 dark:text-gray-100 break-all">{member.path}</td>
+                    <td className="px-2 py-1.5 text-right text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                      {member.size !== null
+                        ? formatSize(member.size)
+                        : `${formatSize(member.compressedSize)} compressed`}
+                    </td>
+                    <td className="px-2 py-1.5 text-gray-600 dark:text-gray-300">{member.formatName}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-3 flex items-center justify-between">
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {rotated
+            ? `${selected.length} rotated files will be stitched into one log`
+            : selected.length > 1
+              ? `${selected.length} files will be added to the session on one timeline`
+              : 'Choose one or more files'}
+        </span>
+        <button
+          onClick={() => onLoad(selected)}
+          disabled={selected.length === 0 || loading}
+          className="px-3 py-1 bg-blue-600 dark:bg-blue-500 text-white rounded text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {loading ? 'Decompressing...' : `Load ${selected.length > 1 ? `${selected.length} files` : 'file'}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 import React, { useCallback, useState } from 'react';
 import { Upload, File, X, AlertCircle, Info, ExternalLink, FileSpreadsheet } from 'lucide-react';
+import { ParseProgress } from '../types/worker';
+import { ParseProgressBar } from './ParseProgressBar';
 
 /**
  * Props interface for the AuditFileUpload component
  */
 interface AuditFileUploadProps {
   onFileUpload: (content: string, filename: string) => void;
+
+  /** Progress of the background parse, null when idle */
+  progress?: ParseProgress | null;
+
+  /** Cancels the background parse */
+  onCancel?: () => void;
 }
 
 /**
@@ -21,6 +29,7 @@ interface AuditFileUploadProps {
  * - CSV parsing and validation
  * - Handles single-column CSV data (all data in column A)
  * - Visual feedback during upload process
+ * - Progress bar and cancel button while the file is parsed
  * - Error handling with user-friendly messages
  * 
  * Security considerations:
@@ -28,7 +37,7 @@ interface AuditFileUploadProps {
  * - No files are uploaded to servers
  * - Content is processed in browser memory only
  */
-export function AuditFileUpload({ onFileUpload }: AuditFileUploadProps) {
+export function AuditFileUpload({ onFileUpload, progress, onCancel }: AuditFileUploadProps) {
   // ============================================================================
   // STATE MANAGEMENT
   // ============================================================================
@@ -172,7 +181,7 @@ export function AuditFileUpload({ onFileUpload }: AuditFileUploadProps) {
           dragActive
             ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 dark:border-blue-400'
             : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800/50'
-        } ${uploading ? 'pointer-events-none opacity-60' : ''}`}
+        } ${uploading || progress ? 'pointer-events-none opacity-60' : ''}`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
@@ -184,7 +193,7 @@ export function AuditFileUpload({ onFileUpload }: AuditFileUploadProps) {
           accept=".csv,.txt"
           onChange={handleFileInput}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          disabled={uploading}
+          disabled={uploading || !!progress}
         />
         
         {/* Upload interface content */}
@@ -214,6 +223,11 @@ export function AuditFileUpload({ onFileUpload }: AuditFileUploadProps) {
         </div>
       </div>
 
+      {/* ========================================================================
+          PARSE PROGRESS
+          ======================================================================== */}
+      {progress && <ParseProgressBar progress={progress} onCancel={onCancel} />}
+
       {/* ========================================================================
           ERROR DISPLAY
           ======================================================================== */}
@@ -0,0 +1,394 @@
+import React, { useMemo, useState } from 'react';
+import { Settings2, ChevronDown, ChevronRight, Save, Trash2, CheckCircle, XCircle, AlertCircle, FileText } from 'lucide-react';
+import { format as formatDate } from 'date-fns';
+import { LogFormatDefinition } from '../types/log';
+import { parseLogLineWithFormat } from '../utils/logParser';
+import {
+  CustomLogFormat,
+  CUSTOM_FORMAT_GROUPS,
+  compileCustomPattern,
+  deleteCustomFormat,
+  loadCustomFormats,
+  saveCustomFormat,
+  validateTimestampFormat,
+} from '../utils/customFormats';
+
+/**
+ * Number of sample lines shown in the live preview
+ */
+const PREVIEW_LINE_COUNT = 50;
+
+/**
+ * Bytes read from a sample file - enough for the preview lines of any
+ * reasonable log without reading a large file into memory
+ */
+const SAMPLE_READ_BYTES = 64 * 1024;
+
+/**
+ * CustomFormatEditor Component
+ *
+ * Lets users define a custom log layout for files the built-in formats do
+ * not recognise. The user supplies a regular expression with named groups
+ * and a timestamp format, sees the result on the first sample lines as they
+ * type, and saves the format to the browser for all later uploads.
+ *
+ * Features:
+ * - Regex validation with named group checks
+ * - Live preview on the first 50 sample lines
+ * - Sample lines pasted or loaded from the start of a file
+ * - Saved formats list with delete
+ *
+ * Security considerations:
+ * - Only the format definition is saved, never the sample lines
+ * - Sample files are read locally and only their first 64KB
+ */
+export function CustomFormatEditor() {
+  // ============================================================================
+  // STATE MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Whether the editor panel is expanded
+   */
+  const [isOpen, setIsOpen] = useState(false);
+
+  /**
+   * Saved custom formats, refreshed after every save/delete
+   */
+  const [savedFormats, setSavedFormats] = useState<CustomLogFormat[]>(() => loadCustomFormats());
+
+  /**
+   * Id of the saved format being edited, or null for a new format
+   */
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  /**
+   * Editor fields
+   */
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [timestampFormat, setTimestampFormat] = useState('yyyy-MM-dd HH:mm:ss');
+  const [sampleText, setSampleText] = useState('');
+
+  /**
+   * Feedback shown after saving
+   */
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  // ============================================================================
+  // LIVE PREVIEW
+  // ============================================================================
+
+  const compiled = useMemo(() => compileCustomPattern(pattern), [pattern]);
+  const patternError = pattern.trim() && 'error' in compiled ? compiled.error : null;
+  const timestampFormatError = useMemo(() => validateTimestampFormat(timestampFormat), [timestampFormat]);
+
+  /**
+   * Parse the sample lines with the format being edited
+   */
+  const preview = useMemo(() => {
+    if ('error' in compiled || timestampFormatError) return null;
+
+    const previewFormat: LogFormatDefinition = {
+      id: 'custom-preview',
+      name: name || 'Preview',
+      linePattern: compiled.regex,
+      timestampFormat: timestampFormat.trim() || undefined,
+    };
+
+    const lines = sampleText.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.trim()).slice(0, PREVIEW_LINE_COUNT);
+    return lines.map((line, index) => ({
+      line,
+      entry: parseLogLineWithFormat(line, index, previewFormat),
+    }));
+  }, [compiled, timestampFormatError, name, timestampFormat, sampleText]);
+
+  const matchedCount = preview?.filter(row => row.entry).length ?? 0;
+  const timestampCount = preview?.filter(row => row.entry?.timestamp).length ?? 0;
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  /**
+   * Load the first lines of a local file as sample text
+   */
+  const handleSampleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.slice(0, SAMPLE_READ_BYTES).text();
+    setSampleText(text.split('\n').slice(0, PREVIEW_LINE_COUNT).join('\n'));
+    e.target.value = '';
+  };
+
+  /**
+   * Save the current format and register it for parsing
+   */
+  const handleSave = () => {
+    if (!name.trim() || 'error' in compiled || timestampFormatError) return;
+
+    const id = editingId || Date.now().toString();
+    saveCustomFormat({
+      id,
+      name: name.trim(),
+      pattern,
+      timestampFormat: timestampFormat.trim(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    setEditingId(id);
+    setSavedFormats(loadCustomFormats());
+    setSaveMessage(`Saved "${name.trim()}". It will be used for matching uploads.`);
+    setTimeout(() => setSaveMessage(null), 3000);
+  };
+
+  /**
+   * Load a saved format into the editor
+   */
+  const handleEdit = (format: CustomLogFormat) => {
+    setEditingId(format.id);
+    setName(format.name);
+    setPattern(format.pattern);
+    setTimestampFormat(format.timestampFormat);
+  };
+
+  /**
+   * Delete a saved format
+   */
+  const handleDelete = (id: string) => {
+    deleteCustomFormat(id);
+    setSavedFormats(loadCustomFormats());
+    if (editingId === id) {
+      handleNew();
+    }
+  };
+
+  /**
+   * Clear the editor for a new format
+   */
+  const handleNew = () => {
+    setEditingId(null);
+    setName('');
+    setPattern('');
+    setTimestampFormat('yyyy-MM-dd HH:mm:ss');
+  };
+
+  const formatPreviewTimestamp = (timestamp: Date | null) =>
+    timestamp ? formatDate(timestamp, 'yyyy-MM-dd HH:mm:ss') : '-';
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 transition-colors duration-200';
+
+  // ============================================================================
+  // COMPONENT RENDER
+  // ============================================================================
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-6 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 transition-colors duration-200">
+
+      {/* Panel header / toggle */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center space-x-2">
+          <Settings2 className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+          <span className="font-medium text-gray-900 dark:text-white">Custom format</span>
+          {savedFormats.length > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              ({savedFormats.length} saved)
+            </span>
+          )}
+        </div>
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+
+          {/* ==================================================================
+              SAVED FORMATS
+              ================================================================== */}
+          {savedFormats.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Saved formats</h4>
+              {savedFormats.map(format => (
+                <div
+                  key={format.id}
+                  className={`flex items-center justify-between p-2 rounded-lg border transition-colors duration-200 ${
+                    editingId === format.id
+                      ? 'border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <button
+                    onClick={() => handleEdit(format)}
+                    className="flex-1 text-left text-sm text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    {format.name}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(format.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    title="Delete format"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={handleNew}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                + New format
+              </button>
+            </div>
+          )}
+
+          {/* ==================================================================
+              FORMAT FIELDS
+              ================================================================== */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Customer X gateway log"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Line pattern (regular expression)</label>
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="^(?<timestamp>\S+ \S+) (?<level>\w+) \[(?<thread>\d+)\] (?<message>.*)$"
+              className={`${inputClass} font-mono text-sm`}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Named groups: {CUSTOM_FORMAT_GROUPS.map(group => `(?<${group}>…)`).join(' ')}
+            </p>
+            {patternError && (
+              <p className="text-xs text-red-600 dark:text-red-400 mt-1 flex items-center space-x-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>{patternError}</span>
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Timestamp format</label>
+            <input
+              type="text"
+              value={timestampFormat}
+              onChange={(e) => setTimestampFormat(e.target.value)}
+              placeholder="yyyy-MM-dd HH:mm:ss,SSS"
+              className={`${inputClass} font-mono text-sm`}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              date-fns tokens (yyyy, MM, dd, HH, mm, ss, SSS) or <code>iso</code> for ISO-8601
+            </p>
+            {timestampFormatError && (
+              <p className="text-xs text-red-600 dark:text-red-400 mt-1 flex items-center space-x-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>{timestampFormatError}</span>
+              </p>
+            )}
+          </div>
+
+          {/* ==================================================================
+              SAMPLE LINES
+              ================================================================== */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Sample lines</label>
+              <label className="flex items-center space-x-1 text-xs text-blue-600 dark:text-blue-400 cursor-pointer hover:underline">
+                <FileText className="h-3 w-3" />
+                <span>Load from file</span>
+                <input type="file" accept=".log,.txt,.out" onChange={handleSampleFile} className="hidden" />
+              </label>
+            </div>
+            <textarea
+              value={sampleText}
+              onChange={(e) => setSampleText(e.target.value)}
+              rows={5}
+              placeholder="Paste a few lines of the log here"
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </div>
+
+          {/* ==================================================================
+              LIVE PREVIEW
+              ================================================================== */}
+          {preview && preview.length > 0 && (
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+                {matchedCount} of {preview.length} lines matched • {timestampCount} with a parsed timestamp
+              </p>
+              <div className="max-h-64 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-300"></th>
+                      <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-300">Timestamp</th>
+                      <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-300">Level</th>
+                      <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-300">Thread</th>
+                      <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-300">Source</th>
+                      <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-300">Message</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700 font-mono">
+                    {preview.map((row, index) => (
+                      <tr key={index} className="text-gray-700 dark:text-gray-300">
+                        <td className="px-2 py-1">
+                          {row.entry ? (
+                            <CheckCircle className="h-3 w-3 text-green-500" />
+                          ) : (
+                            <XCircle className="h-3 w-3 text-red-500" />
+                          )}
+                        </td>
+                        {row.entry ? (
+                          <>
+                            <td className="px-2 py-1 whitespace-nowrap">{formatPreviewTimestamp(row.entry.timestamp)}</td>
+                            <td className="px-2 py-1">{row.entry.level}</td>
+                            <td className="px-2 py-1">{row.entry.threadId || '-'}</td>
+                            <td className="px-2 py-1">{row.entry.source || '-'}</td>
+                            <td className="px-2 py-1 break-all">{row.entry.message}</td>
+                          </>
+                        ) : (
+                          <td colSpan={5} className="px-2 py-1 text-gray-400 dark:text-gray-500 break-all">{row.line}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* ==================================================================
+              SAVE
+              ================================================================== */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-green-600 dark:text-green-400">{saveMessage}</span>
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || 'error' in compiled || !!timestampFormatError}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="h-4 w-4" />
+              <span>{editingId ? 'Update format' : 'Save format'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,106 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, File, X, AlertCircle, Info, ExternalLink } from 'lucide-react';
+import { Upload, File, X, AlertCircle, Info, ExternalLink, Globe, Calendar, Braces, ChevronDown, ChevronRight } from 'lucide-react';
+import { ParseProgress } from '../types/worker';
+import { ParseProgressBar } from './ParseProgressBar';
+import { ArchiveMemberPicker } from './ArchiveMemberPicker';
+import { JsonFieldPaths, LogParseOptions, LogUpload } from '../types/log';
+import { COMMON_TIMEZONES, LOCAL_TIMEZONE, getBrowserTimezone } from '../utils/timestampUtils';
+import { needsYearPrompt } from '../utils/yearInference';
+import { readLogSample } from '../utils/logStreamParser';
+import {
+  DEFAULT_JSON_FIELD_PATHS,
+  detectJsonLogLayout,
+  loadJsonFieldPaths,
+  parseFieldPathList,
+  saveJsonFieldPaths,
+} from '../utils/jsonLogParser';
+import { detectWindowsEventLog } from '../utils/windowsEventParser';
+import {
+  ArchiveMember,
+  extractArchiveMember,
+  isArchiveFile,
+  readArchiveMembers,
+} from '../utils/archiveReader';
+import { findRotatedSeries } from '../utils/rotatedLogs';
 
 /**
  * Props interface for the FileUpload component
  */
 interface FileUploadProps {
-  onFileUpload: (content: string, filename: string) => void;
+  /** Receives the text of JSON uploads, or the File itself for streamed log files */
+  onFileUpload: (source: string | File, filename: string, options: LogParseOptions) => void;
+
+  /** Receives several files loaded at once, such as the members of an archive */
+  onFilesUpload: (uploads: LogUpload[]) => void;
+
+  /** Receives the files of a rotated log uploaded together, and their base name */
+  onRotatedLogUpload: (files: File[], baseName: string, options: LogParseOptions) => void;
+
+  /** Progress of the background parse, null when idle */
+  progress?: ParseProgress | null;
+
+  /** Cancels the background parse */
+  onCancel?: () => void;
+}
+
+/**
+ * A file waiting for the user to confirm the year of its timestamps
+ */
+interface PendingYearUpload {
+  source: File;
+  filename: string;
+  options: LogParseOptions;
+}
+
+/**
+ * An uploaded archive whose members are being chosen
+ */
+interface OpenArchive {
+  name: string;
+  members: ArchiveMember[];
 }
 
+/**
+ * Size limit for JSON files and event log exports, which must be read whole
+ * to be parsed
+ * Plain log files are streamed and have no size limit
+ */
+const MAX_WHOLE_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Extensions of JSON and JSON Lines files
+ */
+const JSON_EXTENSIONS = ['.json', '.jsonl', '.ndjson'];
+
+/**
+ * Extensions of Windows event log exports
+ */
+const EVENT_LOG_EXTENSIONS = ['.xml', '.csv'];
+
+/**
+ * Labels of the configurable JSON fields, in display order
+ */
+const JSON_FIELD_LABELS: { field: keyof JsonFieldPaths; label: string }[] = [
+  { field: 'timestamp', label: 'Timestamp' },
+  { field: 'level', label: 'Level' },
+  { field: 'message', label: 'Message' },
+  { field: 'source', label: 'Source' },
+  { field: 'thread', label: 'Thread' },
+];
+
+/**
+ * Turn the typed field paths into settings, with the defaults for any field
+ * left empty
+ */
+const toJsonFieldPaths = (inputs: Record<keyof JsonFieldPaths, string>): JsonFieldPaths => {
+  const paths = { ...DEFAULT_JSON_FIELD_PATHS };
+  JSON_FIELD_LABELS.forEach(({ field }) => {
+    const typed = parseFieldPathList(inputs[field]);
+    if (typed.length > 0) paths[field] = typed;
+  });
+  return paths;
+};
+
 /**
  * FileUpload Component
  * 
@@ -16,10 +109,17 @@ interface FileUploadProps {
  * 
  * Features:
  * - Drag and drop file upload
- * - File type validation (text, log, JSON files)
- * - File size validation (50MB limit)
- * - JSON parsing and formatting for log analysis
+ * - File type validation (text, log, JSON and JSON Lines files)
+ * - Streaming of plain log files of any size (JSON files up to 50MB)
+ * - Configurable field paths for structured JSON records
+ * - Windows Event Viewer XML and CSV exports
+ * - .zip and .gz archives, with a picker for the members to load
+ * - Rotated logs (server.log, server.log.1, ...) uploaded together
+ * - Source timezone selection for timestamps without an offset
+ * - Year prompt for logs whose timestamps omit the year
+ * - Optional year bounds for accepted timestamps
  * - Visual feedback during upload process
+ * - Progress bar and cancel button while the file is parsed
  * - Error handling with user-friendly messages
  * 
  * Security considerations:
@@ -27,7 +127,7 @@ interface FileUploadProps {
  * - No files are uploaded to servers
  * - Content is processed in browser memory only
  */
-export function FileUpload({ onFileUpload }: FileUploadProps) {
+export function FileUpload({ onFileUpload, onFilesUpload, onRotatedLogUpload, progress, onCancel }: FileUploadProps) {
   // ============================================================================
   // STATE MANAGEMENT
   // ============================================================================
@@ -50,165 +150,317 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
    */
   const [error, setError] = useState<string | null>(null);
 
+  /**
+   * Timezone the log's timestamps were written in
+   * Defaults to the browser's timezone; ISO timestamps with an offset ignore it
+   */
+  const [sourceTimezone, setSourceTimezone] = useState<string>(LOCAL_TIMEZONE);
+
+  /**
+   * Optional fixed year bounds for accepted timestamps
+   * Empty means the window comes from the file's own timestamps only
+   */
+  const [minYear, setMinYear] = useState('');
+  const [maxYear, setMaxYear] = useState('');
+
+  /**
+   * File held back until the user confirms the year of its timestamps
+   * Set when the log uses yearless timestamps with no fully dated line
+   */
+  const [pendingYearUpload, setPendingYearUpload] = useState<PendingYearUpload | null>(null);
+
+  /**
+   * Year typed into the year prompt for the first log entry
+   */
+  const [yearInput, setYearInput] = useState('');
+
+  /**
+   * Field paths read from JSON records, as typed (comma-separated per field)
+   * Saved to localStorage whenever a JSON file is uploaded
+   */
+  const [jsonFieldInputs, setJsonFieldInputs] = useState<Record<keyof JsonFieldPaths, string>>(() => {
+    const paths = loadJsonFieldPaths();
+    return {
+      timestamp: paths.timestamp.join(', '),
+      level: paths.level.join(', '),
+      message: paths.message.join(', '),
+      source: paths.source.join(', '),
+      thread: paths.thread.join(', '),
+    };
+  });
+
+  /**
+   * Whether the JSON field path settings are shown
+   */
+  const [showJsonFields, setShowJsonFields] = useState(false);
+
+  /**
+   * Archive whose member list is shown, null when none is open
+   */
+  const [openArchive, setOpenArchive] = useState<OpenArchive | null>(null);
+
   // ============================================================================
   // FILE PROCESSING LOGIC
   // ============================================================================
   
   /**
-   * Main file handling function
-   * 
-   * Validates file type and size, then processes the content based on file type.
-   * Handles both regular text/log files and JSON files with special formatting.
-   * 
+   * Validate an uploaded file and read it into an upload
+   *
+   * Validates file type and size, then prepares the content based on file
+   * type. JSON files and event log exports are read here and passed on as
+   * text, marked in the parse options; regular text/log files are passed on
+   * as the File so the parser can stream them.
+   *
    * @param file - The uploaded File object
+   * @returns The upload, or a user-friendly message if it cannot be parsed
    */
-  const handleFile = useCallback(async (file: File) => {
-    // File type validation - accept text files, log files, and JSON files
-    const isValidType = file.type.includes('text') || 
-                       file.type.includes('json') || 
+  const readUpload = useCallback(async (file: File): Promise<LogUpload | string> => {
+    const name = file.name.toLowerCase();
+    const isJson = JSON_EXTENSIONS.some(extension => name.endsWith(extension)) || file.type.includes('json');
+    const isEventExport = EVENT_LOG_EXTENSIONS.some(extension => name.endsWith(extension)) ||
+                          file.type.includes('xml') || file.type.includes('csv');
+
+    // Binary event logs cannot be read in the browser
+    if (name.endsWith('.evtx')) {
+      return '.evtx files cannot be read directly. In Event Viewer, use "Save Selected Events" and choose XML, or save as CSV';
+    }
+
+    // File type validation - accept text files, log files, JSON files and event log exports
+    const isValidType = isJson || isEventExport ||
+                       file.type.includes('text') || 
                        file.name.endsWith('.log') || 
                        file.name.endsWith('.txt') || 
-                       file.name.endsWith('.json') ||
                        file.name.endsWith('.out');
 
     if (!isValidType) {
-      setError('Please upload a text, log, or JSON file');
-      return;
+      return 'Please upload a text, log, JSON, or Windows event log (XML/CSV) file';
     }
 
-    // File size validation - 50MB limit to prevent browser memory issues
-    if (file.size > 50 * 1024 * 1024) { // 50MB limit
-      setError('File size must be less than 50MB');
-      return;
+    // File size validation - these are parsed whole, so keep them within browser memory
+    if ((isJson || isEventExport) && file.size > MAX_WHOLE_FILE_SIZE) {
+      return isJson ? 'JSON files must be less than 50MB' : 'Event log exports must be less than 50MB';
+    }
+
+    const parseOptions: LogParseOptions = {
+      sourceTimezone,
+      fileLastModified: file.lastModified,
+      timestampWindow: {
+        minYear: minYear ? parseInt(minYear, 10) : undefined,
+        maxYear: maxYear ? parseInt(maxYear, 10) : undefined,
+      },
+    };
+
+    // JSON records are mapped field by field; content that is not JSON
+    // after all is parsed as text
+    if (isJson) {
+      const content = await file.text();
+      if (detectJsonLogLayout(content)) {
+        const jsonFields = toJsonFieldPaths(jsonFieldInputs);
+        saveJsonFieldPaths(jsonFields);
+        return { source: content, fileName: file.name, options: { ...parseOptions, jsonFields } };
+      }
+      console.warn('JSON file content is not JSON, treating as text');
+      return { source: content, fileName: file.name, options: parseOptions };
     }
 
+    if (isEventExport) {
+      // Only Event Viewer and PowerShell exports are read here; audit trail
+      // CSVs have their own mode
+      const content = await file.text();
+      const windowsEventLog = detectWindowsEventLog(content);
+      if (!windowsEventLog) {
+        return 'This file is not a Windows event log export. Audit trail CSVs are analysed in Audit Trail mode';
+      }
+      return { source: content, fileName: file.name, options: { ...parseOptions, windowsEventLog } };
+    }
+
+    // Regular text/log files are streamed by the parser, never read whole here
+    return { source: file, fileName: file.name, options: parseOptions };
+  }, [sourceTimezone, minYear, maxYear, jsonFieldInputs]);
+
+  /**
+   * Main file handling function
+   *
+   * Reads the file into an upload and passes it on, first asking for the
+   * year when a log's timestamps omit it.
+   *
+   * @param file - The uploaded File object
+   */
+  const handleFile = useCallback(async (file: File) => {
     setUploading(true);
     setError(null);
 
     try {
-      // Read file content as text
-      const content = await file.text();
-      
-      // Special handling for JSON files
-      if (file.name.endsWith('.json') || file.type.includes('json')) {
-        try {
-          const jsonData = JSON.parse(content);
-          const formattedContent = formatJsonForLogAnalysis(jsonData, file.name);
-          onFileUpload(formattedContent, file.name);
-        } catch (jsonError) {
-          // If JSON parsing fails, treat it as regular text
-          console.warn('JSON parsing failed, treating as text:', jsonError);
-          onFileUpload(content, file.name);
-        }
+      const upload = await readUpload(file);
+      if (typeof upload === 'string') {
+        setError(upload);
+      } else if (typeof upload.source !== 'string' && needsYearPrompt(await readLogSample(upload.source))) {
+        // Timestamps without a year: ask before parsing
+        setYearInput('');
+        setPendingYearUpload({ source: upload.source, filename: upload.fileName, options: upload.options });
       } else {
-        // Regular text/log file processing
-        onFileUpload(content, file.name);
+        onFileUpload(upload.source, upload.fileName, upload.options);
       }
     } catch (err) {
       setError('Failed to read file');
     } finally {
       setUploading(false);
     }
-  }, [onFileUpload]);
+  }, [onFileUpload, readUpload]);
 
-  // ============================================================================
-  // JSON FORMATTING UTILITIES
-  // ============================================================================
-  
   /**
-   * Format JSON data for log analysis
-   * 
-   * Converts various JSON structures into a standardized log format that
-   * the log parser can understand. Handles arrays of log entries, nested
-   * objects, and different JSON log formats.
-   * 
-   * @param jsonData - Parsed JSON data
-   * @param filename - Original filename for reference
-   * @returns Formatted string suitable for log parsing
+   * Open an uploaded archive
+   *
+   * A .gz holding one readable file loads it straight away; otherwise the
+   * members are listed for the user to choose from.
+   *
+   * @param file - Uploaded .zip or .gz file
    */
-  const formatJsonForLogAnalysis = (jsonData: any, filename: string): string => {
-    const lines: string[] = [];
-    
-    // Handle different JSON structures
-    if (Array.isArray(jsonData)) {
-      // Array of log entries - most common format
-      jsonData.forEach((entry, index) => {
-        const logLine = formatJsonEntry(entry, index);
-        if (logLine) lines.push(logLine);
-      });
-    } else if (typeof jsonData === 'object' && jsonData !== null) {
-      // Single object or object with nested structure
-      if (jsonData.logs && Array.isArray(jsonData.logs)) {
-        // Object with logs array property
-        jsonData.logs.forEach((entry: any, index: number) => {
-          const logLine = formatJsonEntry(entry, index);
-          if (logLine) lines.push(logLine);
-        });
-      } else if (jsonData.entries && Array.isArray(jsonData.entries)) {
-        // Object with entries array property
-        jsonData.entries.forEach((entry: any, index: number) => {
-          const logLine = formatJsonEntry(entry, index);
-          if (logLine) lines.push(logLine);
-        });
+  const handleArchive = useCallback(async (file: File) => {
+    setUploading(true);
+    setError(null);
+    setOpenArchive(null);
+
+    try {
+      const members = await readArchiveMembers(file);
+      const [only] = members;
+      if (members.length === 1 && only.kind !== 'binary' && only.kind !== 'unsupported') {
+        await handleFile(await extractArchiveMember(only));
       } else {
-        // Single log entry object
-        const logLine = formatJsonEntry(jsonData, 0);
-        if (logLine) lines.push(logLine);
+        setOpenArchive({ name: file.name, members });
       }
+    } catch (err) {
+      setError(err instanceof Error ? `Failed to open archive: ${err.message}` : 'Failed to open archive');
+    } finally {
+      setUploading(false);
     }
-    
-    // Fallback: if no structured format found, convert to string representation
-    if (lines.length === 0) {
-      lines.push(`JSON Content from ${filename}: ${JSON.stringify(jsonData, null, 2)}`);
-    }
-    
-    return lines.join('\n');
-  };
+  }, [handleFile]);
 
   /**
-   * Format individual JSON entries into log format
-   * 
-   * Extracts common log fields (timestamp, level, message, source) from
-   * JSON objects and formats them into a standardized log line format.
-   * 
-   * @param entry - Individual JSON log entry
-   * @param index - Entry index for fallback identification
-   * @returns Formatted log line string or null if invalid
+   * Handle several separate files uploaded together
+   * Each is loaded as its own file. They are not held for the year prompt;
+   * yearless timestamps take each file's modified date.
+   *
+   * @param files - Uploaded files, in the order they are added
    */
-  const formatJsonEntry = (entry: any, index: number): string | null => {
-    if (typeof entry !== 'object' || entry === null) {
-      return `Entry ${index + 1}: ${String(entry)}`;
+  const handleFiles = useCallback(async (files: File[]) => {
+    setUploading(true);
+    setError(null);
+
+    try {
+      const uploads: LogUpload[] = [];
+      for (const file of files) {
+        const upload = await readUpload(file);
+        if (typeof upload === 'string') {
+          setError(`${file.name}: ${upload}`);
+          return;
+        }
+        uploads.push(upload);
+      }
+      onFilesUpload(uploads);
+    } catch {
+      setError('Failed to read file');
+    } finally {
+      setUploading(false);
     }
+  }, [onFilesUpload, readUpload]);
 
-    // Extract common log fields with various naming conventions
-    const timestamp = entry.timestamp || entry.time || entry.date || entry['@timestamp'] || '';
-    const level = entry.level || entry.severity || entry.priority || 'INFO';
-    const message = entry.message || entry.msg || entry.text || entry.description || '';
-    const source = entry.source || entry.component || entry.service || entry.logger || '';
-    
-    // Build log line in a standard format that the parser can understand
-    const parts: string[] = [];
-    
-    if (timestamp) {
-      parts.push(timestamp);
+  /**
+   * Handle the files of one rotated log uploaded together
+   *
+   * @param files - Uploaded files
+   */
+  const handleRotatedLog = useCallback((files: File[]) => {
+    const series = findRotatedSeries(files.map(file => ({ file, name: file.name })));
+    if (!series) {
+      setError('Select one file, or the rotated files of one log together (e.g. server.log, server.log.1, server.log.2)');
+      return;
     }
-    
-    if (level) {
-      parts.push(`[${level.toString().toUpperCase()}]`);
+
+    const structured = [...JSON_EXTENSIONS, ...EVENT_LOG_EXTENSIONS, '.evtx'];
+    if (series.some(({ name }) => isArchiveFile(name) || structured.some(extension => name.toLowerCase().endsWith(extension)))) {
+      setError('Only plain log files can be stitched as a rotated log');
+      return;
     }
-    
-    if (source) {
-      parts.push(`[${source}]`);
+
+    setError(null);
+    onRotatedLogUpload(series.map(({ file }) => file), series[0].baseName, {
+      sourceTimezone,
+      timestampWindow: {
+        minYear: minYear ? parseInt(minYear, 10) : undefined,
+        maxYear: maxYear ? parseInt(maxYear, 10) : undefined,
+      },
+    });
+  }, [onRotatedLogUpload, sourceTimezone, minYear, maxYear]);
+
+  /**
+   * Load the members chosen in the archive picker
+   * The files of a rotated log are stitched; other members are each loaded
+   * as their own file, in archive order
+   *
+   * @param members - Chosen members
+   */
+  const handleArchiveLoad = async (members: ArchiveMember[]) => {
+    if (!openArchive) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const files: File[] = [];
+      for (const member of members) files.push(await extractArchiveMember(member));
+      setOpenArchive(null);
+
+      if (findRotatedSeries(files.map(file => ({ file, name: file.name })))) {
+        handleRotatedLog(files);
+      } else if (files.length === 1) {
+        await handleFile(files[0]);
+      } else {
+        await handleFiles(files);
+      }
+    } catch {
+      setError('Failed to decompress the archive');
+    } finally {
+      setUploading(false);
     }
-    
-    if (message) {
-      parts.push(message.toString());
+  };
+
+  /**
+   * Route an upload to rotated log stitching, the archive picker or
+   * straight to parsing; several files that are not one rotated log are
+   * each loaded as their own file
+   */
+  const handleUpload = useCallback((files: File[]) => {
+    if (files.length > 1) {
+      if (findRotatedSeries(files.map(file => ({ file, name: file.name })))) {
+        handleRotatedLog(files);
+      } else {
+        handleFiles(files);
+      }
+    } else if (isArchiveFile(files[0].name)) {
+      handleArchive(files[0]);
     } else {
-      // If no message field, stringify the entire object
-      parts.push(JSON.stringify(entry));
+      handleFile(files[0]);
     }
-    
-    return parts.join(' ');
+  }, [handleRotatedLog, handleFiles, handleArchive, handleFile]);
+
+  /**
+   * Finish a held-back upload once the user has answered the year prompt
+   *
+   * @param useEnteredYear - Apply the typed year instead of the file's modified date
+   */
+  const handleYearConfirm = (useEnteredYear: boolean) => {
+    if (!pendingYearUpload) return;
+
+    const referenceYear = parseInt(yearInput, 10);
+    if (useEnteredYear && (isNaN(referenceYear) || yearInput.length !== 4)) {
+      setError('Please enter a four-digit year');
+      return;
+    }
+
+    const { source, filename, options } = pendingYearUpload;
+    setPendingYearUpload(null);
+    setError(null);
+    onFileUpload(source, filename, useEnteredYear ? { ...options, referenceYear } : options);
   };
 
   // ============================================================================
@@ -242,9 +494,9 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
     setDragActive(false);
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+      handleUpload(Array.from(e.dataTransfer.files));
     }
-  }, [handleFile]);
+  }, [handleUpload]);
 
   /**
    * Handle file input change events
@@ -253,9 +505,9 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
    */
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+      handleUpload(Array.from(e.target.files));
     }
-  }, [handleFile]);
+  }, [handleUpload]);
 
   // ============================================================================
   // COMPONENT RENDER
@@ -304,7 +556,7 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
           dragActive
             ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 dark:border-blue-400'
             : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800/50'
-        } ${uploading ? 'pointer-events-none opacity-60' : ''}`}
+        } ${uploading || progress ? 'pointer-events-none opacity-60' : ''}`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
@@ -313,10 +565,11 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
         {/* Hidden file input for click-to-upload functionality */}
         <input
           type="file"
-          accept=".log,.txt,.out,.json"
+          accept=".log,.txt,.out,.json,.jsonl,.ndjson,.xml,.csv,.evtx,.zip,.gz"
+          multiple
           onChange={handleFileInput}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          disabled={uploading}
+          disabled={uploading || !!progress}
         />
         
         {/* Upload interface content */}
@@ -337,12 +590,179 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
               Drag and drop the log file here, or click to browse
             </p>
             <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-              Supports .log, .txt, .out, .json files up to 50MB
+              Select several files to correlate them on one timeline; the files of a rotated log (server.log, server.log.1, ...) are stitched into one log
+            </p>
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              Supports .log, .txt, .out files of any size, and .json, .jsonl, .ndjson files and Windows event log exports (.xml, .csv) up to 50MB, also inside .zip and .gz archives
             </p>
           </div>
         </div>
       </div>
 
+      {/* ========================================================================
+          PARSE PROGRESS
+          ======================================================================== */}
+      {progress && <ParseProgressBar progress={progress} onCancel={onCancel} />}
+
+      {/* ========================================================================
+          SOURCE TIMEZONE
+          ======================================================================== */}
+      <div className="mt-4 flex items-center justify-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
+        <Globe className="h-4 w-4 text-gray-400 dark:text-gray-500" />
+        <label htmlFor="source-timezone">Log timestamps are in</label>
+        <select
+          id="source-timezone"
+          value={sourceTimezone}
+          onChange={(e) => setSourceTimezone(e.target.value)}
+          disabled={uploading}
+          className="border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+        >
+          <option value={LOCAL_TIMEZONE}>My timezone ({getBrowserTimezone()})</option>
+          {COMMON_TIMEZONES.map(zone => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+      </div>
+      <p className="mt-1 text-xs text-center text-gray-400 dark:text-gray-500">
+        Timestamps with an explicit offset (Z, +10:00) always use that offset
+      </p>
+
+      {/* ========================================================================
+          TIMESTAMP YEAR BOUNDS
+          ======================================================================== */}
+      {/*
+        Optional fixed bounds; without them the accepted window is derived
+        from the file's own timestamps and far-off outliers are set aside
+      */}
+      <div className="mt-3 flex items-center justify-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
+        <Calendar className="h-4 w-4 text-gray-400 dark:text-gray-500" />
+        <span>Only accept timestamps from</span>
+        <input
+          type="number"
+          value={minYear}
+          onChange={(e) => setMinYear(e.target.value)}
+          placeholder="any"
+          disabled={uploading}
+          aria-label="Earliest year"
+          className="w-20 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+        />
+        <span>to</span>
+        <input
+          type="number"
+          value={maxYear}
+          onChange={(e) => setMaxYear(e.target.value)}
+          placeholder="any"
+          disabled={uploading}
+          aria-label="Latest year"
+          className="w-20 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+        />
+      </div>
+
+      {/* ========================================================================
+          JSON FIELD PATHS
+          ======================================================================== */}
+      {/*
+        Where JSON records keep each field; paths are tried in order and every
+        other property is kept as a field of the entry
+      */}
+      <div className="mt-3 text-sm text-gray-600 dark:text-gray-300">
+        <button
+          onClick={() => setShowJsonFields(!showJsonFields)}
+          className="mx-auto flex items-center space-x-2 hover:text-gray-900 dark:hover:text-white transition-colors duration-200"
+          aria-expanded={showJsonFields}
+        >
+          <Braces className="h-4 w-4 text-gray-400 dark:text-gray-500" />
+          <span>JSON field paths</span>
+          {showJsonFields ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        {showJsonFields && (
+          <div className="mt-2 space-y-2 p-3 bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg transition-colors duration-200">
+            {JSON_FIELD_LABELS.map(({ field, label }) => (
+              <div key={field} className="flex items-center space-x-2">
+                <label htmlFor={`json-field-${field}`} className="w-20 text-xs font-medium">{label}</label>
+                <input
+                  id={`json-field-${field}`}
+                  type="text"
+                  value={jsonFieldInputs[field]}
+                  onChange={(e) => setJsonFieldInputs(prev => ({ ...prev, [field]: e.target.value }))}
+                  placeholder={DEFAULT_JSON_FIELD_PATHS[field].join(', ')}
+                  disabled={uploading}
+                  className="flex-1 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+                />
+              </div>
+            ))}
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              Comma-separated paths tried in order, e.g. @timestamp or log.level. Other properties become columns in the log table.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* ========================================================================
+          ARCHIVE MEMBERS
+          ======================================================================== */}
+      {openArchive && (
+        <ArchiveMemberPicker
+          archiveName={openArchive.name}
+          members={openArchive.members}
+          loading={uploading}
+          onLoad={handleArchiveLoad}
+          onCancel={() => setOpenArchive(null)}
+        />
+      )}
+
+      {/* ========================================================================
+          YEAR PROMPT
+          ======================================================================== */}
+      {/*
+        Shown when timestamps omit the year (01-15 10:30:00, Jan 15 10:30:00)
+        and no fully dated line in the file can anchor them
+      */}
+      {pendingYearUpload && (
+        <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg transition-colors duration-200">
+          <div className="flex items-start space-x-3">
+            <Calendar className="h-5 w-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-yellow-900 dark:text-yellow-300">
+                Timestamps in {pendingYearUpload.filename} have no year
+              </p>
+              <p className="text-sm text-yellow-800 dark:text-yellow-400 mt-1">
+                Enter the year of the first entry, or infer it from the file's modified date
+                ({new Date(pendingYearUpload.options.fileLastModified!).toLocaleDateString()}).
+                Rollovers from December to January are detected either way.
+              </p>
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <input
+                  type="number"
+                  value={yearInput}
+                  onChange={(e) => setYearInput(e.target.value)}
+                  placeholder="e.g. 2024"
+                  className="w-28 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+                />
+                <button
+                  onClick={() => handleYearConfirm(true)}
+                  className="px-3 py-1 bg-blue-600 dark:bg-blue-500 text-white rounded text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors duration-200"
+                >
+                  Use this year
+                </button>
+                <button
+                  onClick={() => handleYearConfirm(false)}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
+                >
+                  Use file date
+                </button>
+                <button
+                  onClick={() => setPendingYearUpload(null)}
+                  className="ml-auto text-yellow-700 dark:text-yellow-400 hover:text-yellow-900 dark:hover:text-yellow-200"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* ========================================================================
           ERROR DISPLAY
           ======================================================================== */}
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MessageCircle, Send, X, Minimize2, Bot, User, FileText, Plus, Check, Trash2 } from 'lucide-react';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLM_PROVIDER_LABELS, createLlmClient, getLlmConfig, isLlmConfigured } from '../utils/llmClient';
 
 interface Message {
   id: string;
@@ -65,7 +65,9 @@ export function GeminiChatbot({ logs = [], summary, onAddToReport }: GeminiChatb
       }
 
       // Provide time range information only
-      context += `Analysis time range: ${summary.timeRange.start.toISOString()} to ${summary.timeRange.end.toISOString()}. `;
+      context += summary.timeRange
+        ? `Analysis time range: ${summary.timeRange.start.toISOString()} to ${summary.timeRange.end.toISOString()}. `
+        : `The log contains no usable timestamps. `;
     } else {
       context += `No log file has been uploaded yet. You can help explain log analysis concepts, common error patterns, and how to use this tool. `;
     }
@@ -86,11 +88,11 @@ export function GeminiChatbot({ logs = [], summary, onAddToReport }: GeminiChatb
   const sendMessage = async () => {
     if (!inputValue.trim() || isLoading) return;
 
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (!apiKey || apiKey === 'your_api_key_here') {
+    const llmConfig = getLlmConfig('gemini');
+    if (!isLlmConfigured(llmConfig)) {
       const errorMessage: Message = {
         id: Date.now().toString(),
-        content: "Please configure the Google Gemini API key in the .env file to use the assistant.",
+        content: "Please configure a language model (for example the Google Gemini API key) in the .env file to use the assistant.",
         isUser: false,
         timestamp: new Date(),
       };
@@ -110,13 +112,10 @@ export function GeminiChatbot({ logs = [], summary, onAddToReport }: GeminiChatb
     setIsLoading(true);
 
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+      const client = createLlmClient(llmConfig);
 
       const prompt = generateContextualPrompt(inputValue);
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+      const text = await client.complete({ prompt });
 
       // Check if this looks like report content
       const reportKeywords = ['report', 'pdf', 'additional', 'section', 'chart', 'graph', 'analysis', 'add to report', 'include in report', 'generate', 'create'];
@@ -134,7 +133,7 @@ export function GeminiChatbot({ logs = [], summary, onAddToReport }: GeminiChatb
 
       setMessages(prev => [...prev, aiMessage]);
     } catch (error) {
-      console.error('Error calling Gemini API:', error);
+      console.error('Error calling the language model:', error);
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         content: "Sorry, an error was encountered while processing the request. Please check the API key and try again.",
@@ -204,7 +203,7 @@ export function GeminiChatbot({ logs = [], summary, onAddToReport }: GeminiChatb
           </div>
           <div>
             <h3 className="font-semibold text-gray-900 dark:text-white text-sm">Assistant</h3>
-            <p className="text-xs text-gray-500 dark:text-gray-400">Powered by Google Gemini</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Powered by {LLM_PROVIDER_LABELS[getLlmConfig('gemini').provider]}</p>
           </div>
         </div>
         <div className="flex items-center space-x-1">
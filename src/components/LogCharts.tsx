@@ -15,7 +15,11 @@ import {
 import { Line, Bar, Doughnut } from 'react-chartjs-2';
 import 'chartjs-adapter-date-fns';
 import { LogEntry } from '../types/log';
-import { format, startOfMinute, endOfMinute, eachMinuteOfInterval, differenceInMinutes, startOfHour, endOfHour, eachHourOfInterval, addMinutes } from 'date-fns';
+import { useTimezone } from '../contexts/useTimezone';
+import { formatTimestampInZone, getDisplayTimezoneLabel } from '../utils/timestampUtils';
+import { buildTimelineBuckets, TimelineBuckets } from '../utils/timelineBuckets';
+import { LogAnomaly } from '../utils/anomalyDetection';
+import { LogTimelineChart, TimelineMarker } from './LogTimelineChart';
 import { Loader2, AlertCircle, Clock, BarChart3, TrendingUp, PieChart } from 'lucide-react';
 
 ChartJS.register(
@@ -33,8 +37,25 @@ ChartJS.register(
 
 interface LogChartsProps {
   logs: LogEntry[];
+  /** Detected spikes and silences, marked on the timeline */
+  anomalies?: LogAnomaly[];
 }
 
+/**
+ * Timeline marker of an anomaly, shading its period
+ */
+const getAnomalyMarker = (anomaly: LogAnomaly): TimelineMarker => {
+  if (anomaly.kind === 'silence') {
+    return { time: anomaly.start, end: anomaly.end, label: 'Silence', color: '#6b7280' };
+  }
+  return {
+    time: anomaly.start,
+    end: anomaly.end,
+    label: anomaly.template ? 'Error pattern spike' : `${anomaly.level} spike`,
+    color: anomaly.template || anomaly.level === 'ERROR' ? '#ef4444' : '#f97316',
+  };
+};
+
 /**
  * LogCharts Component with NO CACHING - Fresh Data Processing Only
  * 
@@ -57,7 +78,9 @@ interface LogChartsProps {
  * The component processes log data fresh every time it renders to prevent
  * any possibility of sensitive log data being cached or persisted.
  */
-export function LogCharts({ logs }: LogChartsProps) {
+export function LogCharts({ logs, anomalies = [] }: LogChartsProps) {
+  const { displayTimezone } = useTimezone();
+
   // ============================================================================
   // STATE MANAGEMENT FOR FRESH PROCESSING ONLY
   // ============================================================================
@@ -85,6 +108,8 @@ export function LogCharts({ logs }: LogChartsProps) {
     timeRange: { start: Date; end: Date };
     levelData: any;
     doughnutOptions: any;
+    timeline: TimelineBuckets | null;
+    timelineMarkers: TimelineMarker[];
   } | null>(null);
 
   // ============================================================================
@@ -176,12 +201,11 @@ export function LogCharts({ logs }: LogChartsProps) {
     // STEP 1: FILTER VALID LOGS WITH PERFORMANCE OPTIMIZATION
     // ========================================================================
     
+    // Outliers were flagged against the file's own timestamp distribution
     let validLogs = logs.filter(log => 
       log.timestamp &&
       !isNaN(log.timestamp.getTime()) && 
-      log.timestamp.getFullYear() > 2020 && 
-      log.timestamp.getFullYear() < 2030 &&
-      log.timestamp.getTime() > new Date('2020-01-01').getTime()
+      !log.timestampOutlier
     );
 
     console.log(`📊 Filtered to ${validLogs.length} valid logs from ${logs.length} total`);
@@ -232,8 +256,8 @@ export function LogCharts({ logs }: LogChartsProps) {
     }
 
     const timeRange = {
-      start: new Date(Math.min(...validLogs.map(log => log.timestamp!.getTime()))),
-      end: new Date(Math.max(...validLogs.map(log => log.timestamp!.getTime()))),
+      start: new Date(validLogs.reduce((min, log) => Math.min(min, log.timestamp!.getTime()), Infinity)),
+      end: new Date(validLogs.reduce((max, log) => Math.max(max, log.timestamp!.getTime()), -Infinity)),
     };
 
     console.log('📊 Calculated fresh time range:', timeRange);
@@ -304,6 +328,17 @@ export function LogCharts({ logs }: LogChartsProps) {
       },
     };
 
+    // ========================================================================
+    // STEP 6: TIMELINE WITH ROTATION BOUNDARIES (FRESH)
+    // ========================================================================
+
+    // Counted from every entry, since bucketing is cheap and sampling would
+    // understate the counts
+    const timeline = buildTimelineBuckets(logs);
+    const timelineMarkers: TimelineMarker[] = logs
+      .filter(log => log.rotationBoundary && log.timestamp)
+      .map(log => ({ time: log.timestamp!, label: log.rotationBoundary!.file, color: '#6366f1' }));
+
     console.log('✅ Generated fresh chart data objects');
 
     return {
@@ -311,7 +346,9 @@ export function LogCharts({ logs }: LogChartsProps) {
       levelCounts,
       timeRange,
       levelData,
-      doughnutOptions
+      doughnutOptions,
+      timeline,
+      timelineMarkers
     };
   };
 
@@ -393,7 +430,8 @@ export function LogCharts({ logs }: LogChartsProps) {
   // MAIN CHARTS RENDER
   // ============================================================================
   
-  const { validLogs, levelCounts, timeRange, levelData, doughnutOptions } = chartData;
+  const { validLogs, levelCounts, timeRange, levelData, doughnutOptions, timeline, timelineMarkers } = chartData;
+  const anomalyMarkers = anomalies.map(getAnomalyMarker);
 
   // ============================================================================
   // CALCULATE ACCURATE ERROR RATES (FRESH)
@@ -463,7 +501,7 @@ export function LogCharts({ logs }: LogChartsProps) {
           </div>
         </div>
         <div className="mt-4 text-center text-sm text-gray-600 dark:text-gray-300">
-          Time Range: {format(timeRange.start, 'yyyy-MM-dd HH:mm')} to {format(timeRange.end, 'yyyy-MM-dd HH:mm')}
+          Time Range: {formatTimestampInZone(timeRange.start, 'yyyy-MM-dd HH:mm', displayTimezone, validLogs[0]?.utcOffset)} to {formatTimestampInZone(timeRange.end, 'yyyy-MM-dd HH:mm', displayTimezone, validLogs[0]?.utcOffset)} ({getDisplayTimezoneLabel(displayTimezone)})
           {validLogs.length !== logs.length && (
             <div className="mt-1 text-xs text-amber-600 dark:text-amber-400">
               Note: {logs.length - validLogs.length} entries with invalid timestamps excluded from timeline charts
@@ -477,6 +515,39 @@ export function LogCharts({ logs }: LogChartsProps) {
         </div>
       </div>
 
+      {/* ======================================================================
+          ENTRIES OVER TIME WITH ROTATION BOUNDARIES AND ANOMALIES
+          ====================================================================== */}
+      {timeline && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center space-x-2">
+              <Clock className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+              <span>Entries Over Time</span>
+            </h3>
+            <div className="flex flex-col items-end text-xs">
+              {timelineMarkers.length > 0 && (
+                <span className="text-indigo-600 dark:text-indigo-400">
+                  Dashed lines mark where each rotated file starts
+                </span>
+              )}
+              {anomalyMarkers.length > 0 && (
+                <span className="text-red-600 dark:text-red-400">
+                  Shaded periods mark detected spikes and silences
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="h-64">
+            <LogTimelineChart
+              buckets={timeline}
+              markers={[...timelineMarkers, ...anomalyMarkers]}
+              utcOffset={validLogs[0]?.utcOffset}
+            />
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* ====================================================================
             LOG LEVELS DISTRIBUTION (INCLUDING TRACE)
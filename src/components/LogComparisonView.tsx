@@ -0,0 +1,253 @@
+import { useMemo, useState } from 'react';
+import { ArrowRight, CheckCircle, FileDown, GitCompare, Trash2 } from 'lucide-react';
+import { LogEntry } from '../types/log';
+import { ErrorPatternChangeKind, LogComparison, compareLogs, getComparedLog } from '../utils/logComparison';
+import { getSessionFileColor } from '../utils/logSession';
+import { LogTemplate } from '../utils/templateMiner';
+
+/**
+ * Props interface for the LogComparisonView component
+ */
+interface LogComparisonViewProps {
+  /** Entries of the whole session */
+  logs: LogEntry[];
+
+  /** Session file names in load order */
+  files: string[];
+
+  /** Templates of the session, which errors are counted by */
+  templates: LogTemplate[];
+
+  /** Comparison currently included in the PDF report, if any */
+  reportComparison: LogComparison | null;
+
+  /** Includes a comparison in the PDF report, replacing any earlier one */
+  onAddToReport: (comparison: LogComparison) => void;
+
+  /** Takes the comparison out of the PDF report */
+  onRemoveFromReport: () => void;
+}
+
+/**
+ * Badge text and classes of each kind of pattern change
+ */
+const CHANGE_BADGES: Record<ErrorPatternChangeKind, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' },
+  resolved: { label: 'Resolved', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  increased: { label: 'More frequent', className: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300' },
+  decreased: { label: 'Less frequent', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300' },
+};
+
+/**
+ * Format a count change with its percentage, e.g. "-12 (-40%)"
+ */
+const formatDelta = (before: number, after: number) => {
+  const delta = after - before;
+  const sign = delta > 0 ? '+' : '';
+  const percent = before > 0 ? ` (${sign}${Math.round((delta / before) * 100)}%)` : '';
+  return `${sign}${delta.toLocaleString()}${percent}`;
+};
+
+/**
+ * Format an error rate, or a dash when the log has no usable time range
+ */
+const formatRate = (rate: number | null) => rate === null ? '—' : rate.toFixed(rate < 10 ? 2 : 1);
+
+/**
+ * LogComparisonView Component
+ *
+ * Compares two files of the session side by side, typically a log captured
+ * before a fix and one captured after it: entry counts per level, top error
+ * patterns that appeared, were resolved or changed frequency, errors per
+ * hour, and threads and sources only the later log has. The comparison can
+ * be added to the PDF report as its own section.
+ */
+export function LogComparisonView({ logs, files, templates, reportComparison, onAddToReport, onRemoveFromReport }: LogComparisonViewProps) {
+  const [baselineName, setBaselineName] = useState(files[0]);
+  const [comparedName, setComparedName] = useState(files[files.length - 1]);
+
+  const comparison = useMemo(
+    () => compareLogs(getComparedLog(logs, baselineName), getComparedLog(logs, comparedName), templates),
+    [logs, templates, baselineName, comparedName]
+  );
+
+  const inReport = reportComparison?.baselineName === baselineName && reportComparison?.comparedName === comparedName;
+
+  /**
+   * Render a file picker with the file's session colour
+   */
+  const renderFilePicker = (label: string, value: string, onChange: (value: string) => void) => (
+    <label className="flex-1 min-w-0">
+      <span className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{label}</span>
+      <span className="flex items-center space-x-2">
+        <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${getSessionFileColor(files.indexOf(value)).dot}`} />
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm transition-colors duration-200"
+        >
+          {files.map(file => (
+            <option key={file} value={file}>{file}</option>
+          ))}
+        </select>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* File selection and report toggle */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+        <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          <GitCompare className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          <span>Compare Logs</span>
+        </h3>
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          {renderFilePicker('Before (baseline)', baselineName, setBaselineName)}
+          <ArrowRight className="hidden md:block h-5 w-5 mb-2.5 text-gray-400 dark:text-gray-500 flex-shrink-0" />
+          {renderFilePicker('After', comparedName, setComparedName)}
+          {inReport ? (
+            <button
+              onClick={onRemoveFromReport}
+              className="flex items-center justify-center space-x-2 px-4 py-2 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded-lg text-sm font-medium hover:bg-green-200 dark:hover:bg-green-900/50 transition-colors duration-200"
+              title="Remove from report"
+            >
+              <CheckCircle className="h-4 w-4" />
+              <span>In Report</span>
+              <Trash2 className="h-4 w-4" />
+            </button>
+          ) : (
+            <button
+              onClick={() => onAddToReport(comparison)}
+              disabled={baselineName === comparedName}
+              className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-lg text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <FileDown className="h-4 w-4" />
+              <span>Add to Report</span>
+            </button>
+          )}
+        </div>
+        {baselineName === comparedName && (
+          <p className="mt-3 text-sm text-amber-600 dark:text-amber-400">Choose two different files to compare.</p>
+        )}
+      </div>
+
+      {baselineName !== comparedName && (
+        <>
+          {/* Level counts and error rate */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Entries by Level</h4>
+              <table className="min-w-full text-sm">
+                <thead className="text-xs text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-1.5 text-left font-medium">Level</th>
+                    <th className="py-1.5 text-right font-medium">Before</th>
+                    <th className="py-1.5 text-right font-medium">After</th>
+                    <th className="py-1.5 text-right font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {comparison.levels.map(level => {
+                    // Fewer errors and warnings is the improvement being looked for
+                    const severity = level.label === 'ERROR' || level.label === 'WARN';
+                    const color = !severity || level.after === level.before
+                      ? 'text-gray-600 dark:text-gray-300'
+                      : level.after < level.before
+                        ? 'text-green-600 dark:text-green-400'
+                        : 'text-red-600 dark:text-red-400';
+                    return (
+                      <tr key={level.label}>
+                        <td className="py-1.5 font-medium text-gray-900 dark:text-white">{level.label}</td>
+                        <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{level.before.toLocaleString()}</td>
+                        <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{level.after.toLocaleString()}</td>
+                        <td className={`py-1.5 text-right font-medium ${color}`}>{formatDelta(level.before, level.after)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Errors per Hour</h4>
+              <div className="flex items-center justify-around text-center">
+                <div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatRate(comparison.errorRatePerHour.before)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Before</div>
+                </div>
+                <ArrowRight className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+                <div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatRate(comparison.errorRatePerHour.after)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">After</div>
+                </div>
+              </div>
+              <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                Errors divided by the hours each log covers, so captures of different lengths can be compared.
+              </p>
+            </div>
+          </div>
+
+          {/* Error pattern changes */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Error Patterns</h4>
+            {comparison.errorPatterns.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Neither log has errors.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className="text-xs text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-1.5 text-left font-medium">Pattern</th>
+                    <th className="py-1.5 px-2 text-right font-medium">Before</th>
+                    <th className="py-1.5 px-2 text-right font-medium">After</th>
+                    <th className="py-1.5 text-left font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {comparison.errorPatterns.map(pattern => (
+                    <tr key={pattern.message}>
+                      <td className="py-1.5 font-mono text-xs text-gray-900 dark:text-gray-100 break-all">{pattern.message}</td>
+                      <td className="py-1.5 px-2 text-right text-gray-600 dark:text-gray-300">{pattern.before.toLocaleString()}</td>
+                      <td className="py-1.5 px-2 text-right text-gray-600 dark:text-gray-300">{pattern.after.toLocaleString()}</td>
+                      <td className="py-1.5">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${CHANGE_BADGES[pattern.change].className}`}>
+                          {CHANGE_BADGES[pattern.change].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Threads and sources only the later log has */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {[
+              { title: 'New Threads', values: comparison.newThreads },
+              { title: 'New Sources', values: comparison.newSources },
+            ].map(({ title, values }) => (
+              <div key={title} className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                  {title} <span className="font-normal text-gray-500 dark:text-gray-400">({values.length})</span>
+                </h4>
+                {values.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">None that the baseline does not have.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+                    {values.map(value => (
+                      <span key={value} className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-xs font-mono text-gray-700 dark:text-gray-300">
+                        {value}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
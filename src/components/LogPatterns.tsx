@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Filter, Search, Shapes, Table } from 'lucide-react';
+import { LogEntry } from '../types/log';
+import { useTimezone } from '../contexts/useTimezone';
+import { formatTimestampInZone, getDisplayTimezoneLabel } from '../utils/timestampUtils';
+import { LogTemplate } from '../utils/templateMiner';
+
+/**
+ * Props interface for the LogPatterns component
+ */
+interface LogPatternsProps {
+  /** Templates of the session, most frequent first */
+  templates: LogTemplate[];
+
+  /** Opens the log table filtered to a template */
+  onShowEntries: (templateId: string) => void;
+}
+
+/**
+ * Templates shown before "Show more"
+ */
+const PAGE_SIZE = 50;
+
+/**
+ * Badge classes of each level
+ */
+const LEVEL_BADGES: Record<LogEntry['level'], string> = {
+  ERROR: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  WARN: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  INFO: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+  DEBUG: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  TRACE: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+};
+
+/**
+ * Render a template with its wildcards highlighted
+ */
+const renderTemplate = (template: string) =>
+  template.split('<*>').map((part, index) => (
+    <span key={index}>
+      {index > 0 && <span className="px-0.5 rounded bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300">&lt;*&gt;</span>}
+      {part}
+    </span>
+  ));
+
+/**
+ * LogPatterns Component
+ *
+ * Lists the message templates mined from the session, e.g.
+ * `Failed to open document <*> in folder <*>`, with how often each occurs
+ * at each level, when it was first and last seen, and example lines. A
+ * template can be opened in the log table to see every matching entry.
+ */
+export function LogPatterns({ templates, onShowEntries }: LogPatternsProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedLevel, setSelectedLevel] = useState<string>('ALL');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const { displayTimezone } = useTimezone();
+
+  const filteredTemplates = useMemo(() => templates.filter(template =>
+    (searchTerm === '' || template.template.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    (selectedLevel === 'ALL' || (template.levelCounts[selectedLevel as LogEntry['level']] ?? 0) > 0)
+  ), [templates, searchTerm, selectedLevel]);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const formatTimestamp = (timestamp: Date | null, utcOffset?: number) =>
+    timestamp ? formatTimestampInZone(timestamp, 'yyyy-MM-dd HH:mm:ss', displayTimezone, utcOffset) : '-';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 transition-colors duration-200">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white">
+              <Shapes className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+              <span>Message Patterns</span>
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {templates.length.toLocaleString()} templates; variable parts such as IDs, paths and numbers are shown as &lt;*&gt;
+            </p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 dark:text-gray-500" />
+              <input
+                type="text"
+                placeholder="Search patterns..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setVisibleCount(PAGE_SIZE);
+                }}
+                className="pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 transition-colors duration-200"
+              />
+            </div>
+            <div className="relative">
+              <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 dark:text-gray-500" />
+              <select
+                value={selectedLevel}
+                onChange={(e) => {
+                  setSelectedLevel(e.target.value);
+                  setVisibleCount(PAGE_SIZE);
+                }}
+                className="pl-10 pr-8 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+              >
+                {['ALL', 'ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE'].map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-gray-700 transition-colors duration-200">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Pattern</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Count</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Levels</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                First / Last Seen <span className="normal-case font-normal">({getDisplayTimezoneLabel(displayTimezone)})</span>
+              </th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700 transition-colors duration-200">
+            {filteredTemplates.slice(0, visibleCount).map(template => {
+              const utcOffset = template.examples[0]?.utcOffset;
+              return (
+                <tr key={template.id} className="hover:bg-gray-50 dark:hover:bg-gray-700 align-top transition-colors duration-200">
+                  <td className="px-6 py-4 text-sm text-gray-900 dark:text-gray-100">
+                    <div className="font-mono text-xs leading-relaxed break-all">{renderTemplate(template.template)}</div>
+                    <button
+                      onClick={() => toggleExpanded(template.id)}
+                      className="mt-2 flex items-center space-x-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors duration-200"
+                    >
+                      {expandedIds.has(template.id) ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                      <span>{expandedIds.has(template.id) ? 'Hide' : 'Show'} examples</span>
+                    </button>
+                    {expandedIds.has(template.id) && (
+                      <pre className="mt-2 p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded text-xs font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all transition-colors duration-200">
+                        {template.examples.map(example => example.raw.split('\n')[0]).join('\n')}
+                      </pre>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm font-semibold text-gray-900 dark:text-white whitespace-nowrap">
+                    {template.count.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {(Object.keys(LEVEL_BADGES) as LogEntry['level'][])
+                        .filter(level => template.levelCounts[level])
+                        .map(level => (
+                          <span key={level} className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${LEVEL_BADGES[level]}`}>
+                            {level} {template.levelCounts[level]!.toLocaleString()}
+                          </span>
+                        ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-xs font-mono text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                    <div>{formatTimestamp(template.firstSeen, utcOffset)}</div>
+                    <div>{formatTimestamp(template.lastSeen, utcOffset)}</div>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => onShowEntries(template.id)}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md text-xs font-medium whitespace-nowrap transition-colors duration-200"
+                      title="Show matching entries in the log table"
+                    >
+                      <Table className="h-3.5 w-3.5" />
+                      <span>Entries</span>
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+        <span>
+          Showing {Math.min(visibleCount, filteredTemplates.length).toLocaleString()} of {filteredTemplates.length.toLocaleString()} patterns
+        </span>
+        {visibleCount < filteredTemplates.length && (
+          <button
+            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+            className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm hover:bg-gray-50 dark:hover:bg-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white transition-colors duration-200"
+          >
+            Show more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
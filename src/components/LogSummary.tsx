@@ -1,13 +1,42 @@
 import React from 'react';
-import { AlertTriangle, CheckCircle, Info, Bug, AlertCircle, Clock, FileText } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Info, Bug, AlertCircle, Clock, FileText, Files, Activity, PauseCircle, Table } from 'lucide-react';
 import { LogSummary as LogSummaryType } from '../types/log';
-import { format } from 'date-fns';
+import { useTimezone } from '../contexts/useTimezone';
+import { formatTimestampInZone, getDisplayTimezoneLabel } from '../utils/timestampUtils';
+import { getSessionFileColor } from '../utils/logSession';
+import { LogAnomaly } from '../utils/anomalyDetection';
 
 interface LogSummaryProps {
   summary: LogSummaryType;
+  /** Detected spikes and silences, most severe first */
+  anomalies?: LogAnomaly[];
+  /** Opens the log table filtered to an error template (optional) */
+  onShowTemplateEntries?: (templateId: string) => void;
 }
 
-export function LogSummary({ summary }: LogSummaryProps) {
+/**
+ * Format a period length, e.g. "45s", "20 min" or "2.5 h"
+ */
+const formatDuration = (ms: number) => {
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)}s`;
+  if (ms < 60 * 60 * 1000) return `${Math.round(ms / 60000)} min`;
+  return `${(ms / 3600000).toFixed(1)} h`;
+};
+
+/**
+ * One-line description of an anomaly
+ */
+const describeAnomaly = (anomaly: LogAnomaly) => {
+  if (anomaly.kind === 'silence') return 'No entries written';
+  return anomaly.template ? 'Error pattern spike' : `${anomaly.level} spike`;
+};
+
+export function LogSummary({ summary, anomalies = [], onShowTemplateEntries }: LogSummaryProps) {
+  const { displayTimezone } = useTimezone();
+
+  const formatTimestamp = (timestamp: Date, utcOffset = summary.sourceUtcOffset) =>
+    formatTimestampInZone(timestamp, 'yyyy-MM-dd HH:mm:ss', displayTimezone, utcOffset);
+
   const stats = [
     {
       name: 'Total Entries',
@@ -71,27 +100,81 @@ export function LogSummary({ summary }: LogSummaryProps) {
         })}
       </div>
 
+      {/* Per-file breakdown of a multi-file session */}
+      {summary.fileBreakdown && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+          <div className="flex items-center mb-4">
+            <Files className="h-5 w-5 text-gray-500 dark:text-gray-400 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Files</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                  <th className="pb-2 font-medium">File</th>
+                  <th className="pb-2 font-medium text-right">Entries</th>
+                  <th className="pb-2 font-medium text-right">Errors</th>
+                  <th className="pb-2 font-medium text-right">Warnings</th>
+                  <th className="pb-2 font-medium text-right">Info</th>
+                  <th className="pb-2 font-medium text-right">Debug</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {summary.fileBreakdown.map((file, index) => (
+                  <tr key={file.file} className="text-gray-700 dark:text-gray-300">
+                    <td className="py-2 pr-4">
+                      <span className="flex items-center space-x-2">
+                        <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${getSessionFileColor(index).dot}`} />
+                        <span className="font-mono text-xs break-all">{file.file}</span>
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">{file.totalEntries.toLocaleString()}</td>
+                    <td className="py-2 text-right text-red-600 dark:text-red-400">{file.errorCount.toLocaleString()}</td>
+                    <td className="py-2 text-right text-yellow-600 dark:text-yellow-400">{file.warningCount.toLocaleString()}</td>
+                    <td className="py-2 text-right text-blue-600 dark:text-blue-400">{file.infoCount.toLocaleString()}</td>
+                    <td className="py-2 text-right text-green-600 dark:text-green-400">{file.debugCount.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Time Range */}
         <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
           <div className="flex items-center mb-4">
             <Clock className="h-5 w-5 text-gray-500 dark:text-gray-400 mr-2" />
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Time Range</h3>
+            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">({getDisplayTimezoneLabel(displayTimezone)})</span>
           </div>
-          <div className="space-y-2">
-            <div>
-              <span className="text-sm text-gray-500 dark:text-gray-400">Start:</span>
-              <span className="ml-2 font-mono text-sm text-gray-900 dark:text-gray-100">
-                {format(summary.timeRange.start, 'yyyy-MM-dd HH:mm:ss')}
-              </span>
-            </div>
-            <div>
-              <span className="text-sm text-gray-500 dark:text-gray-400">End:</span>
-              <span className="ml-2 font-mono text-sm text-gray-900 dark:text-gray-100">
-                {format(summary.timeRange.end, 'yyyy-MM-dd HH:mm:ss')}
-              </span>
+          {summary.timeRange ? (
+            <div className="space-y-2">
+              <div>
+                <span className="text-sm text-gray-500 dark:text-gray-400">Start:</span>
+                <span className="ml-2 font-mono text-sm text-gray-900 dark:text-gray-100">
+                  {formatTimestamp(summary.timeRange.start)}
+                </span>
+              </div>
+              <div>
+                <span className="text-sm text-gray-500 dark:text-gray-400">End:</span>
+                <span className="ml-2 font-mono text-sm text-gray-900 dark:text-gray-100">
+                  {formatTimestamp(summary.timeRange.end)}
+                </span>
+              </div>
             </div>
-          </div>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              No timestamps found in this log
+            </p>
+          )}
+          {!!summary.outlierTimestampCount && (
+            <p className="mt-3 text-xs text-yellow-700 dark:text-yellow-400">
+              {summary.outlierTimestampCount.toLocaleString()} {summary.outlierTimestampCount === 1 ? 'timestamp lies' : 'timestamps lie'} far
+              outside the rest of the file and {summary.outlierTimestampCount === 1 ? 'was' : 'were'} left out of the range
+            </p>
+          )}
         </div>
 
         {/* Health Status */}
@@ -122,6 +205,49 @@ export function LogSummary({ summary }: LogSummaryProps) {
         </div>
       </div>
 
+      {/* Anomalies, most severe first */}
+      {anomalies.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+          <div className="flex items-center mb-4">
+            <Activity className="h-5 w-5 text-orange-500 dark:text-orange-400 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Anomalies</h3>
+            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">({getDisplayTimezoneLabel(displayTimezone)})</span>
+          </div>
+          <div className="space-y-3">
+            {anomalies.map((anomaly, index) => {
+              const Icon = anomaly.kind === 'silence' ? PauseCircle : Activity;
+              return (
+                <div key={anomaly.id} className="flex items-start p-3 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors duration-200">
+                  <span className="w-6 text-sm font-semibold text-gray-400 dark:text-gray-500">{index + 1}</span>
+                  <Icon className={`h-4 w-4 mt-0.5 mr-3 flex-shrink-0 ${
+                    anomaly.kind === 'silence' ? 'text-gray-500 dark:text-gray-400' : 'text-red-500 dark:text-red-400'
+                  }`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{describeAnomaly(anomaly)}</p>
+                    {anomaly.template && (
+                      <p className="text-xs font-mono text-gray-700 dark:text-gray-300 break-all mt-0.5">{anomaly.template}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      <span className="font-mono">{formatTimestamp(anomaly.start)} – {formatTimestamp(anomaly.end)}</span>
+                      {' • '}
+                      {anomaly.kind === 'silence'
+                        ? formatDuration(anomaly.end.getTime() - anomaly.start.getTime())
+                        : `${anomaly.count!.toLocaleString()} entries, about ${Math.round(anomaly.expected!).toLocaleString()} expected`}
+                    </p>
+                  </div>
+                  <span
+                    className="ml-4 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-600 px-2 py-1 rounded transition-colors duration-200"
+                    title="How far past the detection threshold; 1.0 is the threshold"
+                  >
+                    {anomaly.severity.toFixed(1)}×
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Critical Errors */}
       {summary.criticalErrors.length > 0 && (
         <div className="bg-white dark:bg-gray-800 rounded-lg border border-red-200 dark:border-red-800 p-6 transition-colors duration-200">
@@ -138,8 +264,9 @@ export function LogSummary({ summary }: LogSummaryProps) {
                       {error.message}
                     </p>
                     <p className="text-xs text-red-600 dark:text-red-400 mt-1">
-                      {error.timestamp ? format(error.timestamp, 'yyyy-MM-dd HH:mm:ss') : 'No timestamp'}
+                      {error.timestamp ? formatTimestamp(error.timestamp, error.utcOffset) : 'No timestamp'}
                       {error.source && ` • ${error.source}`}
+                      {summary.fileBreakdown && error.sourceFile && ` • ${error.sourceFile}`}
                     </p>
                   </div>
                 </div>
@@ -157,8 +284,8 @@ export function LogSummary({ summary }: LogSummaryProps) {
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Most Frequent Errors</h3>
           </div>
           <div className="space-y-3">
-            {summary.topErrors.map((error, index) => (
-              <div key={index} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors duration-200">
+            {summary.topErrors.map(error => (
+              <div key={error.templateId} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors duration-200">
                 <div className="flex-1">
                   <p className="text-sm font-mono text-gray-800 dark:text-gray-200 truncate pr-4">
                     {error.message}
@@ -167,6 +294,16 @@ export function LogSummary({ summary }: LogSummaryProps) {
                 <span className="text-sm font-semibold text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-600 px-2 py-1 rounded transition-colors duration-200">
                   {error.count}x
                 </span>
+                {onShowTemplateEntries && (
+                  <button
+                    onClick={() => onShowTemplateEntries(error.templateId)}
+                    className="ml-2 flex items-center space-x-1 px-2 py-1 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md text-xs font-medium whitespace-nowrap transition-colors duration-200"
+                    title="Show matching entries in the log table"
+                  >
+                    <Table className="h-3.5 w-3.5" />
+                    <span>Entries</span>
+                  </button>
+                )}
               </div>
             ))}
           </div>
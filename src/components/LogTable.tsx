@@ -1,27 +1,74 @@
 import React, { useState, useMemo } from 'react';
-import { Search, Filter, Download, AlertCircle, AlertTriangle, Info, Bug, Minus } from 'lucide-react';
+import { Search, Filter, Download, AlertCircle, AlertTriangle, Info, Bug, Minus, ChevronRight, ChevronDown, Columns, Files, RotateCw, Shapes, X } from 'lucide-react';
 import { LogEntry } from '../types/log';
-import { format } from 'date-fns';
+import { useTimezone } from '../contexts/useTimezone';
+import { formatTimestampInZone, getDisplayTimezoneLabel } from '../utils/timestampUtils';
+import { getSessionFileColor } from '../utils/logSession';
+import { LogTemplate } from '../utils/templateMiner';
 
 interface LogTableProps {
   logs: LogEntry[];
+  // Session file names in load order; a file column and filter are shown when there are several
+  files?: string[];
+  // Message templates of the session, for filtering by pattern
+  templates?: LogTemplate[];
+  // Template to filter by when the table opens, e.g. chosen on the Patterns tab
+  initialTemplateId?: string | null;
 }
 
-export function LogTable({ logs }: LogTableProps) {
+/**
+ * Record fields shown as columns until the user picks their own
+ */
+const DEFAULT_FIELD_COLUMNS = 3;
+
+export function LogTable({ logs, files = [], templates = [], initialTemplateId = null }: LogTableProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedLevel, setSelectedLevel] = useState<string>('ALL');
+  const [selectedFile, setSelectedFile] = useState<string>('ALL');
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(initialTemplateId);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(50);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  // null until the user picks columns; the most common fields are shown first
+  const [selectedFields, setSelectedFields] = useState<string[] | null>(null);
+  const { displayTimezone } = useTimezone();
+
+  // Properties of structured (JSON) records, most common first
+  const fieldKeys = useMemo(() => {
+    const counts = new Map<string, number>();
+    logs.forEach(log => {
+      if (!log.fields) return;
+      Object.keys(log.fields).forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+    });
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([key]) => key);
+  }, [logs]);
+
+  const visibleFields = selectedFields ?? fieldKeys.slice(0, DEFAULT_FIELD_COLUMNS);
+  const showFiles = files.length > 1;
+  const columnCount = (showFiles ? 1 : 0) + 4 + visibleFields.length;
+
+  const toggleField = (key: string) => {
+    setSelectedFields(visibleFields.includes(key)
+      ? visibleFields.filter(field => field !== key)
+      : [...visibleFields, key]);
+  };
 
   const filteredLogs = useMemo(() => {
     let filtered = logs.filter(log => {
       const matchesSearch = searchTerm === '' || 
         log.message.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.source?.toLowerCase().includes(searchTerm.toLowerCase());
+        log.source?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (log.fields && Object.values(log.fields).some(value => value.toLowerCase().includes(searchTerm.toLowerCase())));
       
       const matchesLevel = selectedLevel === 'ALL' || log.level === selectedLevel;
+
+      const matchesFile = selectedFile === 'ALL' || log.sourceFile === selectedFile;
+
+      const matchesTemplate = selectedTemplateId === null || log.templateId === selectedTemplateId;
       
-      return matchesSearch && matchesLevel;
+      return matchesSearch && matchesLevel && matchesFile && matchesTemplate;
     });
 
     // Sort by timestamp - newest first (oldest at bottom)
@@ -43,7 +90,14 @@ export function LogTable({ logs }: LogTableProps) {
     });
 
     return filtered;
-  }, [logs, searchTerm, selectedLevel]);
+  }, [logs, searchTerm, selectedLevel, selectedFile, selectedTemplateId]);
+
+  const selectedTemplate = templates.find(template => template.id === selectedTemplateId);
+
+  const selectTemplate = (id: string | null) => {
+    setSelectedTemplateId(id);
+    setCurrentPage(1);
+  };
 
   const paginatedLogs = useMemo(() => {
     const startIndex = (currentPage - 1) * pageSize;
@@ -52,6 +106,18 @@ export function LogTable({ logs }: LogTableProps) {
 
   const totalPages = Math.ceil(filteredLogs.length / pageSize);
 
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
   const getLevelIcon = (level: string) => {
     switch (level) {
       case 'ERROR':
@@ -86,21 +152,23 @@ export function LogTable({ logs }: LogTableProps) {
     }
   };
 
-  const formatTimestamp = (timestamp: Date | null) => {
+  const formatTimestamp = (timestamp: Date | null, utcOffset?: number) => {
     if (!timestamp || isNaN(timestamp.getTime())) {
       return 'N/A';
     }
-    return format(timestamp, 'yyyy-MM-dd HH:mm:ss');
+    return formatTimestampInZone(timestamp, 'yyyy-MM-dd HH:mm:ss', displayTimezone, utcOffset);
   };
 
   const exportToCSV = () => {
-    const headers = ['Timestamp', 'Thread ID', 'Type', 'Message'];
+    const headers = [...(showFiles ? ['File'] : []), 'Timestamp', 'Thread ID', 'Type', ...visibleFields, 'Message'];
     const csvContent = [
       headers.join(','),
       ...filteredLogs.map(log => [
-        formatTimestamp(log.timestamp),
+        ...(showFiles ? [`"${(log.sourceFile ?? '').replace(/"/g, '""')}"`] : []),
+        formatTimestamp(log.timestamp, log.utcOffset),
         log.threadId || '',
         log.level,
+        ...visibleFields.map(key => `"${(log.fields?.[key] ?? '').replace(/"/g, '""')}"`),
         `"${(log.source ? `[${log.source}] ` : '') + log.message.replace(/"/g, '""')}"` // Escape quotes in CSV
       ].join(','))
     ].join('\n');
@@ -153,6 +221,26 @@ export function LogTable({ logs }: LogTableProps) {
               </select>
             </div>
 
+            {/* File filter, for multi-file sessions */}
+            {showFiles && (
+              <div className="relative">
+                <Files className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 dark:text-gray-500" />
+                <select
+                  value={selectedFile}
+                  onChange={(e) => {
+                    setSelectedFile(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="pl-10 pr-8 py-2 max-w-xs border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+                >
+                  <option value="ALL">All files</option>
+                  {files.map(file => (
+                    <option key={file} value={file}>{file}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Export button */}
             <button
               onClick={exportToCSV}
@@ -186,6 +274,53 @@ export function LogTable({ logs }: LogTableProps) {
             </select>
           </div>
         </div>
+
+        {/* Pattern filter, set from a row or the Patterns tab */}
+        {selectedTemplateId !== null && (
+          <div className="mt-4 flex items-center space-x-2 text-sm">
+            <span className="flex items-center space-x-1 text-gray-500 dark:text-gray-400 flex-shrink-0">
+              <Shapes className="h-4 w-4" />
+              <span>Pattern:</span>
+            </span>
+            <span className="flex items-center space-x-1 min-w-0 px-2 py-1 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300 border border-purple-200 dark:border-purple-800">
+              <span className="font-mono text-xs truncate" title={selectedTemplate?.template}>
+                {selectedTemplate?.template ?? selectedTemplateId}
+              </span>
+              <button
+                onClick={() => selectTemplate(null)}
+                className="flex-shrink-0 hover:text-purple-900 dark:hover:text-purple-100"
+                aria-label="Clear pattern filter"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </span>
+          </div>
+        )}
+
+        {/* Field columns for structured records */}
+        {fieldKeys.length > 0 && (
+          <div className="mt-4 flex items-start space-x-2 text-sm">
+            <span className="flex items-center space-x-1 py-1 text-gray-500 dark:text-gray-400 flex-shrink-0">
+              <Columns className="h-4 w-4" />
+              <span>Columns:</span>
+            </span>
+            <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+              {fieldKeys.map(key => (
+                <button
+                  key={key}
+                  onClick={() => toggleField(key)}
+                  className={`px-2 py-1 rounded text-xs font-mono border transition-colors duration-200 ${
+                    visibleFields.includes(key)
+                      ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+                      : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Table */}
@@ -193,8 +328,13 @@ export function LogTable({ logs }: LogTableProps) {
         <table className="w-full">
           <thead className="bg-gray-50 dark:bg-gray-700 transition-colors duration-200">
             <tr>
+              {showFiles && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  File
+                </th>
+              )}
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                Timestamp
+                Timestamp <span className="normal-case font-normal">({getDisplayTimezoneLabel(displayTimezone)})</span>
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                 Thread ID
@@ -202,6 +342,11 @@ export function LogTable({ logs }: LogTableProps) {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                 Type
               </th>
+              {visibleFields.map(key => (
+                <th key={key} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 tracking-wider font-mono">
+                  {key}
+                </th>
+              ))}
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                 Message
               </th>
@@ -209,32 +354,99 @@ export function LogTable({ logs }: LogTableProps) {
           </thead>
           <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700 transition-colors duration-200">
             {paginatedLogs.map((log) => (
-              <tr key={log.id} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200">
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-600 dark:text-gray-300">
-                  {formatTimestamp(log.timestamp)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-600 dark:text-gray-300">
-                  {log.threadId || '-'}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="flex items-center space-x-2">
-                    {getLevelIcon(log.level)}
-                    <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full border transition-colors duration-200 ${getLevelBadgeClass(log.level)}`}>
-                      {log.level}
-                    </span>
-                  </div>
-                </td>
-                <td className="px-6 py-4 text-sm text-gray-900 dark:text-gray-100">
-                  <div className="font-mono text-xs leading-relaxed break-all">
-                    {log.source && (
-                      <span className="bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 px-2 py-1 rounded text-xs font-medium transition-colors duration-200 mr-2">
-                        {log.source}
+              <React.Fragment key={log.id}>
+                <tr className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200">
+                  {showFiles && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-block max-w-[10rem] truncate px-2 py-1 rounded text-xs font-medium ${getSessionFileColor(files.indexOf(log.sourceFile ?? '')).badge}`}
+                        title={log.sourceFile}
+                      >
+                        {log.sourceFile}
+                      </span>
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-600 dark:text-gray-300">
+                    {formatTimestamp(log.timestamp, log.utcOffset)}
+                    {log.timestampOutlier && (
+                      <span title="Far outside the rest of the file; left out of the time range and charts">
+                        <AlertTriangle className="inline h-3 w-3 ml-1 text-yellow-500 dark:text-yellow-400" />
                       </span>
                     )}
-                    {log.message}
-                  </div>
-                </td>
-              </tr>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-600 dark:text-gray-300">
+                    {log.threadId || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center space-x-2">
+                      {getLevelIcon(log.level)}
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full border transition-colors duration-200 ${getLevelBadgeClass(log.level)}`}>
+                        {log.level}
+                      </span>
+                    </div>
+                  </td>
+                  {visibleFields.map(key => (
+                    <td key={key} className="px-6 py-4 text-sm font-mono text-gray-600 dark:text-gray-300 max-w-xs truncate" title={log.fields?.[key]}>
+                      {log.fields?.[key] ?? '-'}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 text-sm text-gray-900 dark:text-gray-100">
+                    <div className="font-mono text-xs leading-relaxed break-all">
+                      {log.source && (
+                        <span className="bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 px-2 py-1 rounded text-xs font-medium transition-colors duration-200 mr-2">
+                          {log.source}
+                        </span>
+                      )}
+                      {log.message}
+                      {log.templateId && log.templateId !== selectedTemplateId && (
+                        <button
+                          onClick={() => selectTemplate(log.templateId!)}
+                          className="ml-2 align-middle text-gray-400 hover:text-purple-600 dark:text-gray-500 dark:hover:text-purple-400 transition-colors duration-200"
+                          title="Show entries with the same pattern"
+                        >
+                          <Shapes className="inline h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
+                    {log.stackTrace && log.stackTrace.length > 0 && (
+                      <div className="mt-2">
+                        <button
+                          onClick={() => toggleExpanded(log.id)}
+                          className="flex items-center space-x-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors duration-200"
+                        >
+                          {expandedIds.has(log.id) ? (
+                            <ChevronDown className="h-3 w-3" />
+                          ) : (
+                            <ChevronRight className="h-3 w-3" />
+                          )}
+                          <span>
+                            {expandedIds.has(log.id) ? 'Hide' : 'Show'} stack trace ({log.stackTrace.length} {log.stackTrace.length === 1 ? 'line' : 'lines'})
+                          </span>
+                        </button>
+                        {expandedIds.has(log.id) && (
+                          <pre className="mt-2 p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded text-xs font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all transition-colors duration-200">
+                            {log.stackTrace.join('\n')}
+                          </pre>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+                {/* Rotated log boundary: newer file above, older file below */}
+                {log.rotationBoundary && (
+                  <tr className="bg-indigo-50 dark:bg-indigo-900/20">
+                    <td colSpan={columnCount} className="px-6 py-1 text-xs text-indigo-700 dark:text-indigo-300">
+                      <span className="flex items-center space-x-2">
+                        <RotateCw className="h-3 w-3" />
+                        <span>
+                          Log rotated: <span className="font-mono">{log.rotationBoundary.file}</span> starts above,{' '}
+                          <span className="font-mono">{log.rotationBoundary.previousFile}</span> ends below
+                        </span>
+                      </span>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
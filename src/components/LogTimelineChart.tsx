@@ -0,0 +1,152 @@
+import { Bar } from 'react-chartjs-2';
+import type { Chart, Plugin } from 'chart.js';
+import { useTimezone } from '../contexts/useTimezone';
+import { formatTimestampInZone } from '../utils/timestampUtils';
+import { TIMELINE_LEVELS, TimelineBuckets } from '../utils/timelineBuckets';
+
+/**
+ * A point in time called out on the timeline with a dashed line, or a
+ * period shaded from its start to its end
+ */
+export interface TimelineMarker {
+  time: Date;
+  /** End of the period, for markers that cover one */
+  end?: Date;
+  label: string;
+  /** Line and label colour */
+  color: string;
+}
+
+/**
+ * Props interface for the LogTimelineChart component
+ */
+interface LogTimelineChartProps {
+  /** Entry counts per level over time */
+  buckets: TimelineBuckets;
+
+  /** Points in time and periods to mark, e.g. rotation boundaries and anomalies */
+  markers: TimelineMarker[];
+
+  /** UTC offset the log was written with, for the log's own local time */
+  utcOffset?: number;
+}
+
+/**
+ * Bar colour of each level, matching the level distribution chart
+ */
+const LEVEL_COLORS: Record<string, string> = {
+  ERROR: '#ef4444',
+  WARN: '#f59e0b',
+  INFO: '#3b82f6',
+  DEBUG: '#10b981',
+  TRACE: '#8b5cf6',
+};
+
+/**
+ * Label format for an interval length
+ */
+const getLabelPattern = (size: number) => {
+  if (size < 60 * 1000) return 'HH:mm:ss';
+  if (size < 24 * 60 * 60 * 1000) return 'MM-dd HH:mm';
+  return 'yyyy-MM-dd';
+};
+
+/**
+ * Draw the markers as dashed vertical lines with their labels, shading the
+ * periods of markers that have an end
+ *
+ * Bars sit in equal slots across the chart area, so a time maps to a
+ * position within its slot.
+ */
+const drawMarkers = (chart: Chart, buckets: TimelineBuckets, markers: TimelineMarker[]) => {
+  const { ctx, chartArea } = chart;
+  const slotCount = buckets.counts.ERROR.length;
+  const slotWidth = (chartArea.right - chartArea.left) / slotCount;
+  const toX = (time: Date) => chartArea.left + slotWidth * (time.getTime() - buckets.start) / buckets.size;
+
+  markers.forEach((marker, index) => {
+    const x = toX(marker.time);
+    if (x < chartArea.left || x > chartArea.right) return;
+
+    ctx.save();
+    ctx.strokeStyle = marker.color;
+    ctx.fillStyle = marker.color;
+    if (marker.end) {
+      const xEnd = Math.min(toX(marker.end), chartArea.right);
+      ctx.globalAlpha = 0.12;
+      ctx.fillRect(x, chartArea.top, Math.max(xEnd - x, 1), chartArea.bottom - chartArea.top);
+      ctx.globalAlpha = 1;
+    }
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.moveTo(x, chartArea.top);
+    ctx.lineTo(x, chartArea.bottom);
+    ctx.stroke();
+    ctx.font = '10px sans-serif';
+    // Stagger labels so neighbouring markers stay readable
+    ctx.fillText(marker.label, x + 3, chartArea.top + 10 + (index % 3) * 12);
+    ctx.restore();
+  });
+};
+
+/**
+ * LogTimelineChart Component
+ *
+ * Stacked bars of entries per level over time, with optional markers such
+ * as the boundaries of a rotated log or detected anomalies. Times are
+ * labelled in the display timezone.
+ */
+export function LogTimelineChart({ buckets, markers, utcOffset }: LogTimelineChartProps) {
+  const { displayTimezone } = useTimezone();
+  const isDark = document.documentElement.classList.contains('dark');
+  const slotCount = buckets.counts.ERROR.length;
+
+  const pattern = getLabelPattern(buckets.size);
+  const labels = Array.from({ length: slotCount }, (_, index) =>
+    formatTimestampInZone(new Date(buckets.start + index * buckets.size), pattern, displayTimezone, utcOffset));
+
+  const data = {
+    labels,
+    datasets: TIMELINE_LEVELS
+      .filter(level => buckets.counts[level].some(count => count > 0))
+      .map(level => ({
+        label: level,
+        data: buckets.counts[level],
+        backgroundColor: LEVEL_COLORS[level],
+        borderWidth: 0,
+      })),
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    scales: {
+      x: {
+        stacked: true,
+        ticks: { color: isDark ? '#9ca3af' : '#6b7280', maxRotation: 0, autoSkipPadding: 12 },
+        grid: { display: false },
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        ticks: { color: isDark ? '#9ca3af' : '#6b7280', precision: 0 },
+        grid: { color: isDark ? 'rgba(75, 85, 99, 0.4)' : 'rgba(229, 231, 235, 1)' },
+      },
+    },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: { color: isDark ? '#e5e7eb' : '#374151', usePointStyle: true, padding: 15 },
+      },
+    },
+  };
+
+  const markerPlugin: Plugin<'bar'> = {
+    id: 'timelineMarkers',
+    afterDatasetsDraw: chart => drawMarkers(chart, buckets, markers),
+  };
+
+  return <Bar data={data} options={options} plugins={[markerPlugin]} />;
+}
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { FileSearch, ChevronDown, ChevronRight, Download } from 'lucide-react';
+import { LogEntry, ParseDiagnostics } from '../types/log';
+import { buildUnparsedLinesText } from '../utils/parseDiagnostics';
+
+/**
+ * Props interface for the ParseDiagnosticsPanel component
+ */
+interface ParseDiagnosticsPanelProps {
+  /** Diagnostics of the current file */
+  diagnostics: ParseDiagnostics;
+
+  /** Session entries, used to build the unparsed lines download */
+  logs: LogEntry[];
+
+  /** Session name of the analysed file, whose entries are downloaded */
+  filename: string;
+}
+
+/**
+ * Format a count as a share of the entries
+ */
+const formatPercent = (count: number, total: number) =>
+  total > 0 ? `${(count / total * 100).toFixed(count === total || count === 0 ? 0 : 1)}%` : '–';
+
+/**
+ * Bar colour for a coverage share: green when nearly complete, amber when
+ * partial, gray when the field is mostly absent
+ */
+const coverageColor = (count: number, total: number) => {
+  const share = total > 0 ? count / total : 0;
+  if (share >= 0.95) return 'bg-green-500';
+  if (share >= 0.5) return 'bg-amber-500';
+  return 'bg-gray-400 dark:bg-gray-500';
+};
+
+/**
+ * ParseDiagnosticsPanel Component
+ *
+ * Shows how well the current file parsed: the format used, how many
+ * entries got each field, how levels were found, and the first lines no
+ * timestamp could be read from, with a download of all of them. Starts
+ * expanded only when some lines have no timestamp.
+ */
+export function ParseDiagnosticsPanel({ diagnostics, logs, filename }: ParseDiagnosticsPanelProps) {
+  const [expanded, setExpanded] = useState(diagnostics.unparsedCount > 0);
+  const { entryCount } = diagnostics;
+
+  const coverage = [
+    { label: 'Timestamps', count: diagnostics.withTimestamp },
+    { label: 'Explicit levels', count: diagnostics.explicitLevels },
+    { label: 'Threads', count: diagnostics.withThread },
+    { label: 'Sources', count: diagnostics.withSource },
+  ];
+
+  /**
+   * Download every line without a timestamp as a text file
+   */
+  const downloadUnparsedLines = () => {
+    const blob = new Blob([buildUnparsedLinesText(logs, filename)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${filename.replace(/\.[^.]+$/, '') || 'log'}-unparsed.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 transition-colors duration-200">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={expanded}
+      >
+        <span className="flex items-center space-x-2 text-sm font-medium text-gray-900 dark:text-white">
+          <FileSearch className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+          <span>Parse diagnostics</span>
+          <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+            {filename} · {diagnostics.formatName ?? 'Generic heuristics'}
+          </span>
+        </span>
+        <span className="flex items-center space-x-2">
+          {diagnostics.unparsedCount > 0 ? (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+              {diagnostics.unparsedCount.toLocaleString()} without timestamp
+            </span>
+          ) : (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+              All timestamps read
+            </span>
+          )}
+          {expanded
+            ? <ChevronDown className="h-4 w-4 text-gray-400" />
+            : <ChevronRight className="h-4 w-4 text-gray-400" />}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-4 text-sm">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {entryCount.toLocaleString()} entries from {diagnostics.totalLines.toLocaleString()} lines
+            {diagnostics.totalLines > entryCount && ' (continuation lines are folded into the entry above them)'}
+          </p>
+
+          {/* Rotated log files */}
+          {diagnostics.rotation && (
+            <p className="text-xs text-gray-700 dark:text-gray-300">
+              <span className="font-medium">Rotated log:</span>{' '}
+              stitched from {diagnostics.rotation.files.join(' → ')} (oldest first)
+              {diagnostics.rotation.duplicateCount > 0 &&
+                `; ${diagnostics.rotation.duplicateCount.toLocaleString()} entries repeated across a rotation were removed`}
+            </p>
+          )}
+
+          {/* Field coverage */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {coverage.map(({ label, count }) => (
+              <div key={label}>
+                <div className="flex justify-between text-xs text-gray-700 dark:text-gray-300 mb-1">
+                  <span>{label}</span>
+                  <span>{count.toLocaleString()} · {formatPercent(count, entryCount)}</span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className={`h-full ${coverageColor(count, entryCount)}`}
+                    style={{ width: entryCount > 0 ? `${count / entryCount * 100}%` : '0%' }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Level detection method */}
+          <div className="text-xs text-gray-700 dark:text-gray-300">
+            <span className="font-medium">Level detection:</span>{' '}
+            {diagnostics.explicitLevels.toLocaleString()} written on the line,{' '}
+            {diagnostics.inferredLevels.toLocaleString()} inferred from message keywords
+          </div>
+
+          {/* Unparsed lines */}
+          {diagnostics.unparsedCount > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                  Lines without a timestamp
+                  {diagnostics.unparsedCount > diagnostics.unparsedSamples.length &&
+                    ` (first ${diagnostics.unparsedSamples.length} of ${diagnostics.unparsedCount.toLocaleString()})`}
+                </span>
+                <button
+                  onClick={downloadUnparsedLines}
+                  className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors duration-200"
+                >
+                  <Download className="h-3 w-3" />
+                  <span>Download all</span>
+                </button>
+              </div>
+              <ul className="max-h-64 overflow-y-auto rounded border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700 font-mono text-xs">
+                {diagnostics.unparsedSamples.map((sample, index) => (
+                  <li key={index} className="flex space-x-3 px-2 py-1">
+                    <span className="w-12 flex-shrink-0 text-right text-gray-400">{sample.line || ''}</span>
+                    <span className="truncate text-gray-700 dark:text-gray-300" title={sample.text}>{sample.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
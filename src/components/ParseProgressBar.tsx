@@ -0,0 +1,69 @@
+import { X } from 'lucide-react';
+import { ParseProgress } from '../types/worker';
+
+/**
+ * Props interface for the ParseProgressBar component
+ */
+interface ParseProgressBarProps {
+  progress: ParseProgress;
+  onCancel?: () => void;
+}
+
+/**
+ * Format a byte count as megabytes
+ */
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * ParseProgressBar Component
+ *
+ * Shows how far the background parse has got, with a cancel button.
+ * Before the first update arrives (total of 0) the bar is indeterminate.
+ * Streamed files also show the running totals parsed so far.
+ */
+export function ParseProgressBar({ progress, onCancel }: ParseProgressBarProps) {
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  const label = progress.phase === 'summarizing'
+    ? `Building summary for ${progress.total.toLocaleString()} entries...`
+    : progress.total === 0
+      ? 'Preparing file...'
+      : progress.unit === 'bytes'
+        ? `Read ${formatMegabytes(progress.processed)} of ${formatMegabytes(progress.total)} (${percent}%)`
+        : `Parsing line ${progress.processed.toLocaleString()} of ${progress.total.toLocaleString()} (${percent}%)`;
+
+  return (
+    <div className="mt-4 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg transition-colors duration-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-gray-700 dark:text-gray-300">{label}</span>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors duration-200"
+          >
+            <X className="h-4 w-4" />
+            <span>Cancel</span>
+          </button>
+        )}
+      </div>
+      <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-blue-600 dark:bg-blue-500 rounded-full transition-all duration-200 ${
+            progress.total === 0 || progress.phase === 'summarizing' ? 'w-full animate-pulse' : ''
+          }`}
+          style={progress.total > 0 && progress.phase === 'parsing' ? { width: `${percent}%` } : undefined}
+        />
+      </div>
+      {progress.partial && progress.phase === 'parsing' && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          So far: {progress.partial.entryCount.toLocaleString()} entries,{' '}
+          <span className="text-red-600 dark:text-red-400">{progress.partial.errorCount.toLocaleString()} errors</span>,{' '}
+          <span className="text-yellow-600 dark:text-yellow-400">{progress.partial.warningCount.toLocaleString()} warnings</span>
+          {progress.partial.timeRange && (
+            <> from {progress.partial.timeRange.start.toLocaleString()} to {progress.partial.timeRange.end.toLocaleString()}</>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
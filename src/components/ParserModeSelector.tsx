@@ -0,0 +1,77 @@
+import { Cpu, Bot, Sparkles } from 'lucide-react';
+import { ParserMode } from '../types/log';
+import { PARSER_MODES, getParserMode, getParserModeService, isParserModeAvailable } from '../utils/parserModes';
+
+/**
+ * Props interface for the ParserModeSelector component
+ */
+interface ParserModeSelectorProps {
+  /** Currently selected mode */
+  mode: ParserMode;
+
+  /** Called when the user picks a mode */
+  onChange: (mode: ParserMode) => void;
+
+  /** Disables the selector while a file is being parsed */
+  disabled?: boolean;
+}
+
+/**
+ * Icon shown for each mode
+ */
+const MODE_ICONS = {
+  local: Cpu,
+  hybrid: Bot,
+  ai: Sparkles,
+};
+
+/**
+ * ParserModeSelector Component
+ *
+ * Segmented control choosing how the next upload is parsed. AI modes are
+ * disabled when their language model is not configured. Picking an AI mode
+ * does not send anything yet; each upload still asks for consent.
+ */
+export function ParserModeSelector({ mode, onChange, disabled }: ParserModeSelectorProps) {
+  const selected = getParserMode(mode);
+  const service = getParserModeService(mode);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-4">
+      <div className="flex items-center justify-center">
+        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1 transition-colors duration-200" role="radiogroup" aria-label="Parser mode">
+          {PARSER_MODES.map(definition => {
+            const Icon = MODE_ICONS[definition.id];
+            const unavailable = !isParserModeAvailable(definition.id);
+            const isSelected = definition.id === mode;
+
+            return (
+              <button
+                key={definition.id}
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => onChange(definition.id)}
+                disabled={disabled || unavailable}
+                title={unavailable ? 'No language model configured for this mode' : definition.description}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isSelected
+                    ? 'bg-white dark:bg-gray-600 text-blue-600 dark:text-blue-400 shadow-sm'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+                <span>{definition.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <p className={`mt-2 text-xs text-center ${
+        service ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'
+      }`}>
+        {selected.description}
+        {service && ` Log content is sent to ${service.name} at ${service.host}.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import {
+  BUILT_IN_REDACTION_RULES,
+  RedactionSettings,
+  compileRedactionPattern,
+} from '../utils/redaction';
+
+/**
+ * Props interface for the RedactionSettingsPanel component
+ */
+interface RedactionSettingsPanelProps {
+  /** Current settings */
+  settings: RedactionSettings;
+
+  /** Called with the updated settings on every change */
+  onChange: (settings: RedactionSettings) => void;
+}
+
+/**
+ * RedactionSettingsPanel Component
+ *
+ * Switches for the built-in redaction rules and a small form for custom
+ * rules. A custom rule replaces each match, or each capture group if the
+ * pattern has any, with a token named after the rule's token name.
+ */
+export function RedactionSettingsPanel({ settings, onChange }: RedactionSettingsPanelProps) {
+  const [label, setLabel] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Switch a built-in rule on or off
+   */
+  const toggleRule = (id: string) => {
+    const disabledRules = settings.disabledRules.includes(id)
+      ? settings.disabledRules.filter(ruleId => ruleId !== id)
+      : [...settings.disabledRules, id];
+    onChange({ ...settings, disabledRules });
+  };
+
+  /**
+   * Validate and add the custom rule in the form
+   */
+  const handleAddRule = () => {
+    const compiled = compileRedactionPattern(pattern);
+    if ('error' in compiled) {
+      setError(compiled.error);
+      return;
+    }
+    if (!/^[a-z]+$/.test(token)) {
+      setError('Token name must be lowercase letters only, e.g. project');
+      return;
+    }
+
+    onChange({
+      ...settings,
+      customRules: [
+        ...settings.customRules,
+        { id: `custom-${Date.now()}`, label: label.trim() || pattern, pattern, tokens: [token] },
+      ],
+    });
+    setLabel('');
+    setPattern('');
+    setToken('');
+    setError(null);
+  };
+
+  /**
+   * Remove a custom rule
+   */
+  const handleDeleteRule = (id: string) => {
+    onChange({ ...settings, customRules: settings.customRules.filter(rule => rule.id !== id) });
+  };
+
+  const inputClass = 'border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200';
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 font-medium">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+        <span>Redact sensitive values before sending</span>
+      </label>
+
+      {settings.enabled ? (
+        <>
+          <div className="grid grid-cols-2 gap-1 pl-6">
+            {BUILT_IN_REDACTION_RULES.map(rule => (
+              <label key={rule.id} className="flex items-center space-x-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={!settings.disabledRules.includes(rule.id)}
+                  onChange={() => toggleRule(rule.id)}
+                />
+                <span>{rule.label}</span>
+              </label>
+            ))}
+          </div>
+
+          {settings.customRules.length > 0 && (
+            <ul className="pl-6 space-y-1">
+              {settings.customRules.map(rule => (
+                <li key={rule.id} className="flex items-center justify-between text-xs">
+                  <span>
+                    {rule.label} <span className="font-mono text-gray-500 dark:text-gray-400">→ {rule.tokens[0]}_N</span>
+                  </span>
+                  <button
+                    onClick={() => handleDeleteRule(rule.id)}
+                    className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    aria-label={`Delete ${rule.label}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="pl-6 flex flex-wrap items-center gap-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Rule name"
+              className={`${inputClass} w-28`}
+            />
+            <input
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="Regex, e.g. PRJ-\d+"
+              className={`${inputClass} flex-1 min-w-32 font-mono`}
+            />
+            <input
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="token"
+              className={`${inputClass} w-20 font-mono`}
+            />
+            <button
+              onClick={handleAddRule}
+              className="flex items-center space-x-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-xs hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              <span>Add rule</span>
+            </button>
+          </div>
+          {error && (
+            <p className="pl-6 flex items-center space-x-1 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="h-3.5 w-3.5" />
+              <span>{error}</span>
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="pl-6 text-xs text-red-600 dark:text-red-400">
+          Lines will be sent exactly as they appear in the file.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import React, { useState, useRef } from 'react';
 import { FileDown, Loader2, CheckCircle, AlertCircle, MessageCircle, FileText, Trash2, Edit3, Info } from 'lucide-react';
 import { LogEntry, LogSummary } from '../types/log';
 import { generatePDFReport } from '../utils/pdfGenerator';
+import { LogComparison } from '../utils/logComparison';
+import { useTimezone } from '../contexts/useTimezone';
 
 interface AddedContent {
   id: string;
@@ -15,14 +17,17 @@ interface ReportGeneratorProps {
   filename: string;
   addedContent: AddedContent[];
   onRemoveContent: (id: string) => void;
+  comparison: LogComparison | null;
+  onRemoveComparison: () => void;
 }
 
-export function ReportGenerator({ logs, summary, filename, addedContent, onRemoveContent }: ReportGeneratorProps) {
+export function ReportGenerator({ logs, summary, filename, addedContent, onRemoveContent, comparison, onRemoveComparison }: ReportGeneratorProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationStatus, setGenerationStatus] = useState<'idle' | 'generating' | 'success' | 'error'>('idle');
   const [error, setError] = useState<string | null>(null);
   const [reportName, setReportName] = useState('log-analysis-report');
   const [isEditingName, setIsEditingName] = useState(false);
+  const { displayTimezone } = useTimezone();
 
   const handleGenerateReport = async () => {
     // Validate inputs
@@ -67,6 +72,8 @@ export function ReportGenerator({ logs, summary, filename, addedContent, onRemov
         filename,
         reportName: reportName.trim(),
         additionalDetails: combinedAdditionalDetails,
+        displayTimezone,
+        comparison,
       });
 
       setGenerationStatus('success');
@@ -278,6 +285,19 @@ export function ReportGenerator({ logs, summary, filename, addedContent, onRemov
               <div className="w-2 h-2 bg-yellow-500 dark:bg-yellow-400 rounded-full"></div>
               <span>Actionable Recommendations</span>
             </div>
+            {comparison && (
+              <div className="flex items-center space-x-2">
+                <div className="w-2 h-2 bg-indigo-500 dark:bg-indigo-400 rounded-full"></div>
+                <span className="truncate">Comparison: {comparison.baselineName} → {comparison.comparedName}</span>
+                <button
+                  onClick={onRemoveComparison}
+                  className="text-red-500 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 p-0.5 rounded hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors duration-200"
+                  title="Remove from report"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            )}
             {addedContent.length > 0 && (
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-indigo-500 dark:bg-indigo-400 rounded-full"></div>
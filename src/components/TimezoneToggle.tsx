@@ -0,0 +1,24 @@
+import { Globe } from 'lucide-react';
+import { useTimezone } from '../contexts/useTimezone';
+import { DisplayTimezone } from '../types/log';
+import { getBrowserTimezone } from '../utils/timestampUtils';
+
+export function TimezoneToggle() {
+  const { displayTimezone, setDisplayTimezone } = useTimezone();
+
+  return (
+    <div className="relative" title="Timezone used to display timestamps">
+      <Globe className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 dark:text-gray-500 pointer-events-none" />
+      <select
+        value={displayTimezone}
+        onChange={(e) => setDisplayTimezone(e.target.value as DisplayTimezone)}
+        className="pl-8 pr-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+        aria-label="Display timezone"
+      >
+        <option value="local">Local ({getBrowserTimezone()})</option>
+        <option value="UTC">UTC</option>
+        <option value="source">Source time</option>
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import React, { useState, useEffect } from 'react';
+import { DisplayTimezone } from '../types/log';
+import { TimezoneContext } from './useTimezone';
+
+/**
+ * Timezone Context for Timestamp Display
+ *
+ * This context provides the application-wide display timezone used by the
+ * log table, charts, summary and PDF report. Parsed timestamps are stored as
+ * absolute instants; this setting only changes how they are shown:
+ * - local: the analyst's browser timezone
+ * - UTC: coordinated universal time
+ * - source: the offset each entry was originally written with
+ *
+ * The choice is persisted in localStorage like the theme preference.
+ * Components read it with the useTimezone hook.
+ */
+
+/**
+ * Timezone Provider Component
+ *
+ * @param children - Child components that will have access to timezone context
+ */
+export function TimezoneProvider({ children }: { children: React.ReactNode }) {
+  /**
+   * Initialize from the saved preference, defaulting to the browser timezone
+   */
+  const [displayTimezone, setDisplayTimezone] = useState<DisplayTimezone>(() => {
+    const saved = localStorage.getItem('displayTimezone');
+    return saved === 'UTC' || saved === 'source' ? saved : 'local';
+  });
+
+  /**
+   * Persist the display timezone preference
+   */
+  useEffect(() => {
+    localStorage.setItem('displayTimezone', displayTimezone);
+  }, [displayTimezone]);
+
+  return (
+    <TimezoneContext.Provider value={{ displayTimezone, setDisplayTimezone }}>
+      {children}
+    </TimezoneContext.Provider>
+  );
+}
@@ -0,0 +1,42 @@
+import { createContext, useContext } from 'react';
+import { DisplayTimezone } from '../types/log';
+
+/**
+ * Timezone Context Value and Hook
+ *
+ * Kept apart from the TimezoneProvider component so the provider module
+ * only exports components, as React Fast Refresh requires.
+ */
+
+/**
+ * Timezone Context Type Definition
+ */
+export interface TimezoneContextType {
+  /** Current display timezone */
+  displayTimezone: DisplayTimezone;
+
+  /** Function to change the display timezone */
+  setDisplayTimezone: (timezone: DisplayTimezone) => void;
+}
+
+// ============================================================================
+// CONTEXT CREATION
+// ============================================================================
+
+export const TimezoneContext = createContext<TimezoneContextType | undefined>(undefined);
+
+/**
+ * Custom hook to use timezone context
+ *
+ * @returns Timezone context value with current display timezone and setter
+ * @throws Error if used outside of TimezoneProvider
+ */
+export function useTimezone() {
+  const context = useContext(TimezoneContext);
+
+  if (context === undefined) {
+    throw new Error('useTimezone must be used within a TimezoneProvider');
+  }
+
+  return context;
+}
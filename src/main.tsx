@@ -2,6 +2,7 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import { ThemeProvider } from './contexts/ThemeContext.tsx';
+import { TimezoneProvider } from './contexts/TimezoneContext.tsx';
 import './index.css';
 
 /**
@@ -10,10 +11,11 @@ import './index.css';
  * This is the main entry point for the React application. It sets up:
  * - React StrictMode for development warnings and checks
  * - Theme context provider for dark/light mode management
+ * - Timezone context provider for timestamp display
  * - Root component mounting
  * 
  * The application structure:
- * StrictMode -> ThemeProvider -> App
+ * StrictMode -> ThemeProvider -> TimezoneProvider -> App
  * 
  * StrictMode helps identify potential problems in the application during
  * development by running additional checks and warnings.
@@ -34,7 +36,9 @@ if (!rootElement) {
 createRoot(rootElement).render(
   <StrictMode>
     <ThemeProvider>
-      <App />
+      <TimezoneProvider>
+        <App />
+      </TimezoneProvider>
     </ThemeProvider>
   </StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * Type Definitions for Language Model Access
+ *
+ * One interface for every language model the app talks to, whether a cloud
+ * service, a model served on the local network or a scripted mock. Parsers
+ * and the chatbot only see LlmClient and never a provider SDK.
+ */
+
+/**
+ * Language model backends
+ * - openai: OpenAI chat completions API
+ * - gemini: Google Gemini API
+ * - local: any OpenAI-compatible server, such as Ollama or llama.cpp
+ * - mock: scripted responses, never configured from the environment
+ */
+export type LlmProvider = 'openai' | 'gemini' | 'local' | 'mock';
+
+/**
+ * LLM Request Interface
+ *
+ * @interface LlmRequest
+ */
+export interface LlmRequest {
+  /** User prompt */
+  prompt: string;
+
+  /** System instruction sent ahead of the prompt (optional) */
+  system?: string;
+
+  /** Sampling temperature; the provider's default when omitted (optional) */
+  temperature?: number;
+}
+
+/**
+ * LLM Client Interface
+ *
+ * @interface LlmClient
+ */
+export interface LlmClient {
+  /** Backend the client talks to */
+  provider: LlmProvider;
+
+  /** Model name sent with each request */
+  model: string;
+
+  /** Host that receives prompts, shown when asking for consent */
+  host: string;
+
+  /** Send one prompt and resolve with the model's text reply */
+  complete: (request: LlmRequest) => Promise<string>;
+}
+
+/**
+ * LLM Configuration Interface
+ *
+ * Settings needed to build a client for a real backend.
+ *
+ * @interface LlmConfig
+ */
+export interface LlmConfig {
+  /** Backend to use */
+  provider: Exclude<LlmProvider, 'mock'>;
+
+  /** Model name */
+  model: string;
+
+  /** API key; optional for local servers */
+  apiKey?: string;
+
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+}
+
+/**
+ * LLM Error Interface
+ *
+ * Error thrown by a client when the service rejects a request or cannot be
+ * reached, carrying what the scheduler needs to decide whether and when to
+ * retry.
+ *
+ * @interface LlmError
+ */
+export interface LlmError extends Error {
+  /** HTTP status returned by the service (optional) */
+  status?: number;
+
+  /** Delay the service asked for before retrying, from Retry-After (optional) */
+  retryAfterMs?: number;
+
+  /** Set when the request never reached the service (optional) */
+  network?: boolean;
+}
+
+/**
+ * Progress of one batch of lines sent to a language model
+ * - queued: waiting for a free request slot or token budget
+ * - running: request in flight
+ * - retrying: waiting to retry after a rate limit or server error
+ * - cached: reply reused from the AI result cache
+ * - done: every line parsed by the model
+ * - partial: some lines parsed locally because their results were invalid
+ * - fallback: request failed; the whole batch was parsed locally
+ */
+export type AiBatchState = 'queued' | 'running' | 'retrying' | 'cached' | 'done' | 'partial' | 'fallback';
+
+/**
+ * AI Batch Status Interface
+ *
+ * @interface AiBatchStatus
+ */
+export interface AiBatchStatus {
+  /** Position of the batch in the file */
+  index: number;
+
+  /** First line of the batch (0-based, as numbered in the prompt) */
+  startLine: number;
+
+  /** Line after the last line of the batch */
+  endLine: number;
+
+  /** Current state */
+  state: AiBatchState;
+
+  /** Requests sent for this batch so far */
+  attempts: number;
+
+  /** Estimated tokens per request, prompt and reply */
+  estimatedTokens: number;
+
+  /** Lines parsed locally instead of by the model */
+  fallbackLines: number;
+
+  /** Last error, for retrying and fallback batches (optional) */
+  error?: string;
+}
+
+/**
+ * Callback receiving every batch's status whenever one changes
+ */
+export type AiBatchStatusCallback = (batches: AiBatchStatus[]) => void;
+
+/**
+ * Handlers for an in-flight AI parse
+ *
+ * @interface AiParseHandlers
+ */
+export interface AiParseHandlers {
+  /** Receives the status of every batch whenever one changes */
+  onBatchStatus?: AiBatchStatusCallback;
+
+  /** Aborting this signal cancels queued and retrying requests */
+  signal?: AbortSignal;
+}
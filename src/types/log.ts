@@ -19,17 +19,36 @@ export interface LogEntry {
   id: string;
   
   /** 
-   * Timestamp of the log entry
+   * Timestamp of the log entry as a normalized (UTC) instant
    * Can be null if no valid timestamp was found in the log line
    * This prevents creation of misleading placeholder timestamps
    */
   timestamp: Date | null;
+
+  /**
+   * UTC offset the timestamp was written with, in minutes east of UTC (optional)
+   * Taken from an explicit suffix (Z, +10:00) or the source timezone chosen
+   * at upload; used to show entries in the log's own local time
+   */
+  utcOffset?: number;
+
+  /**
+   * Set when the timestamp falls far outside the rest of the file (optional)
+   * Usually a misparsed date; excluded from the time range and charts
+   */
+  timestampOutlier?: boolean;
   
   /** 
    * Log level/severity
    * Standardized to these specific values for consistent analysis
    */
   level: 'ERROR' | 'WARN' | 'INFO' | 'DEBUG' | 'TRACE';
+
+  /**
+   * Set when the line had no level of its own and it was guessed from
+   * keywords in the message (optional)
+   */
+  levelInferred?: boolean;
   
   /** 
    * Main log message content
@@ -49,13 +68,277 @@ export interface LogEntry {
    */
   source?: string;
 
+  /**
+   * Continuation lines folded into this entry (optional)
+   * Stack trace frames, "Caused by:" chains and inner exception blocks
+   * that follow the entry's first line without a timestamp of their own
+   */
+  stackTrace?: string[];
+
+  /**
+   * Other properties of a structured (JSON) record (optional)
+   * Keyed by dotted path, e.g. "http.status"; values as text
+   */
+  fields?: Record<string, string>;
+
+  /**
+   * Name of the session file the entry came from (optional)
+   * Set when the entry is added to the session, so entries of several
+   * files can be told apart in the merged timeline
+   */
+  sourceFile?: string;
+
+  /**
+   * Set on the first entry of each file of a rotated log after the oldest
+   * (optional); names the file that starts here and the one before it
+   */
+  rotationBoundary?: { file: string; previousFile: string };
+
+  /**
+   * ID of the message template the entry matches (optional)
+   * Set when the session's templates are mined, so entries can be
+   * filtered by template
+   */
+  templateId?: string;
+
   /**
    * Original raw log line
    * Preserved for reference and debugging purposes
+   * Includes any continuation lines, joined with newlines
    */
   raw: string;
 }
 
+/**
+ * Parse Diagnostics Interface
+ *
+ * How well a log file parsed: which format was used, how many entries got
+ * each field, and examples of lines no timestamp could be read from.
+ *
+ * @interface ParseDiagnostics
+ */
+export interface ParseDiagnostics {
+  /** Format or parser the file was read with; null when the generic heuristics were used */
+  formatName: string | null;
+
+  /** Lines read into entries, including continuation lines */
+  totalLines: number;
+
+  /** Entries parsed */
+  entryCount: number;
+
+  /** Entries with a timestamp */
+  withTimestamp: number;
+
+  /** Entries whose level was written on the line */
+  explicitLevels: number;
+
+  /** Entries whose level was guessed from keywords in the message */
+  inferredLevels: number;
+
+  /** Entries with a thread or process ID */
+  withThread: number;
+
+  /** Entries with a source or error code */
+  withSource: number;
+
+  /** Entries without a timestamp */
+  unparsedCount: number;
+
+  /** First entries without a timestamp, in file order */
+  unparsedSamples: { line: number; text: string }[];
+
+  /**
+   * Files a rotated log was stitched from, oldest first, and the entries
+   * dropped because an older file already had them (optional)
+   */
+  rotation?: { files: string[]; duplicateCount: number };
+}
+
+/**
+ * Timezone used to display timestamps
+ * - local: the analyst's browser timezone
+ * - UTC: coordinated universal time
+ * - source: the offset each entry was written with
+ */
+export type DisplayTimezone = 'local' | 'UTC' | 'source';
+
+/**
+ * How an uploaded log file is parsed
+ * - local: browser-side parser only; no content leaves the browser
+ * - hybrid: OpenAI detects the format and extracts fields in batches
+ * - ai: Google Gemini parses the whole file
+ */
+export type ParserMode = 'local' | 'hybrid' | 'ai';
+
+/**
+ * Log Parse Options Interface
+ * 
+ * Settings chosen at upload that influence how a file is parsed.
+ * 
+ * @interface LogParseOptions
+ */
+export interface LogParseOptions {
+  /**
+   * Timezone the log's wall-clock timestamps were written in (optional)
+   * 'local' (default) for the browser's zone, 'UTC' or an IANA name;
+   * timestamps with an explicit offset ignore this setting
+   */
+  sourceTimezone?: string;
+
+  /**
+   * Year of the first entry for logs whose timestamps omit the year (optional)
+   * Entered by the user at upload; takes priority over other inference sources
+   */
+  referenceYear?: number;
+
+  /**
+   * Last-modified time of the uploaded file in epoch milliseconds (optional)
+   * Used as the end of the log when inferring years for yearless timestamps
+   */
+  fileLastModified?: number;
+
+  /**
+   * Plausibility window settings for parsed timestamps (optional)
+   */
+  timestampWindow?: TimestampWindowOptions;
+
+  /**
+   * Registered format to parse with instead of detecting one (optional)
+   * Set when a format has already been checked against this file
+   */
+  formatId?: string;
+
+  /**
+   * Where to find each field in JSON records (optional)
+   * Set for JSON and JSON Lines uploads, which are then read as structured
+   * records instead of text lines
+   */
+  jsonFields?: JsonFieldPaths;
+
+  /**
+   * Layout of a Windows event log export (optional)
+   * Set for Event Viewer XML and CSV exports, which are read as events
+   * instead of text lines
+   */
+  windowsEventLog?: WindowsEventLogLayout;
+}
+
+/**
+ * Log Upload Interface
+ *
+ * One log file ready to be parsed, as handed over by the upload panel.
+ *
+ * @interface LogUpload
+ */
+export interface LogUpload {
+  /** Text of JSON uploads and event log exports, or the File itself for streamed log files */
+  source: string | File;
+
+  /** Name of the uploaded file */
+  fileName: string;
+
+  /** Upload-time parse settings */
+  options: LogParseOptions;
+}
+
+/**
+ * Layout of a Windows event log export
+ * - xml: Event Viewer "Save Selected Events" as XML
+ * - csv: Event Viewer CSV, or PowerShell Get-WinEvent | Export-Csv
+ */
+export type WindowsEventLogLayout = 'xml' | 'csv';
+
+/**
+ * JSON Field Paths Interface
+ *
+ * Candidate paths for each LogEntry field in a JSON log record, tried in
+ * order. A path is a property name (@timestamp) or dotted path (log.level);
+ * a property whose name contains dots is matched before nested objects.
+ *
+ * @interface JsonFieldPaths
+ */
+export interface JsonFieldPaths {
+  timestamp: string[];
+  level: string[];
+  message: string[];
+  source: string[];
+  thread: string[];
+}
+
+/**
+ * Timestamp Plausibility Window Settings
+ *
+ * Controls which parsed timestamps count as real. The window is derived from
+ * the file's own timestamp distribution; fixed year bounds narrow it further.
+ *
+ * @interface TimestampWindowOptions
+ */
+export interface TimestampWindowOptions {
+  /** Earliest year accepted (optional, no fixed bound by default) */
+  minYear?: number;
+
+  /** Latest year accepted (optional, no fixed bound by default) */
+  maxYear?: number;
+
+  /** Interquartile ranges beyond the quartiles before a timestamp is an outlier (default 3) */
+  outlierFactor?: number;
+
+  /** Minimum days beyond the quartiles before a timestamp is an outlier (default 30) */
+  minToleranceDays?: number;
+}
+
+/**
+ * Log Format Definition Interface
+ * 
+ * Declarative description of a known log layout. Formats are registered in
+ * the format registry and scored against the first lines of an upload so the
+ * best-matching layout is used for the whole file.
+ * 
+ * @interface LogFormatDefinition
+ */
+export interface LogFormatDefinition {
+  /** Unique identifier for the format (e.g. 'log4j-pattern') */
+  id: string;
+
+  /** Human readable format name shown in the UI */
+  name: string;
+
+  /** Short description of where this format comes from (optional) */
+  description?: string;
+
+  /**
+   * Regular expression matching one log line
+   * Named groups timestamp, level, thread, source and message are mapped
+   * onto the corresponding LogEntry fields; all groups are optional
+   */
+  linePattern: RegExp;
+
+  /**
+   * date-fns format string for the timestamp group (optional)
+   * Use 'iso' for ISO-8601 timestamps with or without offset
+   */
+  timestampFormat?: string;
+
+  /**
+   * Pattern identifying header lines unique to this format (optional)
+   * A header match raises the detection score of the format
+   */
+  headerPattern?: RegExp;
+
+  /**
+   * Pattern for lines that carry no log content, such as comments (optional)
+   * Ignored lines are skipped during detection and parsing
+   */
+  ignorePattern?: RegExp;
+
+  /**
+   * Custom mapping of the level group to a standard level (optional)
+   * Used for formats that encode severity as a number or status code
+   */
+  mapLevel?: (value: string) => LogEntry['level'] | undefined;
+}
+
 /**
  * Log Analysis Summary Interface
  * 
@@ -88,15 +371,28 @@ export interface LogSummary {
   
   /** 
    * Most frequently occurring error patterns
-   * Helps identify systemic issues and recurring problems
+   * Helps identify systemic issues and recurring problems; taken from the
+   * session's templates when a file joins the session, so parsers leave it
+   * empty
    */
-  topErrors: { message: string; count: number }[];
+  topErrors: { templateId: string; message: string; count: number }[];
   
   /**
    * Time range covered by the log analysis
-   * Based on valid timestamps found in the log entries
+   * Based on valid, non-outlier timestamps; null when the log has none
    */
-  timeRange: { start: Date; end: Date };
+  timeRange: { start: Date; end: Date } | null;
+
+  /**
+   * Number of entries whose timestamps were excluded as outliers (optional)
+   */
+  outlierTimestampCount?: number;
+
+  /**
+   * UTC offset the log's timestamps were written with, in minutes (optional)
+   * Used to show the time range in the log's own local time
+   */
+  sourceUtcOffset?: number;
 
   /**
    * Number of unique thread IDs found in the logs
@@ -109,6 +405,49 @@ export interface LogSummary {
    * Shows how errors distribute over time
    */
   errorTrend?: { timestamp: Date; count: number }[];
+
+  /**
+   * Level counts for each file of a multi-file session, in load order
+   * (optional; only set when the session has more than one file)
+   */
+  fileBreakdown?: FileLevelCounts[];
+}
+
+/**
+ * Level counts of one file in a multi-file session
+ *
+ * @interface FileLevelCounts
+ */
+export interface FileLevelCounts {
+  /** Session name of the file */
+  file: string;
+
+  /** Entries from the file */
+  totalEntries: number;
+
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+  debugCount: number;
+}
+
+/**
+ * Session File Interface
+ *
+ * A file loaded into the current analysis session. Several files can be
+ * loaded to correlate them on one timeline.
+ *
+ * @interface SessionLogFile
+ */
+export interface SessionLogFile {
+  /** Name the file's entries are tagged with, unique within the session */
+  name: string;
+
+  /** Entries parsed from the file */
+  entryCount: number;
+
+  /** How well the file parsed */
+  diagnostics: ParseDiagnostics;
 }
 
 /**
@@ -0,0 +1,81 @@
+import { LogParseOptions, LogSummary, ParseDiagnostics } from './log';
+import { AuditEntry, AuditSummary } from './audit';
+import { CustomLogFormat } from '../utils/customFormats';
+import { PackedLogEntries } from '../utils/logEntryStore';
+
+/**
+ * Type Definitions for the Parse Worker
+ *
+ * Messages exchanged between the main thread and the background worker that
+ * parses uploads. Everything here must survive structured cloning: Dates
+ * and plain objects are fine, functions are not. Parsed log entries are
+ * posted as packed columns whose buffers are transferred, not cloned.
+ */
+
+/**
+ * Parse Progress Interface
+ *
+ * Reported while a file is parsed so the upload can show a progress bar.
+ *
+ * @interface ParseProgress
+ */
+export interface ParseProgress {
+  /** Current step: reading lines or building the summary */
+  phase: 'parsing' | 'summarizing';
+
+  /** Lines, bytes or entries handled so far */
+  processed: number;
+
+  /** Total lines, bytes or entries in this step */
+  total: number;
+
+  /** What processed and total count; lines unless a file is streamed (optional) */
+  unit?: 'lines' | 'bytes';
+
+  /** Results so far while a streamed file is still loading (optional) */
+  partial?: PartialParseSummary;
+}
+
+/**
+ * Partial Parse Summary Interface
+ *
+ * Running totals reported while a large file is streamed in.
+ *
+ * @interface PartialParseSummary
+ */
+export interface PartialParseSummary {
+  /** Entries parsed so far */
+  entryCount: number;
+
+  /** ERROR entries so far */
+  errorCount: number;
+
+  /** WARN entries so far */
+  warningCount: number;
+
+  /** Earliest and latest timestamps so far, null if none yet */
+  timeRange: { start: Date; end: Date } | null;
+}
+
+/**
+ * Callback receiving parse progress updates
+ */
+export type ParseProgressCallback = (progress: ParseProgress) => void;
+
+/**
+ * Request sent from the main thread to the worker
+ * A log source is either text already read or a File streamed by the worker;
+ * custom formats are passed along because workers have no localStorage
+ */
+export type ParseWorkerRequest =
+  | { type: 'parseLog'; source: string | File; options: LogParseOptions; customFormats: CustomLogFormat[] }
+  | { type: 'parseAudit'; content: string };
+
+/**
+ * Message posted back from the worker to the main thread
+ */
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'logResult'; entries: PackedLogEntries; summary: LogSummary; diagnostics: ParseDiagnostics }
+  | { type: 'auditResult'; entries: AuditEntry[]; summary: AuditSummary }
+  | { type: 'error'; message: string };
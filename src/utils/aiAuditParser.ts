@@ -1,113 +1,225 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AuditEntry, AuditSummary } from '../types/audit';
-
-export async function parseAuditTrailWithAI(content: string, apiKey: string): Promise<{ entries: AuditEntry[], summary: AuditSummary }> {
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
-
-  const prompt = `You are a universal audit trail parser for Bentley Systems. Analyze this audit trail/CSV file and extract structured data.
-
-CRITICAL INSTRUCTIONS:
-1. Parse ALL entries from the file
-2. Extract these fields for each entry (use null if not present):
-   - timestamp: ISO format date-time string (YYYY-MM-DDTHH:mm:ss.sssZ) or null
-   - user: Username or user ID who performed the action
-   - action: The action type (e.g., "File Deleted", "File Modified", "User Login", etc.)
-   - resource: The resource affected (e.g., file name, system component)
-   - details: Additional details about the action
-
-3. Categorize entries into these event types:
-   - file_missing: Files that are missing or cannot be found
-   - file_deleted: Files that were explicitly deleted
-   - file_operations: General file operations (create, modify, move, copy)
-   - security_events: Authentication, authorization, access control events
-   - system_events: System-level operations and events
-   - other: Anything that doesn't fit above categories
-
-4. Generate comprehensive statistics:
-   - Total entry count
-   - Count by category
-   - Most active users (top 5)
-   - Most affected resources (top 5)
-   - Time range (earliest and latest timestamps)
-
-5. Return ONLY valid JSON in this exact format:
-{
-  "entries": [
-    {
-      "timestamp": "2025-01-15T10:30:00.000Z",
-      "user": "john.doe",
-      "action": "File Deleted",
-      "resource": "document.pdf",
-      "details": "Permanently deleted from system",
-      "category": "file_deleted"
-    }
-  ],
-  "statistics": {
-    "totalEntries": 1000,
-    "fileMissingCount": 45,
-    "fileDeletedCount": 120,
-    "fileOperationsCount": 600,
-    "securityEventsCount": 200,
-    "systemEventsCount": 35,
-    "mostActiveUsers": [
-      {"user": "john.doe", "count": 150}
-    ],
-    "mostAffectedResources": [
-      {"resource": "document.pdf", "count": 25}
-    ],
-    "timeRange": {
-      "start": "2025-01-15T10:00:00.000Z",
-      "end": "2025-01-15T12:00:00.000Z"
-    }
+import { AuditCategory, AuditEntry, AuditSummary } from '../types/audit';
+import { LlmClient } from '../types/llm';
+import { chunkLines, formatNumberedLines, stripJsonFences } from './aiExtraction';
+import {
+  categorizeAction,
+  generateAuditSummary,
+  parseAuditCSVRow,
+  parseAuditDataRow,
+  parseAuditTimestamp,
+} from './auditParser';
+
+/**
+ * AI Audit Trail Parser
+ *
+ * Lets a language model parse an audit trail a chunk of rows at a time,
+ * with the header row repeated in every prompt. The model only extracts
+ * entries; counts, most active users and the time range are computed
+ * locally with generateAuditSummary and never taken from the model.
+ */
+
+/**
+ * System instruction sent with every request
+ */
+const SYSTEM_PROMPT = 'You are a universal audit trail parser. Respond only with valid JSON, no markdown formatting.';
+
+/**
+ * Categories the model may assign
+ */
+const AUDIT_CATEGORIES: AuditCategory[] = [
+  'file_missing',
+  'file_deleted',
+  'file_operations',
+  'security_events',
+  'system_events',
+  'other',
+];
+
+/**
+ * Schema description included in the prompt
+ */
+const AUDIT_EXTRACTION_SCHEMA = `[
+  {
+    "line": number,             // the number before the colon, copied exactly
+    "timestamp": string | null, // exact date/time text from the row
+    "user": string | null,
+    "action": string | null,
+    "resource": string | null,
+    "details": string | null,
+    "category": "${AUDIT_CATEGORIES.join('" | "')}"
   }
+]`;
+
+/**
+ * Collapse whitespace and case for loose text comparison
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
 }
 
-AUDIT TRAIL CONTENT:
-${content}
+/**
+ * Build an entry from one item of the model's reply
+ *
+ * The item must name a row in the chunk, and its timestamp and action must
+ * appear in that row, which catches items shifted onto a neighbouring row.
+ *
+ * @param value - Item from the parsed reply
+ * @param rows - Data rows of the file
+ * @param chunk - Row range the reply describes
+ * @returns The entry, or a description of what is wrong
+ */
+function toAuditEntry(value: unknown, rows: string[], chunk: { start: number; end: number }): AuditEntry | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'item is not an object';
+  }
+
+  const item = value as Record<string, unknown>;
+  const line = typeof item.line === 'string' ? Number(item.line) : item.line;
+  if (typeof line !== 'number' || !Number.isInteger(line) || line < chunk.start || line >= chunk.end) {
+    return `line ${String(item.line)} is not in this chunk`;
+  }
+
+  const text = (field: string) => {
+    const fieldValue = item[field];
+    return typeof fieldValue === 'string' || typeof fieldValue === 'number' ? String(fieldValue).trim() : '';
+  };
+
+  const row = normalizeText(rows[line]);
+  const timestampText = text('timestamp');
+  const action = text('action');
+  if (timestampText && !row.includes(normalizeText(timestampText))) {
+    return `line ${line}: timestamp "${timestampText}" is not in the row`;
+  }
+  if (action && !row.includes(normalizeText(action))) {
+    return `line ${line}: action "${action}" is not in the row`;
+  }
 
-Return ONLY the JSON object, no markdown, no explanations.`;
+  const category = text('category') as AuditCategory;
+
+  return {
+    id: `audit-${line}`,
+    timestamp: timestampText ? parseAuditTimestamp(timestampText) : null,
+    user: text('user') || 'Unknown',
+    action: action || 'Unknown Action',
+    resource: text('resource'),
+    details: text('details'),
+    category: AUDIT_CATEGORIES.includes(category) ? category : categorizeAction(action),
+    raw: rows[line],
+  };
+}
+
+/**
+ * Parse an audit trail with a language model
+ *
+ * Rows the model skips or describes wrongly, and whole chunks that fail,
+ * are parsed locally with the CSV parser instead.
+ *
+ * @param content - Raw audit trail content, header row first
+ * @param client - Language model client
+ * @returns Entries newest first and their locally computed summary
+ */
+export async function parseAuditTrailWithAI(content: string, client: LlmClient): Promise<{ entries: AuditEntry[], summary: AuditSummary }> {
+  const lines = content.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+  if (lines.length < 2) {
+    throw new Error('No audit entries found in file');
+  }
 
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+  const headerRow = lines[0];
+  const headers = parseAuditCSVRow(headerRow);
+  const rows = lines.slice(1);
+  const chunks = chunkLines(rows);
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No valid JSON found in AI response');
+  console.log(`Processing ${rows.length} audit rows in ${chunks.length} chunk(s) with ${client.model}...`);
+
+  const entries: AuditEntry[] = [];
+  let fallbackCount = 0;
+  let failedChunks = 0;
+
+  for (const [chunkIndex, chunk] of chunks.entries()) {
+    const prompt = `Parse these audit trail rows. The header row names the columns; each data row starts with its line number and a colon.
+
+Header:
+${headerRow}
+
+Rows:
+${formatNumberedLines(rows, chunk)}
+
+For EACH row, return:
+- line (the line number, copied exactly; never renumber, skip or merge rows)
+- timestamp (exact date/time text from the row, or null)
+- user (who performed the action)
+- action (the action type, e.g. "File Deleted", "User Login", copied from the row)
+- resource (the file or component affected)
+- details (any other useful text from the row)
+- category:
+  - file_missing: files that are missing or cannot be found
+  - file_deleted: files that were explicitly deleted
+  - file_operations: general file operations (create, modify, move, copy)
+  - security_events: authentication, authorization and access control
+  - system_events: system-level operations
+  - other: anything else
+
+Respond with ONLY a JSON array (no markdown, no code blocks) matching this schema, one object per row:
+${AUDIT_EXTRACTION_SCHEMA}`;
+
+    const accepted = new Map<number, AuditEntry>();
+    try {
+      const responseText = await client.complete({ prompt, system: SYSTEM_PROMPT, temperature: 0.1 });
+      const parsed: unknown = JSON.parse(stripJsonFences(responseText));
+
+      // Some models wrap the array in an object despite the instructions
+      const items = Array.isArray(parsed)
+        ? parsed
+        : parsed && typeof parsed === 'object'
+          ? Object.values(parsed).find(Array.isArray)
+          : undefined;
+      if (!items) {
+        throw new Error('reply is not a JSON array');
+      }
+
+      const errors: string[] = [];
+      for (const item of items) {
+        const entry = toAuditEntry(item, rows, chunk);
+        if (typeof entry === 'string') {
+          errors.push(entry);
+        } else if (accepted.has(Number(item.line))) {
+          errors.push(`line ${item.line} appears more than once`);
+        } else {
+          accepted.set(Number(item.line), entry);
+        }
+      }
+      if (errors.length > 0) {
+        console.warn(`Rejected ${errors.length} AI result(s) in chunk ${chunkIndex + 1}:`, errors);
+      }
+
+      console.log(`Processed chunk ${chunkIndex + 1}/${chunks.length}`);
+    } catch (error) {
+      console.error(`Error processing chunk ${chunkIndex + 1}, parsing it locally:`, error);
+      failedChunks++;
+    }
+
+    for (let rowIndex = chunk.start; rowIndex < chunk.end; rowIndex++) {
+      const entry = accepted.get(rowIndex) ?? parseAuditDataRow(rows[rowIndex], headers, rowIndex);
+      if (!accepted.has(rowIndex)) fallbackCount++;
+      if (entry) entries.push(entry);
     }
+  }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    const entries: AuditEntry[] = parsed.entries.map((entry: any, index: number) => ({
-      id: `audit-${index}`,
-      timestamp: entry.timestamp ? new Date(entry.timestamp) : null,
-      user: entry.user || 'Unknown',
-      action: entry.action || 'Unknown Action',
-      resource: entry.resource || '',
-      details: entry.details || '',
-      category: entry.category || 'other',
-    }));
-
-    const summary: AuditSummary = {
-      totalEntries: parsed.statistics.totalEntries || entries.length,
-      fileMissingCount: parsed.statistics.fileMissingCount || 0,
-      fileDeletedCount: parsed.statistics.fileDeletedCount || 0,
-      fileOperationsCount: parsed.statistics.fileOperationsCount || 0,
-      securityEventsCount: parsed.statistics.securityEventsCount || 0,
-      systemEventsCount: parsed.statistics.systemEventsCount || 0,
-      mostActiveUsers: parsed.statistics.mostActiveUsers || [],
-      mostAffectedResources: parsed.statistics.mostAffectedResources || [],
-      timeRange: {
-        start: parsed.statistics.timeRange?.start ? new Date(parsed.statistics.timeRange.start) : new Date(),
-        end: parsed.statistics.timeRange?.end ? new Date(parsed.statistics.timeRange.end) : new Date(),
-      },
-    };
-
-    return { entries, summary };
-  } catch (error) {
-    console.error('AI parsing error:', error);
-    throw new Error(`Failed to parse audit trail with AI: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  if (failedChunks === chunks.length) {
+    throw new Error(`Failed to parse audit trail with AI: every request to ${client.model} failed`);
   }
+  if (fallbackCount > 0) {
+    console.warn(`${fallbackCount} of ${rows.length} rows were parsed locally because the AI result was missing or invalid`);
+  }
+
+  // Newest first, as the CSV parser returns them
+  entries.sort((a, b) => {
+    if (!a.timestamp && !b.timestamp) return 0;
+    if (!a.timestamp) return 1;
+    if (!b.timestamp) return -1;
+
+    return b.timestamp.getTime() - a.timestamp.getTime();
+  });
+
+  return { entries, summary: generateAuditSummary(entries) };
 }
@@ -0,0 +1,163 @@
+/**
+ * AI Result Cache
+ *
+ * Keeps the model's replies for each batch of log lines in IndexedDB, so
+ * analysing the same file again, or a log that has since grown by appended
+ * lines, reuses earlier extractions instead of paying for every request
+ * again.
+ *
+ * Entries are keyed by a SHA-256 hash of the prompt version, the model and
+ * the batch exactly as sent. The stored reply is the one the model returned,
+ * still redacted, so no value hidden by redaction is written to browser
+ * storage. Bumping a parser's prompt version makes its old entries unused.
+ */
+
+/**
+ * IndexedDB database holding the cache
+ */
+const AI_CACHE_DB_NAME = 'logAnalyzerAiCache';
+
+/**
+ * Object store holding cached replies
+ */
+const AI_CACHE_STORE = 'replies';
+
+/**
+ * Age after which a cached reply is discarded
+ */
+const AI_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Cached reply as stored in IndexedDB
+ */
+interface AiCacheRecord {
+  /** SHA-256 hash of the cache key parts */
+  key: string;
+
+  /** Model reply parsed from JSON, before re-hydration */
+  reply: unknown;
+
+  /** When the reply was stored (epoch milliseconds) */
+  createdAt: number;
+}
+
+/**
+ * Open database, shared by every read and write
+ * Resolves to null when IndexedDB is unavailable, e.g. in some private windows
+ */
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open the cache database, creating it on first use
+ *
+ * @returns The database, or null if IndexedDB cannot be used
+ */
+function openAiCache(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(AI_CACHE_DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(AI_CACHE_STORE, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('AI result cache unavailable:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('AI result cache unavailable:', error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Wait for an IndexedDB request to finish
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Hash the parts of a cache key
+ *
+ * @param parts - Prompt version, model and batch text, in that order
+ * @returns Hex-encoded SHA-256 digest, or null where Web Crypto is unavailable (plain http)
+ */
+export async function computeAiCacheKey(...parts: string[]): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  const data = new TextEncoder().encode(parts.join('\u0000'));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Look up a cached reply
+ *
+ * @param key - Hash from computeAiCacheKey; null never matches
+ * @returns The reply, or undefined if none is cached, it expired or the cache is unavailable
+ */
+export async function readAiCache(key: string | null): Promise<unknown | undefined> {
+  if (!key) return undefined;
+
+  const db = await openAiCache();
+  if (!db) return undefined;
+
+  try {
+    const store = db.transaction(AI_CACHE_STORE, 'readwrite').objectStore(AI_CACHE_STORE);
+    const record = await requestToPromise<AiCacheRecord | undefined>(store.get(key));
+    if (!record) return undefined;
+
+    if (Date.now() - record.createdAt > AI_CACHE_MAX_AGE_MS) {
+      store.delete(key);
+      return undefined;
+    }
+    return record.reply;
+  } catch (error) {
+    console.warn('Failed to read AI result cache:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Store a reply
+ * Failures are logged and otherwise ignored; the cache is only an optimization
+ *
+ * @param key - Hash from computeAiCacheKey; null stores nothing
+ * @param reply - Model reply parsed from JSON, before re-hydration
+ */
+export async function writeAiCache(key: string | null, reply: unknown): Promise<void> {
+  if (!key) return;
+
+  const db = await openAiCache();
+  if (!db) return;
+
+  try {
+    const record: AiCacheRecord = { key, reply, createdAt: Date.now() };
+    await requestToPromise(db.transaction(AI_CACHE_STORE, 'readwrite').objectStore(AI_CACHE_STORE).put(record));
+  } catch (error) {
+    console.warn('Failed to write AI result cache:', error);
+  }
+}
+
+/**
+ * Remove every cached reply
+ */
+export async function clearAiCache(): Promise<void> {
+  const db = await openAiCache();
+  if (!db) return;
+
+  await requestToPromise(db.transaction(AI_CACHE_STORE, 'readwrite').objectStore(AI_CACHE_STORE).clear());
+}
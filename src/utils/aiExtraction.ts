@@ -0,0 +1,485 @@
+import { LogEntry, LogParseOptions } from '../types/log';
+import { LOCAL_TIMEZONE, computeTimestampWindow, resolveUtcOffset, wallClockToInstant } from './timestampUtils';
+import { buildDateWithYear, createYearTracker, inferStartYear, parseYearlessTimestamp } from './yearInference';
+import { detectLogFormat } from './logFormats';
+import { isContinuationLine, parseLogLine, parseLogLineWithFormat, parseTimestampStrict } from './logParser';
+
+/**
+ * AI Extraction Helpers
+ *
+ * Shared by the hybrid and full AI log parsers: splitting lines into
+ * prompt-sized chunks, validating the model's replies and turning accepted
+ * results, or local parses of the lines it missed, into log entries.
+ *
+ * Every reply is checked before any of it is trusted. The prompt asks the
+ * model to echo each line's number, so results are matched to lines by that
+ * number rather than by position:
+ * a skipped or merged line then only affects itself, not every line after
+ * it. Items that do not match the schema, name a line outside the batch, or
+ * do not resemble the line they claim to describe are rejected so the caller
+ * can fall back to local parsing for those lines.
+ */
+
+/**
+ * One line's fields as extracted by the model
+ */
+export interface AIExtractionResult {
+  /** Line number echoed from the prompt */
+  line: number;
+
+  /** Timestamp text as it appears in the line */
+  timestamp: string | null;
+
+  /** Thread or process ID */
+  threadId: string | null;
+
+  /** Log level as written or inferred */
+  level: string | null;
+
+  /** Log message without timestamp, level and thread */
+  message: string;
+}
+
+/**
+ * Validated extraction results for one batch
+ */
+export interface AIExtractionBatch {
+  /** Accepted results by line number */
+  results: Map<number, AIExtractionResult>;
+
+  /** Why items were rejected, for logging */
+  errors: string[];
+}
+
+/**
+ * Schema description included in the extraction prompt
+ */
+export const AI_EXTRACTION_SCHEMA = `[
+  {
+    "line": number,            // the number before the colon, copied exactly
+    "timestamp": string | null, // exact timestamp text from the line
+    "threadId": string | null,
+    "level": "ERROR" | "WARN" | "INFO" | "DEBUG" | "TRACE" | null,
+    "message": string
+  }
+]`;
+
+/**
+ * Characters of the message compared against the raw line
+ */
+const MESSAGE_CHECK_LENGTH = 40;
+
+/**
+ * Most characters of log text sent in one prompt
+ * Keeps each prompt, and the JSON reply describing it, well inside the
+ * context and output limits of the supported models
+ */
+export const AI_CHUNK_MAX_CHARS = 12000;
+
+/**
+ * Most lines sent in one prompt
+ */
+export const AI_CHUNK_MAX_LINES = 150;
+
+/**
+ * Range of line indexes sent in one prompt, end exclusive
+ */
+export interface LineChunk {
+  start: number;
+  end: number;
+}
+
+/**
+ * Split lines into prompt-sized chunks without breaking any line
+ *
+ * @param lines - Lines as they will be sent
+ * @param maxChars - Most characters per chunk; a longer single line gets its own chunk
+ * @param maxLines - Most lines per chunk
+ * @returns Consecutive chunks covering every line
+ */
+export function chunkLines(
+  lines: string[],
+  maxChars: number = AI_CHUNK_MAX_CHARS,
+  maxLines: number = AI_CHUNK_MAX_LINES
+): LineChunk[] {
+  const chunks: LineChunk[] = [];
+  let start = 0;
+  let chars = 0;
+
+  lines.forEach((line, index) => {
+    const full = index - start >= maxLines || (chars + line.length > maxChars && index > start);
+    if (full) {
+      chunks.push({ start, end: index });
+      start = index;
+      chars = 0;
+    }
+    chars += line.length + 1;
+  });
+
+  if (start < lines.length) {
+    chunks.push({ start, end: lines.length });
+  }
+  return chunks;
+}
+
+/**
+ * Number each line of a chunk for the prompt
+ *
+ * @param lines - Lines as they will be sent
+ * @param chunk - Range to number
+ * @returns Lines prefixed with their index and a colon
+ */
+export function formatNumberedLines(lines: string[], { start, end }: LineChunk): string {
+  return lines
+    .slice(start, end)
+    .map((line, offset) => `${start + offset}: ${line}`)
+    .join('\n');
+}
+
+/**
+ * Remove markdown code fences a model may wrap around JSON
+ *
+ * @param text - Model reply
+ * @returns Reply without fences
+ */
+export function stripJsonFences(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+}
+
+/**
+ * Collapse whitespace and case for loose text comparison
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Check one item against the schema
+ *
+ * @param value - Item from the parsed reply
+ * @returns The typed item, or a description of what is wrong
+ */
+function validateItem(value: unknown): AIExtractionResult | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'item is not an object';
+  }
+
+  const item = value as Record<string, unknown>;
+  const line = typeof item.line === 'string' ? Number(item.line) : item.line;
+  if (typeof line !== 'number' || !Number.isInteger(line)) {
+    return 'missing or non-integer "line"';
+  }
+
+  for (const field of ['timestamp', 'threadId', 'level'] as const) {
+    const fieldValue = item[field];
+    if (fieldValue !== undefined && fieldValue !== null && typeof fieldValue !== 'string' && typeof fieldValue !== 'number') {
+      return `line ${line}: "${field}" must be a string or null`;
+    }
+  }
+  if (typeof item.message !== 'string') {
+    return `line ${line}: "message" must be a string`;
+  }
+
+  const optionalText = (fieldValue: unknown) =>
+    fieldValue === undefined || fieldValue === null || fieldValue === '' ? null : String(fieldValue);
+
+  return {
+    line,
+    timestamp: optionalText(item.timestamp),
+    threadId: optionalText(item.threadId),
+    level: optionalText(item.level),
+    message: item.message,
+  };
+}
+
+/**
+ * Check that an item plausibly describes the line it names
+ * The timestamp must appear in the line and the start of the message too,
+ * which catches results shifted onto a neighbouring line
+ *
+ * @param item - Schema-valid item
+ * @param rawLine - Original text of the named line
+ * @returns Null if plausible, or the reason it is not
+ */
+function checkAgainstLine(item: AIExtractionResult, rawLine: string): string | null {
+  const line = normalizeText(rawLine);
+
+  if (item.timestamp && !line.includes(normalizeText(item.timestamp))) {
+    return `line ${item.line}: timestamp "${item.timestamp}" is not in the line`;
+  }
+
+  const messageStart = normalizeText(item.message).slice(0, MESSAGE_CHECK_LENGTH);
+  if (messageStart && !line.includes(messageStart)) {
+    return `line ${item.line}: message does not match the line`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate a model's extraction reply for one batch
+ *
+ * @param value - Reply already parsed from JSON (after any re-hydration)
+ * @param lineText - Original text of each line in the batch, by line number
+ * @returns Accepted results by line number and the rejection reasons
+ */
+export function validateExtractionBatch(value: unknown, lineText: Map<number, string>): AIExtractionBatch {
+  const results = new Map<number, AIExtractionResult>();
+  const errors: string[] = [];
+
+  // Some models wrap the array in an object despite the instructions
+  const items = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object'
+      ? Object.values(value).find(Array.isArray)
+      : undefined;
+
+  if (!items) {
+    return { results, errors: ['reply is not a JSON array'] };
+  }
+
+  for (const rawItem of items) {
+    const item = validateItem(rawItem);
+    if (typeof item === 'string') {
+      errors.push(item);
+      continue;
+    }
+
+    const rawLine = lineText.get(item.line);
+    if (rawLine === undefined) {
+      errors.push(`line ${item.line} is not in this batch`);
+      continue;
+    }
+    if (results.has(item.line)) {
+      errors.push(`line ${item.line} appears more than once`);
+      continue;
+    }
+
+    const mismatch = checkAgainstLine(item, rawLine);
+    if (mismatch) {
+      errors.push(mismatch);
+      continue;
+    }
+
+    results.set(item.line, item);
+  }
+
+  return { results, errors };
+}
+
+// ============================================================================
+// ENTRY CONSTRUCTION
+// ============================================================================
+
+/**
+ * Lines parsed locally, spread evenly over the file, to find the window
+ * the model's timestamps must fall in
+ */
+const WINDOW_SAMPLE_LINES = 1000;
+
+/**
+ * Parse timestamp text extracted by the model
+ *
+ * Only the formats the local parser accepts are read, never a loose
+ * `new Date()` that turns "12" or "1/2" into a date decades away. Wall-clock
+ * readings are interpreted in the source timezone.
+ *
+ * @param str - Timestamp text as it appears in the line
+ * @param timeZone - Source timezone for timestamps without an offset
+ * @param inferredYear - Year inferred for the line, for yearless timestamps
+ * @param window - Plausible time window of the file, if known
+ * @returns Parsed Date, or null if the text is not a timestamp or lies
+ *   outside the window
+ */
+export function parseExtractedTimestamp(
+  str: string,
+  timeZone: string,
+  inferredYear?: number,
+  window?: { start: Date; end: Date } | null
+): Date | null {
+  if (!str) return null;
+
+  let date: Date | null;
+  const yearless = parseYearlessTimestamp(str);
+  if (yearless) {
+    // Yearless timestamps need an inferred year rather than a guessed one
+    const localDate = inferredYear !== undefined ? buildDateWithYear(yearless, inferredYear) : null;
+    date = localDate ? wallClockToInstant(localDate, timeZone) : null;
+  } else {
+    // Comma milliseconds (log4j style) are read like dot milliseconds
+    date = parseTimestampStrict(str.trim().replace(/,(\d{3})$/, '.$1'), timeZone);
+  }
+
+  if (date && window && (date < window.start || date > window.end)) return null;
+  return date;
+}
+
+/**
+ * Normalize log level from AI output
+ *
+ * @param level - Level text returned by the model
+ * @returns Matching LogEntry level, INFO if none matches
+ */
+export function normalizeExtractedLevel(level: string): LogEntry['level'] {
+  const normalized = level.toUpperCase();
+
+  if (normalized.includes('ERROR') || normalized.includes('ERR') || normalized.includes('FATAL')) {
+    return 'ERROR';
+  }
+  if (normalized.includes('WARN') || normalized.includes('WARNING')) {
+    return 'WARN';
+  }
+  if (normalized.includes('INFO')) {
+    return 'INFO';
+  }
+  if (normalized.includes('DEBUG') || normalized.includes('TRACE')) {
+    return 'DEBUG';
+  }
+
+  return 'INFO';
+}
+
+/**
+ * Add continuation lines to the stack trace and raw text of an entry
+ *
+ * @param entry - Entry the lines belong to
+ * @param raw - One or more newline-separated continuation lines
+ */
+function appendContinuation(entry: LogEntry, raw: string): void {
+  entry.stackTrace = [...(entry.stackTrace || []), ...raw.split('\n')];
+  entry.raw = `${entry.raw}\n${raw}`;
+}
+
+/**
+ * Join the entries of consecutive batches in file order. A batch that
+ * starts in the middle of a stack trace has its leading continuation
+ * folded into the last entry of the batch before it.
+ *
+ * @param batches - Entries of each batch, in file order
+ * @returns All entries in file order
+ */
+export function joinBatchEntries(batches: LogEntry[][]): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const batch of batches) {
+    const [first, ...rest] = batch;
+    const previous = entries[entries.length - 1];
+    if (first && previous && isContinuationLine(first.raw.split('\n')[0])) {
+      appendContinuation(previous, first.raw);
+      entries.push(...rest);
+    } else {
+      entries.push(...batch);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Builds log entries for the lines of one file
+ */
+export interface ExtractionEntryBuilder {
+  /** Entry from a validated model result */
+  fromResult: (item: AIExtractionResult) => LogEntry;
+
+  /** Entry from the local parser, for lines the model missed */
+  parseLocally: (lineIndex: number) => LogEntry;
+
+  /**
+   * Entries of one batch of lines in file order; continuation lines join
+   * the entry above and lines without a result are parsed locally
+   */
+  buildBatch: (start: number, end: number, results: Map<number, AIExtractionResult>) => {
+    entries: LogEntry[];
+    fallbackLines: number;
+  };
+}
+
+/**
+ * Create an entry builder for a file's lines
+ *
+ * Works out the years of yearless timestamps and the local log format once
+ * for the whole file.
+ *
+ * @param lines - Original lines of the file
+ * @param options - Upload-time parse settings
+ * @returns Builder for entries by line index
+ */
+export function createExtractionEntryBuilder(lines: string[], options: LogParseOptions = {}): ExtractionEntryBuilder {
+  const timeZone = options.sourceTimezone || LOCAL_TIMEZONE;
+
+  // Years for lines stamped without one, e.g. 01-15 10:30:00
+  const yearOf = createYearTracker(inferStartYear(lines, options));
+  const inferredYears = lines.map(line => yearOf(line));
+
+  // Local parsing for lines the model misses, using the detected format if any
+  const localFormat = detectLogFormat(lines);
+  const parseLocally = (lineIndex: number): LogEntry => {
+    const line = lines[lineIndex];
+    return (localFormat && parseLogLineWithFormat(line, lineIndex, localFormat, timeZone))
+      || parseLogLine(line, lineIndex, timeZone, inferredYears[lineIndex])
+      || { id: `log-${lineIndex}`, timestamp: null, level: 'INFO', message: line, raw: line };
+  };
+
+  // Window of the timestamps the local parser finds, which the model's
+  // timestamps are checked against
+  const sampleStep = Math.max(1, Math.floor(lines.length / WINDOW_SAMPLE_LINES));
+  const sampleTimestamps: Date[] = [];
+  for (let i = 0; i < lines.length; i += sampleStep) {
+    const timestamp = parseLocally(i).timestamp;
+    if (timestamp) sampleTimestamps.push(timestamp);
+  }
+  const window = computeTimestampWindow(sampleTimestamps, options.timestampWindow);
+
+  const fromResult = (item: AIExtractionResult): LogEntry => {
+    const rawLine = lines[item.line];
+    let timestamp = item.timestamp
+      ? parseExtractedTimestamp(item.timestamp, timeZone, inferredYears[item.line], window)
+      : null;
+    let utcOffset = timestamp ? resolveUtcOffset(item.timestamp!, timestamp, timeZone) : undefined;
+
+    // A timestamp the model got wrong or left out is taken from the local parse
+    if (!timestamp) {
+      const local = parseLocally(item.line);
+      timestamp = local.timestamp;
+      utcOffset = local.utcOffset;
+    }
+
+    return {
+      id: `log-${item.line}`,
+      timestamp,
+      utcOffset,
+      threadId: item.threadId || undefined,
+      level: normalizeExtractedLevel(item.level || ''),
+      message: item.message || rawLine,
+      source: undefined,
+      raw: rawLine,
+    };
+  };
+
+  return {
+    fromResult,
+    parseLocally,
+    buildBatch: (start, end, results) => {
+      const entries: LogEntry[] = [];
+      let fallbackLines = 0;
+      let current: LogEntry | null = null;
+      for (let lineIndex = start; lineIndex < end; lineIndex++) {
+        const item = results.get(lineIndex);
+        const line = lines[lineIndex];
+
+        // Stack frames and the like belong to the entry above, as in the
+        // local parser, even when the model described them on their own
+        if (current && isContinuationLine(line)) {
+          appendContinuation(current, line);
+        } else if (item) {
+          current = fromResult(item);
+          entries.push(current);
+        } else {
+          current = parseLocally(lineIndex);
+          entries.push(current);
+          fallbackLines++;
+        }
+      }
+      return { entries, fallbackLines };
+    },
+  };
+}
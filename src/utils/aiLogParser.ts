@@ -1,105 +1,198 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { LogEntry, LogSummary } from '../types/log';
-
-export async function parseLogFileWithAI(content: string, apiKey: string): Promise<{ entries: LogEntry[], summary: LogSummary }> {
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
-
-  const prompt = `You are a universal log file parser for Bentley Systems. Analyze this log file and extract structured data.
-
-CRITICAL INSTRUCTIONS:
-1. Parse ALL log entries from the file
-2. Extract these fields for each entry (use null if not present):
-   - timestamp: ISO format date-time string (YYYY-MM-DDTHH:mm:ss.sssZ) or null
-   - threadId: Thread/Process ID if present, or null
-   - level: One of: ERROR, WARN, INFO, DEBUG, TRACE, or null
-   - message: The actual log message (cleaned up, without timestamp/level/thread)
-
-3. Generate comprehensive statistics:
-   - Total entry count
-   - Count by level (ERROR, WARN, INFO, DEBUG)
-   - List of critical errors (up to 10 most severe)
-   - Top 5 most frequent error patterns with counts
-   - Time range (earliest and latest timestamps)
-
-4. Return ONLY valid JSON in this exact format:
-{
-  "entries": [
-    {
-      "timestamp": "2025-01-15T10:30:00.000Z",
-      "threadId": "12345",
-      "level": "ERROR",
-      "message": "Connection timeout to database"
-    }
-  ],
-  "statistics": {
-    "totalEntries": 1000,
-    "errorCount": 45,
-    "warningCount": 120,
-    "infoCount": 800,
-    "debugCount": 35,
-    "criticalErrors": [
-      {"message": "Fatal error description", "timestamp": "2025-01-15T10:30:00.000Z"}
-    ],
-    "topErrors": [
-      {"message": "Error pattern", "count": 15}
-    ],
-    "timeRange": {
-      "start": "2025-01-15T10:00:00.000Z",
-      "end": "2025-01-15T12:00:00.000Z"
-    }
-  }
+import { LogEntry, LogParseOptions, LogSummary } from '../types/log';
+import { Redactor } from './redaction';
+import { AiParseHandlers, LlmClient } from '../types/llm';
+import { markTimestampOutliers } from './timestampUtils';
+import { generateLogSummary, sortLogEntriesNewestFirst } from './logParser';
+import {
+  AI_EXTRACTION_SCHEMA,
+  AIExtractionResult,
+  chunkLines,
+  createExtractionEntryBuilder,
+  formatNumberedLines,
+  joinBatchEntries,
+  stripJsonFences,
+  validateExtractionBatch,
+} from './aiExtraction';
+import { computeAiCacheKey, readAiCache, writeAiCache } from './aiCache';
+import { createAiScheduler, createBatchStatusTracker, describeBatchError, estimateRequestTokens } from './aiScheduler';
+
+/**
+ * AI Log Parser
+ *
+ * Lets a language model parse the whole file, a chunk of lines at a time,
+ * so no file is too long for one prompt. The model only extracts entries;
+ * counts, time range and top errors are computed locally from the entries
+ * with generateLogSummary and never taken from the model.
+ */
+
+/**
+ * System instruction sent with every request
+ */
+const SYSTEM_PROMPT = 'You are a universal log file parser. Respond only with valid JSON, no markdown formatting.';
+
+/**
+ * Version of the parsing prompt, part of every cache key
+ * Bump when the prompt or schema changes so earlier replies are not reused
+ */
+const PROMPT_VERSION = 'full-parse-v1';
+
+/**
+ * Build the parsing prompt for one chunk
+ *
+ * @param chunkText - Numbered lines of the chunk
+ * @returns Prompt text
+ */
+function buildParsePrompt(chunkText: string): string {
+  return `Parse these log lines into entries. Each line starts with its line number and a colon.
+
+An entry starts on a line with its own timestamp or log level. Stack trace frames, "Caused by:" lines and wrapped text belong to the entry above them: do not return objects for those lines.
+
+For EACH entry, return:
+- line (the number of the line the entry starts on, copied exactly)
+- timestamp (exact text from the line, or null if not present)
+- threadId (thread or process ID, or null)
+- level (ERROR, WARN, INFO, DEBUG, TRACE, or inferred from the message)
+- message (the message from the entry's first line, without timestamp, level and thread)
+
+Log lines:
+${chunkText}
+
+Respond with ONLY a JSON array (no markdown, no code blocks) matching this schema, one object per entry:
+${AI_EXTRACTION_SCHEMA}`;
 }
 
-LOG FILE CONTENT:
-${content}
+/**
+ * Parse a log file with a language model
+ *
+ * Each chunk's reply names the line each entry starts on. Entries are
+ * validated against those lines; lines no entry starts on are folded into
+ * the entry above when they look like stack trace frames, and otherwise
+ * parsed locally, as are whole chunks that fail.
+ *
+ * With a redactor, sensitive values in the lines are replaced by tokens
+ * before they are sent, and the extracted fields are re-hydrated locally.
+ * Replies are cached per chunk, so analysing the same lines again with the
+ * same model reuses them instead of sending the chunk again. Requests go
+ * through the AI scheduler, which limits concurrency and tokens per minute
+ * and retries rate limits and server errors before a chunk falls back.
+ *
+ * @param content - Raw log file content
+ * @param client - Language model client
+ * @param options - Upload-time parse settings such as the source timezone
+ * @param redactor - Tokenizes sensitive values before sending (optional)
+ * @param handlers - Batch status callback and abort signal (optional)
+ * @returns Entries newest first and their locally computed summary
+ */
+export async function parseLogFileWithAI(
+  content: string,
+  client: LlmClient,
+  options: LogParseOptions = {},
+  redactor?: Redactor,
+  { onBatchStatus, signal }: AiParseHandlers = {}
+): Promise<{ entries: LogEntry[], summary: LogSummary }> {
+  const lines = content.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+
+  if (lines.length === 0) {
+    throw new Error('No content found in log file');
+  }
+
+  const entryBuilder = createExtractionEntryBuilder(lines, options);
+
+  // Lines as sent to the model, with sensitive values tokenized
+  const promptLines = redactor ? lines.map(redactor.redact) : lines;
+  const chunks = chunkLines(promptLines);
+
+  console.log(`Processing ${lines.length} log lines in ${chunks.length} chunk(s) with ${client.model}...`);
+
+  const scheduler = createAiScheduler(undefined, signal);
+  const ranges = chunks.map(chunk => ({
+    ...chunk,
+    estimatedTokens: estimateRequestTokens(SYSTEM_PROMPT + buildParsePrompt(formatNumberedLines(promptLines, chunk))),
+  }));
+  const tracker = createBatchStatusTracker(ranges, onBatchStatus);
+
+  /**
+   * Parse one chunk, reusing a cached reply if there is one, and build its
+   * entries; continuation lines join the entry above and any other line
+   * without a valid result is parsed locally
+   */
+  const processChunk = async ({ start, end, estimatedTokens }: typeof ranges[number], index: number) => {
+    const chunkText = formatNumberedLines(promptLines, { start, end });
+
+    let results = new Map<number, AIExtractionResult>();
+    let cached = false;
+    let failure: unknown;
+    try {
+      // Same chunk, prompt and model as an earlier analysis: reuse its reply
+      const cacheKey = await computeAiCacheKey(PROMPT_VERSION, `${client.provider}:${client.model}`, chunkText);
+      let parsedChunk = await readAiCache(cacheKey);
+      cached = parsedChunk !== undefined;
+
+      if (!cached) {
+        const prompt = buildParsePrompt(chunkText);
+        parsedChunk = await scheduler.schedule(
+          estimatedTokens,
+          async attempt => {
+            tracker.update(index, { state: 'running', attempts: attempt });
+            const responseText = await client.complete({ prompt, system: SYSTEM_PROMPT, temperature: 0.1 });
+            return JSON.parse(stripJsonFences(responseText)) as unknown;
+          },
+          (error, delayMs) => tracker.update(index, {
+            state: 'retrying',
+            error: `${describeBatchError(error)} (retrying in ${Math.ceil(delayMs / 1000)}s)`,
+          })
+        );
+      }
 
-Return ONLY the JSON object, no markdown, no explanations.`;
+      const lineText = new Map<number, string>();
+      for (let lineIndex = start; lineIndex < end; lineIndex++) {
+        lineText.set(lineIndex, lines[lineIndex]);
+      }
 
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+      // Put real values back in place of the redaction tokens
+      const validated = validateExtractionBatch(redactor ? redactor.rehydrateValue(parsedChunk) : parsedChunk, lineText);
+      results = validated.results;
+      if (validated.errors.length > 0) {
+        console.warn(`Rejected ${validated.errors.length} AI result(s) in chunk ${index + 1}:`, validated.errors);
+      }
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No valid JSON found in AI response');
+      // Store the reply as received, still redacted; unusable replies are not kept
+      if (!cached && results.size > 0) {
+        await writeAiCache(cacheKey, parsedChunk);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Error processing chunk ${index + 1}, parsing it locally:`, error);
+      failure = error;
     }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    const entries: LogEntry[] = parsed.entries.map((entry: any, index: number) => ({
-      id: `log-${index}`,
-      timestamp: entry.timestamp ? new Date(entry.timestamp) : null,
-      threadId: entry.threadId || undefined,
-      level: entry.level || 'INFO',
-      message: entry.message || '',
-      raw: '',
-    }));
-
-    const summary: LogSummary = {
-      totalEntries: parsed.statistics.totalEntries || entries.length,
-      errorCount: parsed.statistics.errorCount || 0,
-      warningCount: parsed.statistics.warningCount || 0,
-      infoCount: parsed.statistics.infoCount || 0,
-      debugCount: parsed.statistics.debugCount || 0,
-      criticalErrors: (parsed.statistics.criticalErrors || []).map((err: any, idx: number) => ({
-        id: `critical-${idx}`,
-        timestamp: err.timestamp ? new Date(err.timestamp) : null,
-        level: 'ERROR' as const,
-        message: err.message || '',
-        raw: '',
-      })),
-      topErrors: parsed.statistics.topErrors || [],
-      timeRange: {
-        start: parsed.statistics.timeRange?.start ? new Date(parsed.statistics.timeRange.start) : new Date(),
-        end: parsed.statistics.timeRange?.end ? new Date(parsed.statistics.timeRange.end) : new Date(),
-      },
-    };
-
-    return { entries, summary };
-  } catch (error) {
-    console.error('AI parsing error:', error);
-    throw new Error(`Failed to parse log file with AI: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const { entries: chunkEntries, fallbackLines } = entryBuilder.buildBatch(start, end, results);
+    tracker.update(index, {
+      state: failure !== undefined ? 'fallback' : fallbackLines > 0 ? 'partial' : cached ? 'cached' : 'done',
+      fallbackLines,
+      error: failure !== undefined ? describeBatchError(failure) : undefined,
+    });
+    return chunkEntries;
+  };
+
+  const chunkEntries = await Promise.all(ranges.map(processChunk));
+  const entries = joinBatchEntries(chunkEntries);
+
+  if (tracker.batches.every(batch => batch.state === 'fallback')) {
+    throw new Error(`Failed to parse log file with AI: every request to ${client.model} failed`);
+  }
+  const cachedChunks = tracker.batches.filter(batch => batch.state === 'cached').length;
+  if (cachedChunks > 0) {
+    console.log(`Reused cached AI results for ${cachedChunks} of ${chunks.length} chunks`);
   }
+  const fallbackCount = tracker.batches.reduce((sum, batch) => sum + batch.fallbackLines, 0);
+  if (fallbackCount > 0) {
+    console.warn(`${fallbackCount} of ${lines.length} lines were parsed locally because the AI result was missing or invalid`);
+  }
+
+  // Flag misparsed timestamps far outside the rest of the file
+  markTimestampOutliers(entries, options.timestampWindow);
+  sortLogEntriesNewestFirst(entries);
+
+  return { entries, summary: generateLogSummary(entries) };
 }
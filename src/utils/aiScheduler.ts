@@ -0,0 +1,314 @@
+import { AiBatchStatus, AiBatchStatusCallback, LlmError } from '../types/llm';
+import { PARSE_CANCELLED_MESSAGE } from './parseWorkerClient';
+
+/**
+ * AI Request Scheduler
+ *
+ * Runs the requests of an AI parse a few at a time instead of strictly one
+ * after another, while keeping within the service's limits: at most
+ * `concurrency` requests in flight, an optional tokens-per-minute budget,
+ * and retries with exponential backoff on rate limits (429) and server
+ * errors (5xx). A Retry-After sent with a 429 pauses every queued request,
+ * not just the one that was rejected.
+ *
+ * Environment variables:
+ * - VITE_LLM_CONCURRENCY: requests in flight at once (default 2)
+ * - VITE_LLM_MAX_RETRIES: retries per request after the first attempt (default 4)
+ * - VITE_LLM_TOKENS_PER_MINUTE: estimated tokens sent per minute; unset for no limit
+ */
+
+/**
+ * Scheduler Options Interface
+ *
+ * @interface AiSchedulerOptions
+ */
+export interface AiSchedulerOptions {
+  /** Requests in flight at once */
+  concurrency: number;
+
+  /** Retries per request after the first attempt */
+  maxRetries: number;
+
+  /** Delay before the first retry, doubled for each later one */
+  baseDelayMs: number;
+
+  /** Longest delay between retries, unless Retry-After asks for more */
+  maxDelayMs: number;
+
+  /** Estimated tokens sent per rolling minute, null for no limit */
+  tokensPerMinute: number | null;
+}
+
+/**
+ * Scheduler Interface
+ *
+ * @interface AiScheduler
+ */
+export interface AiScheduler {
+  /**
+   * Run a request once a slot and token budget are free, retrying it on
+   * rate limits and server errors
+   *
+   * @param estimatedTokens - Tokens the request is expected to use
+   * @param request - Sends the request; called again for each retry
+   * @param onRetry - Called before waiting to retry (optional)
+   * @returns The request's result
+   * @throws The last error once retries run out or the error is not retryable
+   */
+  schedule: <T>(
+    estimatedTokens: number,
+    request: (attempt: number) => Promise<T>,
+    onRetry?: (error: unknown, delayMs: number) => void
+  ) => Promise<T>;
+}
+
+/**
+ * Settings used when the environment does not override them
+ */
+export const DEFAULT_AI_SCHEDULER_OPTIONS: AiSchedulerOptions = {
+  concurrency: 2,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  tokensPerMinute: null,
+};
+
+/**
+ * Length of the token budget window
+ */
+const TOKEN_WINDOW_MS = 60 * 1000;
+
+/**
+ * Average characters per token used for estimates
+ */
+const CHARS_PER_TOKEN = 4;
+
+// ============================================================================
+// CONFIGURATION AND ESTIMATES
+// ============================================================================
+
+/**
+ * Read the scheduler settings from the environment
+ *
+ * @returns Settings, with defaults for anything unset or invalid
+ */
+export function getAiSchedulerOptions(): AiSchedulerOptions {
+  const env = import.meta.env;
+  const positive = (value: string | undefined) => {
+    const number = parseInt(value ?? '', 10);
+    return number > 0 ? number : null;
+  };
+  const maxRetries = parseInt(env.VITE_LLM_MAX_RETRIES ?? '', 10);
+
+  return {
+    ...DEFAULT_AI_SCHEDULER_OPTIONS,
+    concurrency: positive(env.VITE_LLM_CONCURRENCY) ?? DEFAULT_AI_SCHEDULER_OPTIONS.concurrency,
+    maxRetries: maxRetries >= 0 ? maxRetries : DEFAULT_AI_SCHEDULER_OPTIONS.maxRetries,
+    tokensPerMinute: positive(env.VITE_LLM_TOKENS_PER_MINUTE),
+  };
+}
+
+/**
+ * Estimate the tokens one extraction request uses
+ * The reply restates every line as JSON, so it is counted as about as long
+ * as the prompt
+ *
+ * @param prompt - Prompt and system instruction as sent
+ * @returns Estimated prompt and reply tokens
+ */
+export function estimateRequestTokens(prompt: string): number {
+  return Math.ceil(prompt.length / CHARS_PER_TOKEN) * 2;
+}
+
+/**
+ * Check whether a failed request is worth retrying
+ *
+ * @param error - Error thrown by the client
+ * @returns True for rate limits, server errors and network failures
+ */
+export function isRetryableLlmError(error: unknown): boolean {
+  const { status, network } = (error ?? {}) as LlmError;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+
+  // Only failures the client marked as network errors; a TypeError from
+  // reading a malformed reply is not worth retrying
+  return network === true;
+}
+
+/**
+ * Work out how long to wait before a retry
+ *
+ * @param error - Error thrown by the client
+ * @param attempt - Attempt that failed, from 1
+ * @param options - Scheduler settings
+ * @returns Retry-After if given, otherwise exponential backoff with jitter
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: AiSchedulerOptions): number {
+  const { retryAfterMs } = (error ?? {}) as LlmError;
+  if (typeof retryAfterMs === 'number') return retryAfterMs;
+
+  const backoff = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Create a scheduler for the requests of one parse
+ *
+ * @param options - Concurrency, retry and budget settings
+ * @param signal - Aborts waiting and queued requests (optional)
+ * @returns Scheduler to run requests through
+ */
+export function createAiScheduler(
+  options: AiSchedulerOptions = getAiSchedulerOptions(),
+  signal?: AbortSignal
+): AiScheduler {
+  const waiting: { tokens: number; start: () => void; cancel: (error: Error) => void }[] = [];
+  const spent: { time: number; tokens: number }[] = [];
+  let active = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start queued requests while slots, budget and any rate-limit pause allow
+   */
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    while (waiting.length > 0 && active < options.concurrency) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        timer = setTimeout(pump, pausedUntil - now);
+        return;
+      }
+
+      while (spent.length > 0 && now - spent[0].time >= TOKEN_WINDOW_MS) {
+        spent.shift();
+      }
+
+      // A request larger than the whole budget still runs once the window is empty
+      const next = waiting[0];
+      const used = spent.reduce((sum, item) => sum + item.tokens, 0);
+      if (options.tokensPerMinute && spent.length > 0 && used + next.tokens > options.tokensPerMinute) {
+        timer = setTimeout(pump, spent[0].time + TOKEN_WINDOW_MS - now);
+        return;
+      }
+
+      waiting.shift();
+      active++;
+      spent.push({ time: now, tokens: next.tokens });
+      next.start();
+    }
+  };
+
+  /**
+   * Wait for a slot and room in the token budget
+   */
+  const acquire = (tokens: number) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(PARSE_CANCELLED_MESSAGE));
+      return;
+    }
+    waiting.push({ tokens, start: resolve, cancel: reject });
+    pump();
+  });
+
+  /**
+   * Wait before a retry, ending early if the parse is cancelled
+   */
+  const sleep = (delayMs: number) => new Promise<void>((resolve, reject) => {
+    const sleepTimer = setTimeout(resolve, delayMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(sleepTimer);
+      reject(new Error(PARSE_CANCELLED_MESSAGE));
+    }, { once: true });
+  });
+
+  signal?.addEventListener('abort', () => {
+    if (timer) clearTimeout(timer);
+    waiting.splice(0).forEach(item => item.cancel(new Error(PARSE_CANCELLED_MESSAGE)));
+  }, { once: true });
+
+  return {
+    schedule: async (estimatedTokens, request, onRetry) => {
+      for (let attempt = 1; ; attempt++) {
+        await acquire(estimatedTokens);
+
+        let failure: unknown;
+        try {
+          return await request(attempt);
+        } catch (error) {
+          failure = error;
+        } finally {
+          active--;
+          pump();
+        }
+
+        if (signal?.aborted || attempt > options.maxRetries || !isRetryableLlmError(failure)) {
+          throw failure;
+        }
+
+        const delayMs = getRetryDelay(failure, attempt, options);
+        if ((failure as LlmError).status === 429) {
+          // The service is limiting all requests, not just this one
+          pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+        }
+        onRetry?.(failure, delayMs);
+        await sleep(delayMs);
+      }
+    },
+  };
+}
+
+// ============================================================================
+// BATCH STATUS
+// ============================================================================
+
+/**
+ * Track the status of each batch of a parse and report every change
+ *
+ * @param ranges - Line range and estimated tokens of each batch, in file order
+ * @param onChange - Receives a copy of all statuses after each change (optional)
+ * @returns Statuses and a function updating one of them
+ */
+export function createBatchStatusTracker(
+  ranges: { start: number; end: number; estimatedTokens: number }[],
+  onChange?: AiBatchStatusCallback
+) {
+  const batches: AiBatchStatus[] = ranges.map(({ start, end, estimatedTokens }, index) => ({
+    index,
+    startLine: start,
+    endLine: end,
+    state: 'queued',
+    attempts: 0,
+    estimatedTokens,
+    fallbackLines: 0,
+  }));
+
+  const update = (index: number, changes: Partial<AiBatchStatus>) => {
+    batches[index] = { ...batches[index], ...changes };
+    onChange?.(batches.slice());
+  };
+
+  onChange?.(batches.slice());
+  return { batches, update };
+}
+
+/**
+ * Describe a failure for the batch status list
+ *
+ * @param error - Error thrown by the client or while reading the reply
+ * @returns Short message
+ */
+export function describeBatchError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.length > 200 ? `${message.slice(0, 200)}...` : message;
+}
@@ -0,0 +1,275 @@
+import { LogEntry } from '../types/log';
+import { LogTemplate } from './templateMiner';
+import { TIMELINE_LEVELS, TimelineBuckets, buildTimelineBuckets } from './timelineBuckets';
+
+/**
+ * Anomaly Detection
+ *
+ * Finds where something unusual happened in a log. Entries are counted per
+ * timeline interval for each level and for the most frequent error
+ * templates, and an interval is a spike when its count stands far above a
+ * rolling baseline of the intervals before it, measured in median absolute
+ * deviations so earlier spikes do not inflate the baseline. Separately, a
+ * silence is flagged wherever the log stops writing for much longer than
+ * it usually goes quiet.
+ */
+
+/**
+ * Intervals before a count that form its baseline; only intervals in which
+ * the log wrote anything count, so a silence does not pull the baseline down
+ */
+const BASELINE_WINDOW = 12;
+
+/**
+ * Intervals of history needed before spikes are looked for
+ */
+const MIN_BASELINE = 6;
+
+/**
+ * Robust z-score from which an interval counts as a spike
+ */
+const SPIKE_THRESHOLD = 3.5;
+
+/**
+ * Fewest entries above the baseline for a spike, so a quiet series going
+ * from 0 to 2 is not reported
+ */
+const MIN_SPIKE_EXCESS = 5;
+
+/**
+ * Scales the median absolute deviation to a standard deviation for
+ * normally distributed counts
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Shortest silence reported, however regularly the log writes
+ */
+const MIN_SILENCE_MS = 5 * 60 * 1000;
+
+/**
+ * Multiple of the typical gap between entries from which a gap is a silence
+ */
+const SILENCE_FACTOR = 50;
+
+/**
+ * Error templates checked for spikes, most frequent first
+ */
+const MAX_TEMPLATE_SERIES = 20;
+
+/**
+ * Anomalies returned, most severe first
+ */
+const MAX_ANOMALIES = 20;
+
+/**
+ * Something unusual in the log
+ * - spike: far more entries of a level or error template than usual
+ * - silence: no entries for far longer than usual
+ */
+export interface LogAnomaly {
+  id: string;
+  kind: 'spike' | 'silence';
+
+  /** Start of the unusual period */
+  start: Date;
+
+  /** End of the unusual period */
+  end: Date;
+
+  /** Level that spiked, for level spikes */
+  level?: LogEntry['level'];
+
+  /** Text of the error template that spiked, for template spikes */
+  template?: string;
+
+  /** Entries in the period, for spikes */
+  count?: number;
+
+  /** Entries the baseline expects in the same period, for spikes */
+  expected?: number;
+
+  /**
+   * How unusual the period is; 1 is the threshold for being reported, so
+   * spikes and silences can be ranked together
+   */
+  severity: number;
+}
+
+/**
+ * An anomaly before it is ranked and given an ID
+ */
+type FoundAnomaly = Omit<LogAnomaly, 'id'>;
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = Float64Array.from(values).sort();
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// ============================================================================
+// SPIKES
+// ============================================================================
+
+/**
+ * Find spikes in one series of interval counts
+ *
+ * Consecutive spiking intervals are reported as one spike.
+ *
+ * @param counts - Entries per interval
+ * @param buckets - Interval start and length
+ * @param activeIndexes - Intervals in which the log wrote any entry, in order
+ * @param series - What the series counts: a level or an error template
+ * @returns Spikes of the series
+ */
+function findSpikes(
+  counts: number[],
+  buckets: TimelineBuckets,
+  activeIndexes: number[],
+  series: Pick<LogAnomaly, 'level' | 'template'>
+): FoundAnomaly[] {
+  const spikes: FoundAnomaly[] = [];
+  let current: (FoundAnomaly & { count: number; expected: number }) | null = null;
+
+  activeIndexes.forEach((index, position) => {
+    const count = counts[index];
+    const history = activeIndexes
+      .slice(Math.max(0, position - BASELINE_WINDOW), position)
+      .map(previous => counts[previous]);
+    let score = 0;
+    let expected = 0;
+
+    if (history.length >= MIN_BASELINE) {
+      expected = median(history);
+      const deviation = median(history.map(value => Math.abs(value - expected)));
+      // A flat baseline has no deviation; treat one entry as the spread
+      score = (count - expected) / Math.max(MAD_SCALE * deviation, 1);
+    }
+
+    if (score >= SPIKE_THRESHOLD && count - expected >= MIN_SPIKE_EXCESS) {
+      const start = buckets.start + index * buckets.size;
+      if (current && current.end.getTime() === start) {
+        current.end = new Date(start + buckets.size);
+        current.count += count;
+        current.expected += expected;
+        current.severity = Math.max(current.severity, score / SPIKE_THRESHOLD);
+      } else {
+        current = {
+          kind: 'spike',
+          start: new Date(start),
+          end: new Date(start + buckets.size),
+          ...series,
+          count,
+          expected,
+          severity: score / SPIKE_THRESHOLD,
+        };
+        spikes.push(current);
+      }
+    } else {
+      current = null;
+    }
+  });
+
+  return spikes;
+}
+
+/**
+ * Count the errors of each of the given templates per interval, in one
+ * pass over the log
+ *
+ * @returns Entries per interval, by template ID
+ */
+function countTemplateErrors(logs: LogEntry[], templateIds: string[], buckets: TimelineBuckets): Map<string, number[]> {
+  const counts = new Map(templateIds.map(id => [id, new Array<number>(buckets.counts.ERROR.length).fill(0)]));
+  if (counts.size === 0) return counts;
+
+  logs.forEach(log => {
+    if (log.level !== 'ERROR' || !log.templateId || !log.timestamp || log.timestampOutlier) return;
+    const series = counts.get(log.templateId);
+    if (!series) return;
+    const index = Math.floor((log.timestamp.getTime() - buckets.start) / buckets.size);
+    if (index >= 0 && index < series.length) series[index]++;
+  });
+  return counts;
+}
+
+// ============================================================================
+// SILENCES
+// ============================================================================
+
+/**
+ * Find gaps where the log stopped writing
+ *
+ * @param logs - Entries newest first; other orders are sorted first
+ * @returns Silences, each from the last entry before the gap to the first after
+ */
+function findSilences(logs: LogEntry[]): FoundAnomaly[] {
+  const times: number[] = [];
+  let newestFirst = true;
+  logs.forEach(log => {
+    if (!log.timestamp || log.timestampOutlier) return;
+    const time = log.timestamp.getTime();
+    if (isNaN(time)) return;
+    if (times.length > 0 && time > times[times.length - 1]) newestFirst = false;
+    times.push(time);
+  });
+  if (times.length < 3) return [];
+
+  if (newestFirst) {
+    times.reverse();
+  } else {
+    times.sort((a, b) => a - b);
+  }
+
+  const gaps = times.slice(1).map((time, index) => time - times[index]);
+  const threshold = Math.max(MIN_SILENCE_MS, SILENCE_FACTOR * median(gaps));
+
+  return gaps
+    .map((gap, index) => ({ gap, index }))
+    .filter(({ gap }) => gap >= threshold)
+    .map(({ gap, index }) => ({
+      kind: 'silence' as const,
+      start: new Date(times[index]),
+      end: new Date(times[index + 1]),
+      severity: gap / threshold,
+    }));
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Find spikes and silences in a log
+ *
+ * @param logs - Entries newest first, with templateId set for error template spikes
+ * @param templates - Templates of the log, most frequent first
+ * @returns The most severe anomalies, most severe first
+ */
+export function detectAnomalies(logs: LogEntry[], templates: LogTemplate[] = []): LogAnomaly[] {
+  const buckets = buildTimelineBuckets(logs);
+  if (!buckets) return [];
+
+  const activeIndexes = buckets.counts.ERROR
+    .map((_, index) => index)
+    .filter(index => TIMELINE_LEVELS.some(level => buckets.counts[level][index] > 0));
+
+  const spikes = TIMELINE_LEVELS.flatMap(level => findSpikes(buckets.counts[level], buckets, activeIndexes, { level }));
+
+  const errorTemplates = templates
+    .filter(template => (template.levelCounts.ERROR ?? 0) >= MIN_SPIKE_EXCESS)
+    .sort((a, b) => (b.levelCounts.ERROR ?? 0) - (a.levelCounts.ERROR ?? 0))
+    .slice(0, MAX_TEMPLATE_SERIES);
+  const templateCounts = countTemplateErrors(logs, errorTemplates.map(template => template.id), buckets);
+  errorTemplates.forEach(template => {
+    spikes.push(...findSpikes(templateCounts.get(template.id)!, buckets, activeIndexes, { template: template.template }));
+  });
+
+  return [...spikes, ...findSilences(logs)]
+    .sort((a, b) => b.severity - a.severity)
+    .slice(0, MAX_ANOMALIES)
+    .map((anomaly, index) => ({ ...anomaly, id: `anomaly-${index + 1}` }));
+}
@@ -0,0 +1,446 @@
+import { detectJsonLogLayout } from './jsonLogParser';
+import { detectLogFormat } from './logFormats';
+import { LOG_SAMPLE_BYTES } from './logStreamParser';
+import { detectWindowsEventLog } from './windowsEventParser';
+
+/**
+ * Compressed Upload Support
+ *
+ * Opens the .zip support bundles and .gz rotated logs customers send, in
+ * the browser. Zip archives are read from their central directory, so
+ * listing the members of a large bundle only reads its tail; each member's
+ * format is detected from its first 64KB, and a member is decompressed in
+ * full only when it is loaded. Decompression uses the browser's
+ * DecompressionStream, so stored and deflated members are supported;
+ * encrypted members and other methods are listed but cannot be loaded.
+ */
+
+/**
+ * What a member holds, which decides how it is parsed
+ */
+export type ArchiveMemberKind = 'log' | 'json' | 'eventLog' | 'binary' | 'unsupported';
+
+/**
+ * A file inside an uploaded archive
+ */
+export interface ArchiveMember {
+  /** Path within the archive */
+  path: string;
+
+  /** Name the member is analysed under: its file name, without .gz */
+  name: string;
+
+  /** Decompressed size in bytes, null if the archive does not record it */
+  size: number | null;
+
+  /** Compressed size in bytes */
+  compressedSize: number;
+
+  /** Modified date from the archive, in milliseconds */
+  lastModified: number;
+
+  /** How the member would be parsed */
+  kind: ArchiveMemberKind;
+
+  /** Detected format, shown in the member list */
+  formatName: string;
+
+  /** Reads the member's decompressed bytes */
+  open: () => ReadableStream<Uint8Array>;
+}
+
+/**
+ * Extensions of archives that can be opened
+ */
+export const ARCHIVE_EXTENSIONS = ['.zip', '.gz'];
+
+/**
+ * Extensions of JSON members, matching what FileUpload accepts
+ */
+const JSON_EXTENSIONS = ['.json', '.jsonl', '.ndjson'];
+
+/**
+ * File types given to loaded members, which FileUpload reads to pick a
+ * parser when the member name has no telling extension
+ * The event log importer tells XML from CSV itself
+ */
+const MEMBER_FILE_TYPES: Record<ArchiveMemberKind, string> = {
+  log: 'text/plain',
+  json: 'application/json',
+  eventLog: 'text/xml',
+  binary: 'application/octet-stream',
+  unsupported: 'application/octet-stream',
+};
+
+/**
+ * Largest zip comment, which sits after the end of central directory record
+ */
+const MAX_ZIP_COMMENT = 0xFFFF;
+
+/**
+ * Zip record signatures
+ */
+const SIGNATURES = {
+  endOfDirectory: 0x06054b50,
+  zip64Locator: 0x07064b50,
+  zip64EndOfDirectory: 0x06064b50,
+  directoryEntry: 0x02014b50,
+  localHeader: 0x04034b50,
+};
+
+/**
+ * Members left out of the list: folders and macOS metadata
+ */
+const IGNORED_MEMBER = /(^|\/)(__MACOSX\/|\.DS_Store$)|\/$/;
+
+/**
+ * Check whether an upload is an archive this module can open
+ *
+ * @param name - File name
+ */
+export function isArchiveFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+/**
+ * List the members of an archive
+ *
+ * @param file - Uploaded .zip or .gz file
+ * @returns Members in archive order, with detected formats
+ * @throws Error if the file is not a readable archive
+ */
+export async function readArchiveMembers(file: File): Promise<ArchiveMember[]> {
+  const members = file.name.toLowerCase().endsWith('.zip')
+    ? await readZipDirectory(file)
+    : [await readGzipMember(file)];
+
+  // Formats are detected one member at a time to keep memory flat
+  for (const member of members) {
+    if (member.kind === 'unsupported') continue;
+    Object.assign(member, await detectMemberFormat(member));
+  }
+  return members;
+}
+
+/**
+ * Decompress a member into a File that can be analysed like an upload
+ *
+ * The file type tells FileUpload how to parse members whose names have no
+ * log extension, such as app.log.1.
+ *
+ * @param member - Member to load
+ * @returns Decompressed file named after the member
+ */
+export async function extractArchiveMember(member: ArchiveMember): Promise<File> {
+  const blob = await new Response(member.open()).blob();
+  return new File([blob], member.name, {
+    type: MEMBER_FILE_TYPES[member.kind],
+    lastModified: member.lastModified,
+  });
+}
+
+// ============================================================================
+// ZIP ARCHIVES
+// ============================================================================
+
+/**
+ * Read a byte range of a file
+ */
+async function readBytes(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Read a 64-bit little-endian size or offset as a number
+ */
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * Convert an MS-DOS date and time, in local time, to milliseconds
+ */
+function fromDosDateTime(date: number, time: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0F) - 1,
+    date & 0x1F,
+    time >> 11,
+    (time >> 5) & 0x3F,
+    (time & 0x1F) * 2
+  ).getTime();
+}
+
+/**
+ * Find the central directory of a zip file
+ *
+ * @param file - Zip file
+ * @returns Offset and size of the central directory, and its entry count
+ */
+async function findZipDirectory(file: File): Promise<{ offset: number; size: number; count: number }> {
+  const tailStart = Math.max(0, file.size - (22 + MAX_ZIP_COMMENT));
+  const tail = await readBytes(file, tailStart, file.size);
+
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === SIGNATURES.endOfDirectory) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a zip archive, or the archive is incomplete');
+
+  const directory = {
+    count: tail.getUint16(end + 10, true),
+    size: tail.getUint32(end + 12, true),
+    offset: tail.getUint32(end + 16, true),
+  };
+
+  // Archives over 4GB or 65535 entries keep the real values in a ZIP64 record
+  const locator = end - 20;
+  if (locator >= 0 && tail.getUint32(locator, true) === SIGNATURES.zip64Locator) {
+    const recordOffset = readUint64(tail, locator + 8);
+    const record = await readBytes(file, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) === SIGNATURES.zip64EndOfDirectory) {
+      directory.count = readUint64(record, 32);
+      directory.size = readUint64(record, 40);
+      directory.offset = readUint64(record, 48);
+    }
+  }
+
+  return directory;
+}
+
+/**
+ * List the members of a zip file from its central directory
+ *
+ * @param file - Zip file
+ * @returns Members, with formats not yet detected
+ */
+async function readZipDirectory(file: File): Promise<ArchiveMember[]> {
+  const directory = await findZipDirectory(file);
+  const view = await readBytes(file, directory.offset, directory.offset + directory.size);
+  const decoder = new TextDecoder();
+  const members: ArchiveMember[] = [];
+
+  let position = 0;
+  for (let i = 0; i < directory.count && position + 46 <= view.byteLength; i++) {
+    const entry = position;
+    if (view.getUint32(entry, true) !== SIGNATURES.directoryEntry) {
+      throw new Error('The zip archive directory is damaged');
+    }
+
+    const flags = view.getUint16(entry + 8, true);
+    const method = view.getUint16(entry + 10, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const extraLength = view.getUint16(entry + 30, true);
+    const commentLength = view.getUint16(entry + 32, true);
+    const path = decoder.decode(new Uint8Array(view.buffer, entry + 46, nameLength));
+    const sizes = {
+      size: view.getUint32(entry + 24, true),
+      compressedSize: view.getUint32(entry + 20, true),
+      headerOffset: view.getUint32(entry + 42, true),
+    };
+
+    // Values too large for 32 bits are in the ZIP64 extra field, in this order
+    let extra = entry + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = view.getUint16(extra, true);
+      const length = view.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        (['size', 'compressedSize', 'headerOffset'] as const).forEach(key => {
+          if (sizes[key] === 0xFFFFFFFF && field + 8 <= extra + 4 + length) {
+            sizes[key] = readUint64(view, field);
+            field += 8;
+          }
+        });
+      }
+      extra += 4 + length;
+    }
+
+    position = extraEnd + commentLength;
+    if (IGNORED_MEMBER.test(path)) continue;
+
+    // Rotated logs are often gzipped inside the bundle
+    const nestedGzip = path.toLowerCase().endsWith('.gz');
+    const encrypted = (flags & 0x1) !== 0;
+    const supported = !encrypted && (method === 0 || method === 8);
+
+    members.push({
+      path,
+      name: path.split('/').pop()!.replace(/\.gz$/i, ''),
+      size: nestedGzip ? null : sizes.size,
+      compressedSize: sizes.compressedSize,
+      lastModified: fromDosDateTime(view.getUint16(entry + 14, true), view.getUint16(entry + 12, true)),
+      kind: supported ? 'log' : 'unsupported',
+      formatName: encrypted ? 'Encrypted' : supported ? '' : `Unsupported compression (method ${method})`,
+      open: () => {
+        const stream = openZipMember(file, sizes.headerOffset, sizes.compressedSize, method);
+        return nestedGzip ? stream.pipeThrough(new DecompressionStream('gzip')) : stream;
+      },
+    });
+  }
+
+  return members;
+}
+
+/**
+ * Open the data of a zip member
+ *
+ * The local header is read lazily because its name and extra field lengths
+ * can differ from the central directory's.
+ *
+ * @param file - Zip file
+ * @param headerOffset - Offset of the member's local header
+ * @param compressedSize - Size of the stored data
+ * @param method - Compression method: 0 stored, 8 deflated
+ * @returns Stream of the member's bytes
+ */
+function openZipMember(file: File, headerOffset: number, compressedSize: number, method: number): ReadableStream<Uint8Array> {
+  const data = (async () => {
+    const header = await readBytes(file, headerOffset, headerOffset + 30);
+    if (header.getUint32(0, true) !== SIGNATURES.localHeader) {
+      throw new Error('The zip archive member is damaged');
+    }
+    const start = headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    return file.slice(start, start + compressedSize);
+  })();
+
+  // Pulled chunk by chunk, so sampling a member only reads its start
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  const stored = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      reader ??= (await data).stream().getReader();
+      const chunk = await reader.read();
+      if (chunk.done) {
+        controller.close();
+      } else {
+        controller.enqueue(chunk.value);
+      }
+    },
+    cancel: () => reader?.cancel(),
+  });
+
+  return method === 8 ? stored.pipeThrough(new DecompressionStream('deflate-raw')) : stored;
+}
+
+// ============================================================================
+// GZIP FILES
+// ============================================================================
+
+/**
+ * Describe a gzip file as a single member
+ *
+ * @param file - .gz file
+ * @returns The compressed file, named from its header when it has one
+ */
+async function readGzipMember(file: File): Promise<ArchiveMember> {
+  const header = await readBytes(file, 0, Math.min(file.size, 1024));
+  if (header.byteLength < 18 || header.getUint16(0) !== 0x1F8B) {
+    throw new Error('Not a gzip file');
+  }
+
+  // The original name follows the optional extra field when flag 0x08 is set
+  let name = file.name.replace(/\.gz$/i, '');
+  const flags = header.getUint8(3);
+  if (flags & 0x08) {
+    let position = 10 + (flags & 0x04 ? 2 + header.getUint16(10, true) : 0);
+    let stored = '';
+    while (position < header.byteLength && header.getUint8(position) !== 0) {
+      stored += String.fromCharCode(header.getUint8(position++));
+    }
+    if (stored) name = stored.split(/[\\/]/).pop()!;
+  }
+
+  // The trailer holds the size modulo 4GB, so it is only trusted below that
+  const trailer = await readBytes(file, file.size - 4, file.size);
+  const size = trailer.getUint32(0, true);
+
+  return {
+    path: name,
+    name,
+    size: size >= file.size ? size : null,
+    compressedSize: file.size,
+    lastModified: file.lastModified,
+    kind: 'log',
+    formatName: '',
+    open: () => file.stream().pipeThrough(new DecompressionStream('gzip')),
+  };
+}
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Read the start of a member without decompressing all of it
+ *
+ * @param member - Member to sample
+ * @returns Up to 64KB of text, and whether the member is longer
+ */
+async function readMemberSample(member: ArchiveMember): Promise<{ text: string; truncated: boolean; binary: boolean }> {
+  const reader = member.open().getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let truncated = false;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(chunk.value);
+    length += chunk.value.length;
+    if (length >= LOG_SAMPLE_BYTES) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(Math.min(length, LOG_SAMPLE_BYTES));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+
+  return {
+    text: new TextDecoder().decode(bytes),
+    truncated,
+    binary: bytes.includes(0),
+  };
+}
+
+/**
+ * Detect how a member would be parsed
+ *
+ * @param member - Member to examine
+ * @returns Kind and format name for the member list
+ */
+async function detectMemberFormat(member: ArchiveMember): Promise<Pick<ArchiveMember, 'kind' | 'formatName'>> {
+  let sample: Awaited<ReturnType<typeof readMemberSample>>;
+  try {
+    sample = await readMemberSample(member);
+  } catch {
+    return { kind: 'unsupported', formatName: 'Could not be decompressed' };
+  }
+
+  if (sample.binary) return { kind: 'binary', formatName: 'Binary' };
+  if (!sample.text.trim()) return { kind: 'log', formatName: 'Empty' };
+
+  const name = member.name.toLowerCase();
+  const jsonLayout = detectJsonLogLayout(sample.text);
+  if (jsonLayout === 'ndjson' || (jsonLayout && JSON_EXTENSIONS.some(extension => name.endsWith(extension)))) {
+    return { kind: 'json', formatName: jsonLayout === 'ndjson' ? 'JSON Lines' : 'JSON' };
+  }
+
+  const eventLog = detectWindowsEventLog(sample.text);
+  if (eventLog) {
+    return { kind: 'eventLog', formatName: `Windows Event Log (${eventLog.toUpperCase()})` };
+  }
+
+  const lines = sample.text.split('\n').map(line => line.replace(/\r$/, ''));
+  if (sample.truncated) lines.pop();
+  return { kind: 'log', formatName: detectLogFormat(lines)?.name ?? 'Plain text' };
+}
@@ -1,4 +1,5 @@
 import { AuditEntry, AuditSummary, AuditCategory, CategorizedAuditEntries } from '../types/audit';
+import { ParseProgressCallback } from '../types/worker';
 
 /**
  * Audit Trail Parser Utilities
@@ -16,6 +17,11 @@ import { AuditEntry, AuditSummary, AuditCategory, CategorizedAuditEntries } from
  * No audit data is ever transmitted to external services.
  */
 
+/**
+ * Number of rows between progress updates
+ */
+const PROGRESS_INTERVAL = 5000;
+
 /**
  * Main audit trail CSV parsing function
  * 
@@ -23,9 +29,10 @@ import { AuditEntry, AuditSummary, AuditCategory, CategorizedAuditEntries } from
  * AuditEntry objects that preserve the original CSV structure.
  * 
  * @param content - Raw CSV content of the audit trail file
+ * @param onProgress - Optional callback receiving row progress updates
  * @returns Array of parsed AuditEntry objects
  */
-export function parseAuditTrailCSV(content: string): AuditEntry[] {
+export function parseAuditTrailCSV(content: string, onProgress?: ParseProgressCallback): AuditEntry[] {
   console.log('🔄 Starting audit trail CSV parsing...');
   
   const lines = content.split('\n').filter(line => line.trim());
@@ -60,6 +67,10 @@ export function parseAuditTrailCSV(content: string): AuditEntry[] {
 
   // Process each data row
   dataRows.forEach((line, index) => {
+    if (onProgress && index % PROGRESS_INTERVAL === 0) {
+      onProgress({ phase: 'parsing', processed: index, total: dataRows.length });
+    }
+
     if (line.trim()) {
       const entry = parseAuditDataRow(line, headers, index);
       if (entry) {
@@ -68,6 +79,8 @@ export function parseAuditTrailCSV(content: string): AuditEntry[] {
     }
   });
 
+  onProgress?.({ phase: 'parsing', processed: dataRows.length, total: dataRows.length });
+
   // Sort entries by timestamp (newest first)
   entries.sort((a, b) => {
     if (!a.timestamp && !b.timestamp) return 0;
@@ -97,7 +110,7 @@ export function parseAuditTrailCSV(content: string): AuditEntry[] {
  * @param row - CSV row string
  * @returns Array of parsed values
  */
-function parseAuditCSVRow(row: string): string[] {
+export function parseAuditCSVRow(row: string): string[] {
   // First try tab-separated
   if (row.includes('\t')) {
     console.log('📊 Detected tab-separated format');
@@ -165,7 +178,7 @@ function parseCSVWithQuotes(row: string): string[] {
  * @param index - Row index for unique ID generation
  * @returns Parsed AuditEntry object or null if invalid
  */
-function parseAuditDataRow(row: string, headers: string[], index: number): AuditEntry | null {
+export function parseAuditDataRow(row: string, headers: string[], index: number): AuditEntry | null {
   if (!row.trim()) return null;
   
   console.log(`🔍 Parsing row ${index}:`, row);
@@ -354,7 +367,7 @@ function parseAuditDataRow(row: string, headers: string[], index: number): Audit
  * @param str - Timestamp string to parse
  * @returns Parsed Date object or null if invalid
  */
-function parseAuditTimestamp(str: string): Date | null {
+export function parseAuditTimestamp(str: string): Date | null {
   if (!str || typeof str !== 'string') return null;
   
   const trimmed = str.trim();
@@ -401,7 +414,7 @@ function parseAuditTimestamp(str: string): Date | null {
  * @param action - Action name
  * @returns Category classification
  */
-function categorizeAction(action: string): AuditCategory {
+export function categorizeAction(action: string): AuditCategory {
   const actionLower = action.toLowerCase();
 
   // Missing file events
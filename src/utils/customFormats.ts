@@ -0,0 +1,225 @@
+import { format as formatDate, parse } from 'date-fns';
+import { LogFormatDefinition } from '../types/log';
+import { registerLogFormat, unregisterLogFormat } from './logFormats';
+
+/**
+ * Custom Log Format Storage
+ *
+ * Lets support engineers define their own log layouts for one-off customer
+ * logs. Custom formats are stored in the browser's localStorage and added to
+ * the format registry, so they take part in detection exactly like the
+ * built-in formats on every later upload.
+ *
+ * Only the format definition (pattern, timestamp format and name) is stored.
+ * No log content is ever written to browser storage.
+ */
+
+/**
+ * localStorage key holding the saved custom formats
+ */
+const CUSTOM_FORMATS_STORAGE_KEY = 'logAnalyzerCustomFormats';
+
+/**
+ * Prefix for registry ids of custom formats
+ * Keeps custom ids from colliding with built-in format ids
+ */
+const CUSTOM_FORMAT_ID_PREFIX = 'custom-';
+
+/**
+ * Named groups a custom pattern may use
+ */
+export const CUSTOM_FORMAT_GROUPS = ['timestamp', 'level', 'thread', 'source', 'message'] as const;
+
+/**
+ * Serializable custom format as stored in localStorage
+ */
+export interface CustomLogFormat {
+  /** Unique identifier for the custom format */
+  id: string;
+
+  /** Name shown in the editor and in parse messages */
+  name: string;
+
+  /** Regular expression source with named groups */
+  pattern: string;
+
+  /** date-fns format string for the timestamp group, or 'iso' */
+  timestampFormat: string;
+
+  /** When the format was last saved (ISO string) */
+  updatedAt: string;
+}
+
+// ============================================================================
+// VALIDATION AND CONVERSION
+// ============================================================================
+
+/**
+ * Compile and validate a custom pattern
+ *
+ * @param pattern - Regular expression source entered by the user
+ * @returns Compiled RegExp, or an error message describing the problem
+ */
+export function compileCustomPattern(pattern: string): { regex: RegExp } | { error: string } {
+  if (!pattern.trim()) {
+    return { error: 'Enter a regular expression' };
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    return { error: `Invalid regular expression: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  const groupNames = Array.from(pattern.matchAll(/\(\?<([A-Za-z_]\w*)>/g), match => match[1]);
+  const unknownGroups = groupNames.filter(name => !(CUSTOM_FORMAT_GROUPS as readonly string[]).includes(name));
+  if (unknownGroups.length > 0) {
+    return { error: `Unknown named group(s): ${unknownGroups.join(', ')}. Use ${CUSTOM_FORMAT_GROUPS.join(', ')}` };
+  }
+
+  if (!groupNames.includes('timestamp') && !groupNames.includes('message')) {
+    return { error: 'Pattern needs at least a timestamp or message named group' };
+  }
+
+  return { regex };
+}
+
+/**
+ * Validate a custom timestamp format
+ *
+ * date-fns throws a RangeError for common mistakes such as `YYYY` instead
+ * of `yyyy` or an unescaped `T`, so the format is checked by formatting a
+ * reference date with it and parsing the result back.
+ *
+ * @param timestampFormat - date-fns format string, 'iso', or empty for none
+ * @returns Error message describing the problem, or null if the format is usable
+ */
+export function validateTimestampFormat(timestampFormat: string): string | null {
+  const trimmed = timestampFormat.trim();
+  if (!trimmed || trimmed === 'iso') return null;
+
+  const reference = new Date(2024, 0, 15, 13, 45, 30, 123);
+  try {
+    const parsed = parse(formatDate(reference, trimmed), trimmed, reference);
+    if (isNaN(parsed.getTime())) {
+      return `Timestamp format "${trimmed}" cannot be parsed back into a date`;
+    }
+  } catch (error) {
+    // Drop date-fns' echo of the format and reference date after the advice
+    const message = error instanceof Error ? error.message.replace(/ \(in `[\s\S]*$/, '') : 'Unknown error';
+    return `Invalid timestamp format: ${message}`;
+  }
+  return null;
+}
+
+/**
+ * Convert a stored custom format into a registry definition
+ *
+ * @param format - Stored custom format
+ * @returns Format definition, or null if the stored pattern or timestamp
+ *   format is no longer valid
+ */
+export function toLogFormatDefinition(format: CustomLogFormat): LogFormatDefinition | null {
+  const compiled = compileCustomPattern(format.pattern);
+  if ('error' in compiled) {
+    console.warn(`Skipping custom format "${format.name}": ${compiled.error}`);
+    return null;
+  }
+  const timestampError = validateTimestampFormat(format.timestampFormat);
+  if (timestampError) {
+    console.warn(`Skipping custom format "${format.name}": ${timestampError}`);
+    return null;
+  }
+
+  return {
+    id: `${CUSTOM_FORMAT_ID_PREFIX}${format.id}`,
+    name: format.name,
+    description: 'User-defined custom format',
+    linePattern: compiled.regex,
+    timestampFormat: format.timestampFormat.trim() || undefined,
+  };
+}
+
+/**
+ * Check whether a registry definition comes from a saved custom format
+ *
+ * @param definition - Registered format definition
+ * @returns True for custom and learned formats, false for built-in ones
+ */
+export function isCustomFormatDefinition(definition: LogFormatDefinition): boolean {
+  return definition.id.startsWith(CUSTOM_FORMAT_ID_PREFIX);
+}
+
+// ============================================================================
+// STORAGE OPERATIONS
+// ============================================================================
+
+/**
+ * Load saved custom formats from localStorage
+ *
+ * @returns Saved custom formats (empty if none or storage is unavailable)
+ */
+export function loadCustomFormats(): CustomLogFormat[] {
+  try {
+    const stored = localStorage.getItem(CUSTOM_FORMATS_STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to load custom formats:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the full list of custom formats
+ */
+function storeCustomFormats(formats: CustomLogFormat[]): void {
+  localStorage.setItem(CUSTOM_FORMATS_STORAGE_KEY, JSON.stringify(formats));
+}
+
+/**
+ * Save a custom format and register it for parsing
+ *
+ * A format with an existing id is replaced.
+ *
+ * @param format - Custom format to save
+ */
+export function saveCustomFormat(format: CustomLogFormat): void {
+  const formats = loadCustomFormats().filter(f => f.id !== format.id);
+  storeCustomFormats([...formats, format]);
+
+  const definition = toLogFormatDefinition(format);
+  if (definition) {
+    registerLogFormat(definition);
+  }
+}
+
+/**
+ * Delete a custom format and remove it from the registry
+ *
+ * @param id - Identifier of the custom format
+ */
+export function deleteCustomFormat(id: string): void {
+  storeCustomFormats(loadCustomFormats().filter(f => f.id !== id));
+  unregisterLogFormat(`${CUSTOM_FORMAT_ID_PREFIX}${id}`);
+}
+
+/**
+ * Register all saved custom formats with the format registry
+ *
+ * Called on application start so saved formats apply to every upload, and
+ * in the parse worker with the formats passed from the main thread.
+ *
+ * @param formats - Formats to register; defaults to the saved formats
+ */
+export function registerCustomFormats(formats: CustomLogFormat[] = loadCustomFormats()): void {
+  formats.forEach(format => {
+    const definition = toLogFormatDefinition(format);
+    if (definition) {
+      registerLogFormat(definition);
+    }
+  });
+}
@@ -0,0 +1,315 @@
+import { LogFormatDefinition, LogParseOptions } from '../types/log';
+import { LlmClient } from '../types/llm';
+import { Redactor } from './redaction';
+import { stripJsonFences } from './aiExtraction';
+import { createAiScheduler, estimateRequestTokens } from './aiScheduler';
+import { detectLogFormat } from './logFormats';
+import { isContinuationLine, parseLogLineWithFormat } from './logParser';
+import { LOCAL_TIMEZONE } from './timestampUtils';
+import { LOG_SAMPLE_BYTES } from './logStreamParser';
+import {
+  CUSTOM_FORMAT_GROUPS,
+  CustomLogFormat,
+  compileCustomPattern,
+  isCustomFormatDefinition,
+  saveCustomFormat,
+  toLogFormatDefinition,
+  validateTimestampFormat,
+} from './customFormats';
+
+/**
+ * Learned Log Formats
+ *
+ * Asks a language model for a concrete format definition, a line pattern
+ * with named groups and a timestamp format, from a sample of the file. The
+ * definition is checked locally against the sample and, if it holds, saved
+ * as a custom format so the whole file is parsed locally with it: one or
+ * two requests instead of one per batch, and none at all for later uploads
+ * in the same format.
+ *
+ * Only the sample lines are sent, redacted like any other AI request. The
+ * saved format holds the pattern and name, never log content.
+ */
+
+/**
+ * Lines from the start of the file sent to the model
+ */
+export const FORMAT_LEARNING_SAMPLE_SIZE = 50;
+
+/**
+ * Share of sample lines the pattern must match, and of those the share
+ * whose timestamp must parse, for the format to be accepted
+ */
+export const MIN_LEARNED_FORMAT_MATCH_RATE = 0.9;
+
+/**
+ * Requests made before giving up; later ones include why the last failed
+ */
+const MAX_LEARNING_ATTEMPTS = 2;
+
+/**
+ * Sample lines quoted back to the model when its pattern missed them
+ */
+const MAX_FAILED_LINES_SHOWN = 5;
+
+/**
+ * System instruction sent with every request
+ */
+const SYSTEM_PROMPT = 'You are a log file format expert. Respond only with valid JSON, no markdown formatting.';
+
+/**
+ * Result of checking a format against the sample
+ */
+export interface FormatSampleCheck {
+  /** Sample lines that can start an entry */
+  total: number;
+
+  /** Lines the pattern matched */
+  matched: number;
+
+  /** Matched lines whose timestamp parsed */
+  timestamps: number;
+
+  /** Lines the pattern missed or whose timestamp failed to parse */
+  failedLines: string[];
+
+  /** Why the format was rejected, null if it was accepted */
+  error: string | null;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a candidate format against the sample lines
+ *
+ * @param format - Candidate custom format
+ * @param sampleLines - Lines from the start of the file, unredacted
+ * @param timeZone - Source timezone for timestamps without an offset
+ * @returns Match counts and, if rejected, the reason
+ */
+export function checkFormatAgainstSample(
+  format: CustomLogFormat,
+  sampleLines: string[],
+  timeZone: string = LOCAL_TIMEZONE
+): FormatSampleCheck {
+  const contentLines = sampleLines.filter(line => !isContinuationLine(line));
+  const result: FormatSampleCheck = { total: contentLines.length, matched: 0, timestamps: 0, failedLines: [], error: null };
+
+  const compiled = compileCustomPattern(format.pattern);
+  if ('error' in compiled) {
+    return { ...result, error: compiled.error };
+  }
+  const timestampError = validateTimestampFormat(format.timestampFormat);
+  if (timestampError) {
+    return { ...result, error: timestampError };
+  }
+  const definition = toLogFormatDefinition(format);
+  if (!definition) {
+    return { ...result, error: 'The format could not be registered' };
+  }
+  const hasTimestampGroup = format.pattern.includes('(?<timestamp>');
+
+  contentLines.forEach((line, index) => {
+    const entry = parseLogLineWithFormat(line, index, definition, timeZone);
+    if (!entry) {
+      result.failedLines.push(line);
+      return;
+    }
+    result.matched++;
+    if (entry.timestamp) {
+      result.timestamps++;
+    } else if (hasTimestampGroup) {
+      result.failedLines.push(line);
+    }
+  });
+
+  if (result.total === 0) {
+    return { ...result, error: 'The sample has no lines to match' };
+  }
+  if (result.matched / result.total < MIN_LEARNED_FORMAT_MATCH_RATE) {
+    return { ...result, error: `The pattern matched only ${result.matched} of ${result.total} sample lines` };
+  }
+  if (hasTimestampGroup && result.timestamps / result.matched < MIN_LEARNED_FORMAT_MATCH_RATE) {
+    return { ...result, error: `Timestamps parsed on only ${result.timestamps} of ${result.matched} matched lines with format "${format.timestampFormat}"` };
+  }
+  return result;
+}
+
+// ============================================================================
+// LEARNING
+// ============================================================================
+
+/**
+ * Find a saved custom or learned format that fits the file
+ *
+ * @param lines - Lines from the start of the file
+ * @returns The best matching format if it is a saved one, otherwise null
+ */
+export function findSavedLogFormat(lines: string[]): LogFormatDefinition | null {
+  const detected = detectLogFormat(lines.filter(line => !isContinuationLine(line)));
+  return detected && isCustomFormatDefinition(detected) ? detected : null;
+}
+
+/**
+ * Build the prompt asking for a format definition
+ *
+ * @param sampleText - Sample lines as sent
+ * @param previousError - Why the last answer was rejected, with the lines it missed (optional)
+ * @returns Prompt text
+ */
+function buildLearningPrompt(sampleText: string, previousError?: string): string {
+  return `Write a format definition for the log file these lines come from.
+
+Log lines:
+${sampleText}
+
+Respond with ONLY a JSON object (no markdown, no code blocks):
+{
+  "name": "short name of the log format or product",
+  "pattern": "JavaScript regular expression matching one whole log line",
+  "timestampFormat": "date-fns format of the timestamp group, e.g. yyyy-MM-dd HH:mm:ss.SSS, or iso"
+}
+
+Rules for the pattern:
+- Use only these named groups: ${CUSTOM_FORMAT_GROUPS.map(group => `(?<${group}>...)`).join(', ')}
+- It must match every line that starts a log entry, not just the examples
+- Anchor it with ^ and end with (?<message>.*)$ so the rest of the line is the message
+- Do not match the literal values in the lines: words like host_1 or user_1 are placeholders
+- Escape backslashes for JSON
+${previousError ? `\nYour previous definition was rejected: ${previousError}\n` : ''}`;
+}
+
+/**
+ * Read a format definition from the model's reply
+ *
+ * @param reply - Model reply
+ * @returns Name, pattern and timestamp format, or an error message
+ */
+function parseFormatReply(reply: string): Pick<CustomLogFormat, 'name' | 'pattern' | 'timestampFormat'> | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonFences(reply));
+  } catch {
+    return 'the reply was not valid JSON';
+  }
+
+  const { name, pattern, timestampFormat } = (parsed ?? {}) as Record<string, unknown>;
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    return 'the reply has no "pattern" string';
+  }
+
+  return {
+    name: typeof name === 'string' && name.trim() ? name.trim() : 'Log format',
+    pattern,
+    timestampFormat: typeof timestampFormat === 'string' ? timestampFormat.trim() : '',
+  };
+}
+
+/**
+ * Learn a format for a file and save it
+ *
+ * @param lines - Lines from the start of the file, unredacted
+ * @param client - Language model client
+ * @param options - Upload-time parse settings such as the source timezone
+ * @param redactor - Tokenizes sensitive values before sending (optional)
+ * @param signal - Aborting cancels the requests (optional)
+ * @returns The saved format, or null if no definition passed the sample check
+ */
+export async function learnLogFormat(
+  lines: string[],
+  client: LlmClient,
+  options: LogParseOptions = {},
+  redactor?: Redactor,
+  signal?: AbortSignal
+): Promise<CustomLogFormat | null> {
+  const sampleLines = lines.filter(line => line.trim()).slice(0, FORMAT_LEARNING_SAMPLE_SIZE);
+  const sampleText = (redactor ? sampleLines.map(redactor.redact) : sampleLines).join('\n');
+  const timeZone = options.sourceTimezone || LOCAL_TIMEZONE;
+  const scheduler = createAiScheduler(undefined, signal);
+
+  let previousError: string | undefined;
+  for (let attempt = 1; attempt <= MAX_LEARNING_ATTEMPTS; attempt++) {
+    const prompt = buildLearningPrompt(sampleText, previousError);
+
+    let reply: string;
+    try {
+      reply = await scheduler.schedule(estimateRequestTokens(SYSTEM_PROMPT + prompt), () =>
+        client.complete({ prompt, system: SYSTEM_PROMPT, temperature: 0.1 }));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('Format learning request failed:', error);
+      return null;
+    }
+
+    const definition = parseFormatReply(reply);
+    if (typeof definition === 'string') {
+      previousError = definition;
+      console.warn(`Learned format rejected (attempt ${attempt}): ${definition}`);
+      continue;
+    }
+
+    const format: CustomLogFormat = {
+      id: `learned-${Date.now()}`,
+      name: `Learned: ${definition.name}`,
+      pattern: definition.pattern,
+      timestampFormat: definition.timestampFormat,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const check = checkFormatAgainstSample(format, sampleLines, timeZone);
+    if (!check.error) {
+      console.log(`Learned format "${format.name}" matched ${check.matched} of ${check.total} sample lines`);
+      saveCustomFormat(format);
+      return format;
+    }
+
+    // Quote the missed lines as sent, so nothing redacted is sent back
+    const missed = check.failedLines
+      .slice(0, MAX_FAILED_LINES_SHOWN)
+      .map(line => redactor ? redactor.redact(line) : line);
+    previousError = `${check.error}. Lines it failed on:\n${missed.join('\n')}`;
+    console.warn(`Learned format rejected (attempt ${attempt}): ${check.error}`);
+  }
+
+  return null;
+}
+
+/**
+ * Pick the format to parse a file with locally, learning one if needed
+ *
+ * A saved custom or learned format that fits the start of the file is used
+ * without any request; otherwise the model is asked for one.
+ *
+ * @param content - Log file content
+ * @param client - Language model client
+ * @param options - Upload-time parse settings such as the source timezone
+ * @param redactor - Tokenizes sensitive values before sending (optional)
+ * @param signal - Aborting cancels the requests (optional)
+ * @returns Registry id of the format, or null if none could be learned
+ */
+export async function findOrLearnLogFormat(
+  content: string,
+  client: LlmClient,
+  options: LogParseOptions = {},
+  redactor?: Redactor,
+  signal?: AbortSignal
+): Promise<string | null> {
+  // Whole lines from the start of the file; the last one may be cut off
+  const lines = content
+    .slice(0, LOG_SAMPLE_BYTES)
+    .split('\n')
+    .slice(0, content.length > LOG_SAMPLE_BYTES ? -1 : undefined)
+    .map(line => line.replace(/\r$/, ''))
+    .filter(line => line.trim());
+
+  const saved = findSavedLogFormat(lines);
+  if (saved) {
+    console.log(`Using saved format "${saved.name}"; no AI request needed`);
+    return saved.id;
+  }
+
+  const learned = await learnLogFormat(lines, client, options, redactor, signal);
+  return learned ? toLogFormatDefinition(learned)?.id ?? null : null;
+}
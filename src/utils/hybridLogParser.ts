@@ -1,63 +1,92 @@
-import { LogEntry, LogSummary } from '../types/log';
+import { LogEntry, LogParseOptions, LogSummary } from '../types/log';
+import { markTimestampOutliers } from './timestampUtils';
+import { sortLogEntriesNewestFirst } from './logParser';
+import { Redactor } from './redaction';
+import { AiParseHandlers, LlmClient } from '../types/llm';
+import {
+  AI_EXTRACTION_SCHEMA,
+  AIExtractionResult,
+  createExtractionEntryBuilder,
+  formatNumberedLines,
+  joinBatchEntries,
+  stripJsonFences,
+  validateExtractionBatch,
+} from './aiExtraction';
+import { computeAiCacheKey, readAiCache, writeAiCache } from './aiCache';
+import { createAiScheduler, createBatchStatusTracker, describeBatchError, estimateRequestTokens } from './aiScheduler';
 
 /**
- * Hybrid Log Parser - Fast JavaScript with OpenAI Enhancement
+ * Hybrid Log Parser - Fast JavaScript with AI Enhancement
  *
- * This parser uses JavaScript for speed and structure, but leverages OpenAI
- * to intelligently extract thread IDs and other fields that vary by format.
+ * This parser uses JavaScript for speed and structure, but leverages a
+ * language model to intelligently extract thread IDs and other fields that
+ * vary by format.
  */
 
-interface AIExtractionResult {
-  timestamp?: string;
-  threadId?: string;
-  level: string;
-  message: string;
-}
+/**
+ * System instruction sent with every request
+ */
+const SYSTEM_PROMPT = 'You are a log file analysis expert. Respond only with valid JSON, no markdown formatting.';
 
 /**
- * Call OpenAI API
+ * Version of the extraction prompt, part of every cache key
+ * Bump when the prompt or schema changes so earlier replies are not reused
  */
-async function callOpenAI(apiKey: string, prompt: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a log file analysis expert. Respond only with valid JSON, no markdown formatting.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.1,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
+const PROMPT_VERSION = 'hybrid-extract-v1';
+
+/**
+ * Build the extraction prompt for one batch
+ *
+ * @param formatPattern - The model's analysis of the file's format
+ * @param batchText - Numbered lines of the batch
+ * @returns Prompt text
+ */
+function buildExtractPrompt(formatPattern: string, batchText: string): string {
+  return `Given this log format pattern:
+${formatPattern}
+
+Extract structured data from these log lines. Each line starts with its line number and a colon. For EACH line, identify:
+- line (the line number, copied exactly; never renumber, skip or merge lines)
+- timestamp (exact text, or null if not present)
+- threadId (CRITICAL: extract any thread/process ID you find - look in brackets, parentheses, or after keywords)
+- level (ERROR, WARN, INFO, DEBUG, or infer from context)
+- message (the actual log message, copied from the line)
 
-  const data = await response.json();
-  return data.choices[0].message.content;
+Log lines:
+${batchText}
+
+Respond with ONLY a JSON array (no markdown, no code blocks) matching this schema, one object per line:
+${AI_EXTRACTION_SCHEMA}
+If a field is not present, use null. IMPORTANT: Look carefully for thread IDs in any format.`;
 }
 
 /**
  * Parse log file using hybrid approach:
  * 1. Split into lines quickly with JavaScript
- * 2. Use OpenAI to intelligently extract thread IDs and categorize each line
+ * 2. Use the language model to intelligently extract thread IDs and categorize each line
  * 3. Build structured entries
+ *
+ * With a redactor, sensitive values in the lines are replaced by tokens
+ * before they are sent, and the extracted fields are re-hydrated locally.
+ * Raw lines on the entries always keep the real text.
+ *
+ * Replies are cached per batch, so analysing the same lines again with the
+ * same model reuses them instead of sending the batch again. Requests go
+ * through the AI scheduler: a few at a time, within the token budget, and
+ * retried on rate limits and server errors before a batch falls back.
+ *
+ * Results are matched to lines by the line number the model echoes back.
+ * Lines the model skipped, merged or garbled, and whole batches that fail,
+ * are parsed locally instead. Continuation lines such as stack frames join
+ * the entry above, and entries are returned newest first like the local
+ * parser's.
  */
 export async function parseLogFileHybrid(
   content: string,
-  apiKey: string
+  client: LlmClient,
+  options: LogParseOptions = {},
+  redactor?: Redactor,
+  { onBatchStatus, signal }: AiParseHandlers = {}
 ): Promise<{ entries: LogEntry[]; summary: LogSummary }> {
   const lines = content.split('\n').filter(line => line.trim());
 
@@ -65,10 +94,15 @@ export async function parseLogFileHybrid(
     throw new Error('No content found in log file');
   }
 
-  console.log(`Processing ${lines.length} log lines with OpenAI enhancement...`);
+  console.log(`Processing ${lines.length} log lines with ${client.model} enhancement...`);
+
+  const entryBuilder = createExtractionEntryBuilder(lines, options);
+
+  // Lines as sent to the model, with sensitive values tokenized
+  const promptLines = redactor ? lines.map(redactor.redact) : lines;
 
   // Sample first 50 lines to understand the format
-  const sampleLines = lines.slice(0, Math.min(50, lines.length));
+  const sampleLines = promptLines.slice(0, Math.min(50, promptLines.length));
   const sampleText = sampleLines.join('\n');
 
   const formatPrompt = `Analyze these log file lines and identify the format pattern:
@@ -83,146 +117,122 @@ Respond with ONLY a JSON object (no markdown, no code blocks) containing:
   "example": "one example line parsed"
 }`;
 
-  const formatAnalysis = await callOpenAI(apiKey, formatPrompt);
-  console.log('OpenAI Format Analysis:', formatAnalysis);
+  const scheduler = createAiScheduler(undefined, signal);
+
+  // Only requested once a batch is missing from the cache, so a file that
+  // was analysed before sends no requests at all
+  let formatAnalysis: Promise<string> | null = null;
+  const getFormatAnalysis = () => {
+    if (!formatAnalysis) {
+      formatAnalysis = scheduler
+        .schedule(estimateRequestTokens(formatPrompt), () =>
+          client.complete({ prompt: formatPrompt, system: SYSTEM_PROMPT, temperature: 0.1 }))
+        .then(analysis => {
+          console.log('AI Format Analysis:', analysis);
+          return analysis;
+        }, error => {
+          if (signal?.aborted) throw error;
+          console.warn('Format analysis failed, extracting without it:', error);
+          return 'Unknown; work out the layout from the lines themselves.';
+        });
+    }
+    return formatAnalysis;
+  };
 
-  // Now process all lines in batches
+  // Split into batches up front so every batch has a status from the start
   const batchSize = 100;
-  const entries: LogEntry[] = [];
-
+  const ranges: { start: number; end: number; estimatedTokens: number }[] = [];
   for (let i = 0; i < lines.length; i += batchSize) {
-    const batch = lines.slice(i, Math.min(i + batchSize, lines.length));
-    const batchText = batch.map((line, idx) => `${i + idx}: ${line}`).join('\n');
-
-    const extractPrompt = `Given this log format pattern:
-${formatAnalysis}
-
-Extract structured data from these log lines. For EACH line, identify:
-- timestamp (exact text, or null if not present)
-- threadId (CRITICAL: extract any thread/process ID you find - look in brackets, parentheses, or after keywords)
-- level (ERROR, WARN, INFO, DEBUG, or infer from context)
-- message (the actual log message)
-
-Log lines:
-${batchText}
-
-Respond with ONLY a JSON array (no markdown, no code blocks) where each object has: timestamp, threadId, level, message
-If a field is not present, use null. IMPORTANT: Look carefully for thread IDs in any format.`;
-
+    const range = { start: i, end: Math.min(i + batchSize, lines.length) };
+    const estimatedTokens = estimateRequestTokens(SYSTEM_PROMPT + buildExtractPrompt('', formatNumberedLines(promptLines, range)));
+    ranges.push({ ...range, estimatedTokens });
+  }
+  const tracker = createBatchStatusTracker(ranges, onBatchStatus);
+
+  /**
+   * Extract one batch, reusing a cached reply if there is one, and build
+   * its entries; lines without a valid result are parsed locally
+   */
+  const processBatch = async ({ start, end, estimatedTokens }: typeof ranges[number], index: number) => {
+    const batchText = formatNumberedLines(promptLines, { start, end });
+
+    let results = new Map<number, AIExtractionResult>();
+    let cached = false;
+    let failure: unknown;
     try {
-      const responseText = await callOpenAI(apiKey, extractPrompt);
-
-      // Clean up response - remove markdown if present
-      let jsonText = responseText.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```\n?/g, '');
+      // Same batch, prompt and model as an earlier analysis: reuse its reply
+      const cacheKey = await computeAiCacheKey(PROMPT_VERSION, `${client.provider}:${client.model}`, batchText);
+      let parsedBatch = await readAiCache(cacheKey);
+      cached = parsedBatch !== undefined;
+
+      if (!cached) {
+        const prompt = buildExtractPrompt(await getFormatAnalysis(), batchText);
+        parsedBatch = await scheduler.schedule(
+          estimatedTokens,
+          async attempt => {
+            tracker.update(index, { state: 'running', attempts: attempt });
+            const responseText = await client.complete({ prompt, system: SYSTEM_PROMPT, temperature: 0.1 });
+            return JSON.parse(stripJsonFences(responseText)) as unknown;
+          },
+          (error, delayMs) => tracker.update(index, {
+            state: 'retrying',
+            error: `${describeBatchError(error)} (retrying in ${Math.ceil(delayMs / 1000)}s)`,
+          })
+        );
       }
 
-      const extracted = JSON.parse(jsonText) as AIExtractionResult[];
-
-      // Convert AI extractions to LogEntry objects
-      extracted.forEach((item, idx) => {
-        const lineIndex = i + idx;
-        const rawLine = batch[idx] || lines[lineIndex];
-
-        entries.push({
-          id: `log-${lineIndex}`,
-          timestamp: item.timestamp ? parseTimestamp(item.timestamp) : null,
-          threadId: item.threadId || undefined,
-          level: normalizeLevel(item.level),
-          message: item.message || rawLine,
-          source: undefined,
-          raw: rawLine,
-        });
-      });
+      const lineText = new Map<number, string>();
+      for (let lineIndex = start; lineIndex < end; lineIndex++) {
+        lineText.set(lineIndex, lines[lineIndex]);
+      }
+
+      const validated = validateExtractionBatch(redactor ? redactor.rehydrateValue(parsedBatch) : parsedBatch, lineText);
+      results = validated.results;
+      if (validated.errors.length > 0) {
+        console.warn(`Rejected ${validated.errors.length} AI result(s) in batch at line ${start}:`, validated.errors);
+      }
 
-      console.log(`Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(lines.length / batchSize)}`);
+      // Store the reply as received, still redacted; unusable replies are not kept
+      if (!cached && results.size > 0) {
+        await writeAiCache(cacheKey, parsedBatch);
+      }
     } catch (error) {
-      console.error(`Error processing batch at line ${i}:`, error);
-
-      // Fallback: add lines as-is
-      batch.forEach((line, idx) => {
-        entries.push({
-          id: `log-${i + idx}`,
-          timestamp: null,
-          threadId: undefined,
-          level: 'INFO',
-          message: line,
-          source: undefined,
-          raw: line,
-        });
-      });
+      if (signal?.aborted) throw error;
+      console.error(`Error processing batch at line ${start}:`, error);
+      failure = error;
     }
-  }
-
-  // Generate summary
-  const summary = generateLogSummary(entries);
 
-  return { entries, summary };
-}
+    // Realign by line number; continuation lines join the entry above and
+    // anything else missing is parsed locally
+    const { entries: batchEntries, fallbackLines } = entryBuilder.buildBatch(start, end, results);
+    tracker.update(index, {
+      state: failure !== undefined ? 'fallback' : fallbackLines > 0 ? 'partial' : cached ? 'cached' : 'done',
+      fallbackLines,
+      error: failure !== undefined ? describeBatchError(failure) : undefined,
+    });
+    return batchEntries;
+  };
 
-/**
- * Parse timestamp from extracted text
- */
-function parseTimestamp(str: string): Date | null {
-  if (!str) return null;
+  const batchEntries = await Promise.all(ranges.map(processBatch));
+  const entries = joinBatchEntries(batchEntries);
 
-  try {
-    const date = new Date(str);
-    if (!isNaN(date.getTime())) {
-      return date;
-    }
-  } catch (e) {
-    // Continue to other methods
+  const cachedBatches = tracker.batches.filter(batch => batch.state === 'cached').length;
+  if (cachedBatches > 0) {
+    console.log(`Reused cached AI results for ${cachedBatches} of ${ranges.length} batches`);
   }
-
-  // Try common formats
-  const formats = [
-    // YYYY-MM-DD HH:mm:ss
-    /^(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})/,
-    // MM-DD HH:mm:ss (assume current year)
-    /^(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})/,
-  ];
-
-  for (const format of formats) {
-    const match = str.match(format);
-    if (match) {
-      try {
-        const testDate = new Date(str);
-        if (!isNaN(testDate.getTime())) {
-          return testDate;
-        }
-      } catch (e) {
-        continue;
-      }
-    }
+  const fallbackCount = tracker.batches.reduce((sum, batch) => sum + batch.fallbackLines, 0);
+  if (fallbackCount > 0) {
+    console.warn(`${fallbackCount} of ${lines.length} lines were parsed locally because the AI result was missing or invalid`);
   }
 
-  return null;
-}
+  // Flag misparsed timestamps far outside the rest of the file
+  markTimestampOutliers(entries, options.timestampWindow);
+  sortLogEntriesNewestFirst(entries);
 
-/**
- * Normalize log level from AI output
- */
-function normalizeLevel(level: string): LogEntry['level'] {
-  const normalized = level.toUpperCase();
-
-  if (normalized.includes('ERROR') || normalized.includes('ERR') || normalized.includes('FATAL')) {
-    return 'ERROR';
-  }
-  if (normalized.includes('WARN') || normalized.includes('WARNING')) {
-    return 'WARN';
-  }
-  if (normalized.includes('INFO')) {
-    return 'INFO';
-  }
-  if (normalized.includes('DEBUG') || normalized.includes('TRACE')) {
-    return 'DEBUG';
-  }
+  // Generate summary
+  const summary = generateLogSummary(entries);
 
-  return 'INFO';
+  return { entries, summary };
 }
 
 /**
@@ -243,31 +253,13 @@ function generateLogSummary(entries: LogEntry[]): LogSummary {
 
   // Find time range
   const validTimestamps = entries
-    .map(e => e.timestamp)
-    .filter((t): t is Date => t !== null && !isNaN(t.getTime()));
+    .filter(e => e.timestamp && !isNaN(e.timestamp.getTime()) && !e.timestampOutlier)
+    .map(e => e.timestamp!.getTime());
 
   const timeRange = validTimestamps.length > 0 ? {
-    start: new Date(Math.min(...validTimestamps.map(t => t.getTime()))),
-    end: new Date(Math.max(...validTimestamps.map(t => t.getTime()))),
-  } : {
-    start: new Date(),
-    end: new Date()
-  };
-
-  // Count error patterns
-  const errorMessages = entries
-    .filter(e => e.level === 'ERROR')
-    .map(e => e.message.substring(0, 100));
-
-  const errorCounts = errorMessages.reduce((acc, msg) => {
-    acc[msg] = (acc[msg] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  const topErrors = Object.entries(errorCounts)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 10)
-    .map(([message, count]) => ({ message, count }));
+    start: new Date(validTimestamps.reduce((min, t) => Math.min(min, t), Infinity)),
+    end: new Date(validTimestamps.reduce((max, t) => Math.max(max, t), -Infinity)),
+  } : null;
 
   // Find unique thread IDs
   const uniqueThreads = new Set(entries.filter(e => e.threadId).map(e => e.threadId));
@@ -279,8 +271,11 @@ function generateLogSummary(entries: LogEntry[]): LogSummary {
     infoCount,
     debugCount,
     criticalErrors,
-    topErrors,
+    // Filled in from the session's templates, which every view shares
+    topErrors: [],
     timeRange,
+    outlierTimestampCount: entries.filter(e => e.timestampOutlier).length,
+    sourceUtcOffset: entries.find(e => e.timestamp && e.utcOffset !== undefined)?.utcOffset,
     uniqueThreadCount: uniqueThreads.size,
     errorTrend: [],
   };
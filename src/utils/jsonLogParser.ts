@@ -0,0 +1,432 @@
+import { JsonFieldPaths, LogEntry, LogParseOptions } from '../types/log';
+import { ParseProgressCallback } from '../types/worker';
+import {
+  ParsedLogFile,
+  detectLevelFromMessage,
+  isLogLevel,
+  normalizeLogLevel,
+  parseLogFile,
+  parseLogLine,
+  parseTimestampStrict,
+  sortLogEntriesNewestFirst,
+} from './logParser';
+import { LOCAL_TIMEZONE, markTimestampOutliers, resolveUtcOffset } from './timestampUtils';
+
+/**
+ * JSON Log Parser
+ *
+ * Reads structured logs, JSON Lines (one object per line, also called
+ * NDJSON) and JSON documents holding an array of records, straight into
+ * LogEntry objects. Timestamp, level, message, source and thread are taken
+ * from configurable field paths; every other property is kept in the
+ * entry's `fields` map, keyed by dotted path, so nothing in the record is
+ * lost and the table can show any of it as a column.
+ *
+ * Field paths are stored in the browser's localStorage. No log content is
+ * ever written to browser storage.
+ */
+
+/**
+ * localStorage key holding the configured field paths
+ */
+const JSON_FIELD_PATHS_STORAGE_KEY = 'logAnalyzerJsonFieldPaths';
+
+/**
+ * Number of records between progress updates
+ */
+const PROGRESS_INTERVAL = 5000;
+
+/**
+ * Field paths tried when none are configured
+ * Covers common conventions: Elastic Common Schema, Serilog, pino/bunyan,
+ * Logstash and plain application loggers
+ */
+export const DEFAULT_JSON_FIELD_PATHS: JsonFieldPaths = {
+  timestamp: ['@timestamp', 'timestamp', 'time', 'ts', 'datetime', 'date', '@t'],
+  level: ['level', 'log.level', 'severity', 'lvl', 'loglevel', '@l'],
+  message: ['message', 'msg', '@m', '@mt', 'text', 'description'],
+  source: ['source', 'logger', 'log.logger', 'logger_name', 'component', 'service.name', 'service', 'module'],
+  thread: ['thread', 'threadId', 'thread_name', 'process.thread.id', 'tid', 'pid'],
+};
+
+/**
+ * Object properties that hold the records of a JSON document, tried in order
+ */
+const RECORD_ARRAY_PROPERTIES = ['logs', 'entries', 'records', 'events', 'items'];
+
+/**
+ * Level names outside the standard set, as written by syslog-style loggers
+ */
+const LEVEL_ALIASES: Record<string, LogEntry['level']> = {
+  NOTICE: 'INFO',
+  INFORMATION: 'INFO',
+  INFORMATIONAL: 'INFO',
+  VERBOSE: 'TRACE',
+  CRIT: 'ERROR',
+  ALERT: 'ERROR',
+  EMERG: 'ERROR',
+  EMERGENCY: 'ERROR',
+  PANIC: 'ERROR',
+};
+
+/**
+ * How a JSON log file lays out its records
+ * - ndjson: one JSON object per line
+ * - array: a JSON array of records
+ * - object: a single JSON object, either one record or a wrapper such as { "logs": [...] }
+ */
+export type JsonLogLayout = 'ndjson' | 'array' | 'object';
+
+/**
+ * Format names reported in the parse diagnostics
+ */
+const LAYOUT_NAMES: Record<JsonLogLayout, string> = {
+  ndjson: 'JSON Lines',
+  array: 'JSON array',
+  object: 'JSON document',
+};
+
+// ============================================================================
+// FIELD PATH SETTINGS
+// ============================================================================
+
+/**
+ * Load the configured field paths from localStorage
+ *
+ * @returns Saved field paths, with defaults for any field not saved
+ */
+export function loadJsonFieldPaths(): JsonFieldPaths {
+  try {
+    const stored = localStorage.getItem(JSON_FIELD_PATHS_STORAGE_KEY);
+    if (!stored) return DEFAULT_JSON_FIELD_PATHS;
+
+    const parsed = JSON.parse(stored) as Partial<JsonFieldPaths>;
+    const paths = { ...DEFAULT_JSON_FIELD_PATHS };
+    (Object.keys(paths) as (keyof JsonFieldPaths)[]).forEach(field => {
+      const value = parsed[field];
+      if (Array.isArray(value) && value.every(path => typeof path === 'string')) {
+        paths[field] = value;
+      }
+    });
+    return paths;
+  } catch (error) {
+    console.error('Failed to load JSON field paths:', error);
+    return DEFAULT_JSON_FIELD_PATHS;
+  }
+}
+
+/**
+ * Save the field paths used for JSON uploads
+ *
+ * @param paths - Field paths to save
+ */
+export function saveJsonFieldPaths(paths: JsonFieldPaths): void {
+  localStorage.setItem(JSON_FIELD_PATHS_STORAGE_KEY, JSON.stringify(paths));
+}
+
+/**
+ * Split a comma-separated list of paths as typed in the upload settings
+ *
+ * @param text - Paths separated by commas
+ * @returns Trimmed, non-empty paths
+ */
+export function parseFieldPathList(text: string): string[] {
+  return text.split(',').map(path => path.trim()).filter(Boolean);
+}
+
+// ============================================================================
+// LAYOUT DETECTION
+// ============================================================================
+
+/**
+ * Work out how a file lays out its JSON records
+ *
+ * @param content - File content
+ * @returns The layout, or null if the content is not JSON
+ */
+export function detectJsonLogLayout(content: string): JsonLogLayout | null {
+  const start = content.search(/\S/);
+  if (start === -1) return null;
+
+  if (content[start] === '[') return 'array';
+  if (content[start] !== '{') return null;
+
+  // A first line that is a complete object means one record per line;
+  // otherwise it is the start of a pretty-printed document
+  const firstLineEnd = content.indexOf('\n', start);
+  const firstLine = content.slice(start, firstLineEnd === -1 ? undefined : firstLineEnd);
+  try {
+    const parsed = JSON.parse(firstLine);
+    return isRecord(parsed) ? 'ndjson' : null;
+  } catch {
+    return 'object';
+  }
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// RECORD MAPPING
+// ============================================================================
+
+/**
+ * Read the value at a path in a record
+ *
+ * @param record - JSON record
+ * @param path - Property name or dotted path
+ * @returns The value, or undefined if the path does not exist
+ */
+function readPath(record: Record<string, unknown>, path: string): unknown {
+  if (path in record) return record[path];
+
+  let value: unknown = record;
+  for (const key of path.split('.')) {
+    if (!isRecord(value) || !(key in value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Find the first candidate path with a usable value
+ *
+ * @param record - JSON record
+ * @param paths - Candidate paths, in order
+ * @returns The matched path and its value, or null if none has a value
+ */
+function readFirstPath(
+  record: Record<string, unknown>,
+  paths: string[]
+): { path: string; value: string | number } | null {
+  for (const path of paths) {
+    const value = readPath(record, path);
+    if (typeof value === 'string' && value.trim()) return { path, value: value.trim() };
+    if (typeof value === 'number' && isFinite(value)) return { path, value };
+  }
+  return null;
+}
+
+/**
+ * Flatten a record into dotted paths with text values
+ *
+ * @param value - Record or nested value
+ * @param prefix - Path of value within the record
+ * @param fields - Map the flattened values are added to
+ */
+function flattenFields(value: unknown, prefix: string, fields: Record<string, string>): void {
+  if (isRecord(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 0 && prefix) fields[prefix] = '{}';
+    keys.forEach(key => flattenFields(value[key], prefix ? `${prefix}.${key}` : key, fields));
+  } else if (prefix) {
+    fields[prefix] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
+
+/**
+ * Parse a timestamp value from a record
+ * Numbers are epoch times in seconds, milliseconds, microseconds or
+ * nanoseconds, told apart by magnitude
+ *
+ * @param value - Timestamp text or number
+ * @param timeZone - Source timezone for timestamps without an offset
+ * @returns The instant and, for text, the offset it was written with
+ */
+function parseRecordTimestamp(
+  value: string | number,
+  timeZone: string
+): { timestamp: Date | null; utcOffset?: number } {
+  const epoch = typeof value === 'number' ? value : /^\d{9,19}(?:\.\d+)?$/.test(value) ? parseFloat(value) : NaN;
+  if (!isNaN(epoch)) {
+    const ms = epoch >= 1e17 ? epoch / 1e6 : epoch >= 1e14 ? epoch / 1e3 : epoch >= 1e11 ? epoch : epoch * 1000;
+    const timestamp = new Date(ms);
+    return { timestamp: isNaN(timestamp.getTime()) ? null : timestamp };
+  }
+
+  // The strict parser takes exactly three fraction digits after a dot;
+  // trim or pad micro-, nanosecond and shorter fractions and accept a comma
+  const text = String(value).replace(/(:\d{2})[,.](\d+)/, (_: string, seconds: string, fraction: string) =>
+    `${seconds}.${fraction.slice(0, 3).padEnd(3, '0')}`);
+  const timestamp = parseTimestampStrict(text, timeZone);
+  return timestamp
+    ? { timestamp, utcOffset: resolveUtcOffset(text, timestamp, timeZone) }
+    : { timestamp: null };
+}
+
+/**
+ * Map a level value from a record onto a LogEntry level
+ * Numbers follow pino/bunyan (10 trace to 60 fatal), or syslog severity
+ * (0 emergency to 7 debug) below 10
+ *
+ * @param value - Level text or number
+ * @returns Matching level, or null if the value is not a known level
+ */
+function mapRecordLevel(value: string | number): LogEntry['level'] | null {
+  if (typeof value === 'number') {
+    if (value >= 10) {
+      if (value >= 50) return 'ERROR';
+      if (value >= 40) return 'WARN';
+      if (value >= 30) return 'INFO';
+      return value >= 20 ? 'DEBUG' : 'TRACE';
+    }
+    if (value <= 3) return 'ERROR';
+    if (value === 4) return 'WARN';
+    return value === 7 ? 'DEBUG' : 'INFO';
+  }
+
+  if (isLogLevel(value)) return normalizeLogLevel(value) as LogEntry['level'];
+  return LEVEL_ALIASES[value.toUpperCase()] ?? null;
+}
+
+/**
+ * Build a LogEntry from one JSON record
+ *
+ * @param record - JSON record
+ * @param index - Record index for unique ID generation
+ * @param raw - Record text as it appears in the file
+ * @param paths - Field paths to read
+ * @param timeZone - Source timezone for timestamps without an offset
+ * @returns Parsed LogEntry with all unmapped properties in `fields`
+ */
+export function parseJsonLogRecord(
+  record: Record<string, unknown>,
+  index: number,
+  raw: string,
+  paths: JsonFieldPaths,
+  timeZone: string = LOCAL_TIMEZONE
+): LogEntry {
+  const timestampValue = readFirstPath(record, paths.timestamp);
+  const levelValue = readFirstPath(record, paths.level);
+  const messageValue = readFirstPath(record, paths.message);
+  const sourceValue = readFirstPath(record, paths.source);
+  const threadValue = readFirstPath(record, paths.thread);
+
+  const { timestamp, utcOffset } = timestampValue
+    ? parseRecordTimestamp(timestampValue.value, timeZone)
+    : { timestamp: null, utcOffset: undefined };
+
+  const fields: Record<string, string> = {};
+  flattenFields(record, '', fields);
+
+  // A timestamp that could not be read stays visible as a field
+  const mapped = [timestamp ? timestampValue : null, levelValue, messageValue, sourceValue, threadValue];
+  mapped.forEach(value => {
+    if (value) delete fields[value.path];
+  });
+
+  const message = messageValue ? String(messageValue.value) : raw;
+  const level = levelValue ? mapRecordLevel(levelValue.value) : null;
+
+  const entry: LogEntry = {
+    id: `log-${index}`,
+    timestamp,
+    utcOffset,
+    level: level ?? detectLevelFromMessage(message) as LogEntry['level'],
+    levelInferred: !level || undefined,
+    message,
+    threadId: threadValue ? String(threadValue.value) : undefined,
+    source: sourceValue ? String(sourceValue.value) : undefined,
+    raw,
+  };
+
+  if (Object.keys(fields).length > 0) entry.fields = fields;
+  return entry;
+}
+
+// ============================================================================
+// FILE PARSING
+// ============================================================================
+
+/**
+ * Parse JSON text without throwing
+ *
+ * @param text - JSON text
+ * @returns The parsed value, or undefined if the text is not valid JSON
+ */
+function parseJsonDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the records in a parsed JSON document
+ *
+ * @param document - Parsed array, wrapper object or single record
+ * @returns The records, in file order
+ */
+function findRecords(document: unknown): unknown[] {
+  if (Array.isArray(document)) return document;
+  if (!isRecord(document)) return [document];
+
+  const wrapped = RECORD_ARRAY_PROPERTIES.map(key => document[key]).find(Array.isArray);
+  return wrapped ?? [document];
+}
+
+/**
+ * Parse a JSON or JSON Lines log file
+ *
+ * Lines of a JSON Lines file that are not JSON objects are parsed as text
+ * lines. Content that turns out not to be valid JSON is parsed as a text
+ * log instead.
+ *
+ * @param content - Raw text content of the file
+ * @param options - Upload-time parse settings, with the field paths in jsonFields
+ * @param onProgress - Optional callback receiving record progress updates
+ * @returns Parsed entries, newest first, and the layout as format name
+ */
+export function parseJsonLogFile(
+  content: string,
+  options: LogParseOptions = {},
+  onProgress?: ParseProgressCallback
+): ParsedLogFile {
+  const paths = options.jsonFields ?? DEFAULT_JSON_FIELD_PATHS;
+  const timeZone = options.sourceTimezone || LOCAL_TIMEZONE;
+  const textOptions = { ...options, jsonFields: undefined };
+  const layout = detectJsonLogLayout(content);
+  if (!layout) return parseLogFile(content, textOptions, onProgress);
+
+  // JSON Lines records stay as line text until they are parsed one by one,
+  // so a bad line only affects itself
+  let records: unknown[];
+  if (layout === 'ndjson') {
+    records = content.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+  } else {
+    const document = parseJsonDocument(content);
+    if (document === undefined) {
+      console.warn('JSON parsing failed, treating as text');
+      return parseLogFile(content, textOptions, onProgress);
+    }
+    records = findRecords(document);
+  }
+
+  const entries: LogEntry[] = [];
+  records.forEach((item, index) => {
+    if (index % PROGRESS_INTERVAL === 0) {
+      onProgress?.({ phase: 'parsing', processed: index, total: records.length });
+    }
+
+    const raw = layout === 'ndjson' ? item as string : typeof item === 'string' ? item : JSON.stringify(item);
+    const record = layout === 'ndjson' ? parseJsonDocument(raw) : item;
+
+    const entry = isRecord(record)
+      ? parseJsonLogRecord(record, index, raw, paths, timeZone)
+      : parseLogLine(raw, index, timeZone);
+    if (entry) entries.push(entry);
+  });
+  onProgress?.({ phase: 'parsing', processed: records.length, total: records.length });
+
+  const outliers = markTimestampOutliers(entries, options.timestampWindow);
+  if (outliers > 0) {
+    console.warn(`${outliers} timestamps fall outside the file's time window`);
+  }
+
+  return { entries: sortLogEntriesNewestFirst(entries), formatName: LAYOUT_NAMES[layout] };
+}
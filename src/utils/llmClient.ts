@@ -0,0 +1,332 @@
+import { GoogleGenerativeAI, GoogleGenerativeAIRequestInputError } from '@google/generative-ai';
+import { LlmClient, LlmConfig, LlmError, LlmProvider, LlmRequest } from '../types/llm';
+
+/**
+ * LLM Client
+ *
+ * Builds language model clients from configuration. OpenAI and local
+ * OpenAI-compatible servers share one chat completions adapter; Gemini goes
+ * through the Google SDK. Air-gapped installs point VITE_LLM_PROVIDER at a
+ * local server and no prompt ever leaves the network.
+ *
+ * Environment variables:
+ * - VITE_LLM_PROVIDER: openai, gemini or local; overrides every feature's default
+ * - VITE_OPENAI_MODEL, VITE_GEMINI_MODEL: cloud model names; each has a default
+ * - VITE_LLM_MODEL: model name on the local server
+ * - VITE_LLM_BASE_URL: base URL of the local server
+ * - VITE_LLM_API_KEY: API key for the local server, if it needs one
+ * - VITE_OPENAI_API_KEY, VITE_GEMINI_API_KEY: cloud API keys
+ */
+
+/**
+ * Default model per provider
+ * Gemini defaults to gemini-2.5-flash, the chatbot's model, for every
+ * feature; the AI parsers used gemini-2.0-flash-exp before, which can
+ * still be chosen with VITE_GEMINI_MODEL
+ */
+const DEFAULT_MODELS: Record<LlmConfig['provider'], string> = {
+  openai: 'gpt-4o-mini',
+  gemini: 'gemini-2.5-flash',
+  local: 'llama3.1',
+};
+
+/**
+ * Base URL of the OpenAI API
+ */
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Base URL used for local servers when none is configured (Ollama's default)
+ */
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Host that receives Gemini requests
+ */
+const GEMINI_HOST = 'generativelanguage.googleapis.com';
+
+/**
+ * Placeholder key shipped in example env files
+ */
+const PLACEHOLDER_API_KEY = 'your_api_key_here';
+
+/**
+ * Display names per provider
+ */
+export const LLM_PROVIDER_LABELS: Record<LlmProvider, string> = {
+  openai: 'OpenAI',
+  gemini: 'Google Gemini',
+  local: 'Local model',
+  mock: 'Mock model',
+};
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Read the LLM configuration from the environment
+ *
+ * @param defaultProvider - Provider a feature uses when VITE_LLM_PROVIDER is not set
+ * @returns Configuration for the selected provider
+ */
+export function getLlmConfig(defaultProvider: LlmConfig['provider']): LlmConfig {
+  const env = import.meta.env;
+  const configured = env.VITE_LLM_PROVIDER as string | undefined;
+  const provider = configured === 'openai' || configured === 'gemini' || configured === 'local'
+    ? configured
+    : defaultProvider;
+
+  const apiKeys: Record<LlmConfig['provider'], string | undefined> = {
+    openai: env.VITE_OPENAI_API_KEY,
+    gemini: env.VITE_GEMINI_API_KEY,
+    local: env.VITE_LLM_API_KEY,
+  };
+
+  // Each provider has its own model setting, so switching provider never
+  // sends one provider's model name to another
+  const models: Record<LlmConfig['provider'], string | undefined> = {
+    openai: env.VITE_OPENAI_MODEL,
+    gemini: env.VITE_GEMINI_MODEL,
+    local: env.VITE_LLM_MODEL,
+  };
+
+  return {
+    provider,
+    model: models[provider] || DEFAULT_MODELS[provider],
+    apiKey: apiKeys[provider],
+    baseUrl: provider === 'local' ? env.VITE_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL : undefined,
+  };
+}
+
+/**
+ * Check that a configuration has what its provider needs
+ *
+ * @param config - Configuration to check
+ * @returns True if a client built from it can send requests
+ */
+export function isLlmConfigured(config: LlmConfig): boolean {
+  if (config.provider === 'local') return !!config.baseUrl;
+  return !!config.apiKey && config.apiKey !== PLACEHOLDER_API_KEY;
+}
+
+/**
+ * Host that receives prompts under a configuration
+ *
+ * @param config - Configuration to describe
+ * @returns Host name, with the port for local servers
+ */
+export function getLlmHost(config: LlmConfig): string {
+  switch (config.provider) {
+    case 'openai':
+      return new URL(OPENAI_BASE_URL).host;
+    case 'gemini':
+      return GEMINI_HOST;
+    case 'local':
+      try {
+        return new URL(config.baseUrl || DEFAULT_LOCAL_BASE_URL).host;
+      } catch {
+        return config.baseUrl || DEFAULT_LOCAL_BASE_URL;
+      }
+  }
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Build the error thrown when a service rejects a request
+ *
+ * @param message - Error message
+ * @param status - HTTP status, if the service answered
+ * @param retryAfterMs - Delay the service asked for before retrying
+ * @returns Error carrying the status and delay
+ */
+export function createLlmError(message: string, status?: number, retryAfterMs?: number): LlmError {
+  return Object.assign(new Error(message), { status, retryAfterMs });
+}
+
+/**
+ * Build the error thrown when a request never reaches the service
+ *
+ * @param message - Error message
+ * @returns Error marked as a network failure
+ */
+export function createLlmNetworkError(message: string): LlmError {
+  return Object.assign(new Error(message), { network: true });
+}
+
+/**
+ * Read a Retry-After value, in seconds or as an HTTP date
+ *
+ * @param value - Header value, or a duration such as "30s" from Gemini error details
+ * @returns Delay in milliseconds, or undefined if absent or unreadable
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = parseFloat(value);
+  if (/^\s*\d+(?:\.\d+)?s?\s*$/.test(value) && !isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+/**
+ * Client for the OpenAI chat completions API or a compatible server
+ */
+function createChatCompletionsClient(config: LlmConfig, baseUrl: string): LlmClient {
+  const { provider, model, apiKey } = config;
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    provider,
+    model,
+    host: getLlmHost(config),
+    complete: async ({ prompt, system, temperature }: LlmRequest) => {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              ...(system ? [{ role: 'system', content: system }] : []),
+              { role: 'user', content: prompt },
+            ],
+            ...(temperature !== undefined ? { temperature } : {}),
+          }),
+        });
+      } catch (error) {
+        // fetch rejects with a TypeError when the network request itself fails
+        throw createLlmNetworkError(
+          `${LLM_PROVIDER_LABELS[provider]} request failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw createLlmError(
+          `${LLM_PROVIDER_LABELS[provider]} API error: ${response.status} - ${error}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+
+      // A reply without the expected shape is not retried; the same request
+      // would most likely get the same reply
+      const data = await response.json().catch(() => null);
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error(`${LLM_PROVIDER_LABELS[provider]} API returned an unexpected response`);
+      }
+      return content;
+    },
+  };
+}
+
+/**
+ * Client for the Google Gemini API
+ */
+function createGeminiClient(config: LlmConfig): LlmClient {
+  const { model } = config;
+  const genAI = new GoogleGenerativeAI(config.apiKey!);
+
+  return {
+    provider: 'gemini',
+    model,
+    host: getLlmHost(config),
+    complete: async ({ prompt, system, temperature }: LlmRequest) => {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        systemInstruction: system,
+        generationConfig: temperature !== undefined ? { temperature } : undefined,
+      });
+      let result;
+      try {
+        result = await generativeModel.generateContent(prompt);
+      } catch (error) {
+        // The SDK reports HTTP failures with a status and, for rate limits,
+        // the delay to wait in a RetryInfo detail; other than a bad request,
+        // anything else it throws here is a failed fetch
+        const { status, errorDetails } = error as { status?: number; errorDetails?: { retryDelay?: string }[] };
+        if (error instanceof GoogleGenerativeAIRequestInputError) throw error;
+        if (typeof status !== 'number') {
+          throw createLlmNetworkError(
+            `${LLM_PROVIDER_LABELS.gemini} request failed: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+
+        const retryDelay = errorDetails?.find(detail => detail.retryDelay)?.retryDelay;
+        throw createLlmError(
+          `${LLM_PROVIDER_LABELS.gemini} API error: ${status} - ${error instanceof Error ? error.message : String(error)}`,
+          status,
+          parseRetryAfter(retryDelay)
+        );
+      }
+      return result.response.text();
+    },
+  };
+}
+
+/**
+ * Build a client from configuration
+ *
+ * @param config - Provider, model, key and base URL
+ * @returns Client for the configured provider
+ * @throws Error if the provider's API key or URL is missing
+ */
+export function createLlmClient(config: LlmConfig): LlmClient {
+  if (!isLlmConfigured(config)) {
+    throw new Error(`No API key is configured for ${LLM_PROVIDER_LABELS[config.provider]}.`);
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return createChatCompletionsClient(config, OPENAI_BASE_URL);
+    case 'local':
+      return createChatCompletionsClient(config, config.baseUrl || DEFAULT_LOCAL_BASE_URL);
+    case 'gemini':
+      return createGeminiClient(config);
+  }
+}
+
+/**
+ * Build a deterministic client for tests and demos
+ *
+ * Replies come from a list, used in order and repeating the last one, or
+ * from a function of the request. Every request is recorded. The mock is
+ * never chosen by getLlmConfig, so the environment cannot select it.
+ *
+ * @param replies - Reply list or function producing a reply
+ * @returns Mock client with the recorded requests
+ */
+export function createMockLlmClient(
+  replies: string[] | ((request: LlmRequest, index: number) => string)
+): LlmClient & { requests: LlmRequest[] } {
+  const requests: LlmRequest[] = [];
+
+  return {
+    provider: 'mock',
+    model: 'mock',
+    host: 'localhost',
+    requests,
+    complete: async (request: LlmRequest) => {
+      const index = requests.length;
+      requests.push(request);
+      if (typeof replies === 'function') return replies(request, index);
+      return replies[Math.min(index, replies.length - 1)] ?? '';
+    },
+  };
+}
@@ -0,0 +1,220 @@
+import { LogEntry, LogSummary } from '../types/log';
+import { generateLogSummary } from './logParser';
+import { LogTemplate } from './templateMiner';
+
+/**
+ * Log Comparison
+ *
+ * Compares two logs of a session, typically one captured before a fix and
+ * one after it, so support can show which errors went away. The comparison
+ * is built from each log's summary. Errors are counted by the session's
+ * templates, so the same error has the same template on both sides and in
+ * the Patterns tab, and a pattern that drops out of one log's top five is
+ * not mistaken for one that disappeared.
+ */
+
+/**
+ * A log on one side of the comparison
+ */
+export interface ComparedLog {
+  /** Session file name */
+  name: string;
+
+  /** Entries of the file */
+  entries: LogEntry[];
+
+  /** Summary of the file's entries */
+  summary: LogSummary;
+}
+
+/**
+ * Entry count of one level before and after
+ */
+export interface LevelCountChange {
+  label: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * How an error pattern changed between the two logs
+ * - new: only in the later log
+ * - resolved: only in the earlier log
+ * - increased / decreased: in both, more or less often per hour
+ * - unchanged: in both at the same rate
+ */
+export type ErrorPatternChangeKind = 'new' | 'resolved' | 'increased' | 'decreased' | 'unchanged';
+
+/**
+ * A top error pattern of either log with its count in both
+ */
+export interface ErrorPatternChange {
+  message: string;
+  before: number;
+  after: number;
+  change: ErrorPatternChangeKind;
+}
+
+/**
+ * Differences between two logs
+ */
+export interface LogComparison {
+  /** Name of the earlier log, e.g. before the fix */
+  baselineName: string;
+
+  /** Name of the later log, e.g. after the fix */
+  comparedName: string;
+
+  /** Total and per-level entry counts */
+  levels: LevelCountChange[];
+
+  /** Top error patterns of both logs, new and resolved first */
+  errorPatterns: ErrorPatternChange[];
+
+  /** Errors per hour of each log's time range; null without a usable range */
+  errorRatePerHour: { before: number | null; after: number | null };
+
+  /** Thread IDs that only the later log has */
+  newThreads: string[];
+
+  /** Sources that only the later log has */
+  newSources: string[];
+}
+
+/**
+ * Most frequent error templates of each log that are compared
+ */
+const TOP_PATTERN_COUNT = 5;
+
+/**
+ * Patterns listed ahead of others, most telling first
+ */
+const CHANGE_ORDER: ErrorPatternChangeKind[] = ['new', 'resolved', 'increased', 'decreased', 'unchanged'];
+
+/**
+ * Summarise one file of the session for comparison
+ *
+ * @param logs - Entries of the whole session
+ * @param fileName - Session file to take
+ * @returns The file's entries and summary
+ */
+export function getComparedLog(logs: LogEntry[], fileName: string): ComparedLog {
+  const entries = logs.filter(entry => entry.sourceFile === fileName);
+  return { name: fileName, entries, summary: generateLogSummary(entries) };
+}
+
+/**
+ * Length of a summary's time range in hours
+ *
+ * Logs that cover different lengths of time can only be compared by rate.
+ *
+ * @returns Hours, or null when the range is missing or has no length
+ */
+function getTimeRangeHours(summary: LogSummary): number | null {
+  if (!summary.timeRange) return null;
+  const hours = (summary.timeRange.end.getTime() - summary.timeRange.start.getTime()) / (60 * 60 * 1000);
+  return hours > 0 ? hours : null;
+}
+
+/**
+ * Count the errors of each session template per log
+ */
+function countErrorTemplates(
+  baseline: LogEntry[],
+  compared: LogEntry[],
+  templates: LogTemplate[]
+): { message: string; before: number; after: number }[] {
+  const counts = new Map<string, { before: number; after: number }>();
+
+  const addErrors = (entries: LogEntry[], side: 'before' | 'after') => {
+    entries.forEach(entry => {
+      if (entry.level !== 'ERROR' || !entry.templateId) return;
+      const count = counts.get(entry.templateId) ?? { before: 0, after: 0 };
+      count[side]++;
+      counts.set(entry.templateId, count);
+    });
+  };
+  addErrors(baseline, 'before');
+  addErrors(compared, 'after');
+
+  const text = new Map(templates.map(template => [template.id, template.template]));
+  return Array.from(counts, ([templateId, count]) => ({ message: text.get(templateId) ?? templateId, ...count }));
+}
+
+/**
+ * Values of a field that the later log has and the earlier one does not
+ */
+function getNewValues(baseline: LogEntry[], compared: LogEntry[], field: 'threadId' | 'source'): string[] {
+  const known = new Set(baseline.map(entry => entry[field]));
+  const added = new Set<string>();
+  compared.forEach(entry => {
+    const value = entry[field];
+    if (value && !known.has(value)) added.add(value);
+  });
+  return Array.from(added).sort();
+}
+
+/**
+ * Compare two logs
+ *
+ * Pattern frequencies are compared per hour when both logs have a time
+ * range, so a longer capture after the fix does not read as a regression.
+ *
+ * @param baseline - The earlier log, e.g. before the fix
+ * @param compared - The later log, e.g. after the fix
+ * @param templates - Templates of the session, whose IDs are set on the entries
+ * @returns Level, error pattern, error rate and thread/source differences
+ */
+export function compareLogs(baseline: ComparedLog, compared: ComparedLog, templates: LogTemplate[]): LogComparison {
+  const before = baseline.summary;
+  const after = compared.summary;
+
+  const levels: LevelCountChange[] = [
+    { label: 'Total', before: before.totalEntries, after: after.totalEntries },
+    { label: 'ERROR', before: before.errorCount, after: after.errorCount },
+    { label: 'WARN', before: before.warningCount, after: after.warningCount },
+    { label: 'INFO', before: before.infoCount, after: after.infoCount },
+    { label: 'DEBUG', before: before.debugCount, after: after.debugCount },
+  ];
+
+  // Scale counts to the same length of time when both logs have one
+  const beforeHours = getTimeRangeHours(before);
+  const afterHours = getTimeRangeHours(after);
+  const byRate = beforeHours !== null && afterHours !== null;
+
+  // The most frequent templates of each side
+  const counts = countErrorTemplates(baseline.entries, compared.entries, templates);
+  const top = new Set([
+    ...counts.filter(template => template.before > 0).sort((a, b) => b.before - a.before).slice(0, TOP_PATTERN_COUNT),
+    ...counts.filter(template => template.after > 0).sort((a, b) => b.after - a.after).slice(0, TOP_PATTERN_COUNT),
+  ]);
+
+  const errorPatterns = Array.from(top)
+    .map(({ message, before: beforeCount, after: afterCount }) => {
+      const beforeFrequency = byRate ? beforeCount / beforeHours! : beforeCount;
+      const afterFrequency = byRate ? afterCount / afterHours! : afterCount;
+
+      let change: ErrorPatternChangeKind = 'unchanged';
+      if (beforeCount === 0) change = 'new';
+      else if (afterCount === 0) change = 'resolved';
+      else if (afterFrequency > beforeFrequency) change = 'increased';
+      else if (afterFrequency < beforeFrequency) change = 'decreased';
+
+      return { message, before: beforeCount, after: afterCount, change };
+    })
+    .sort((a, b) => CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change)
+      || Math.max(b.before, b.after) - Math.max(a.before, a.after));
+
+  return {
+    baselineName: baseline.name,
+    comparedName: compared.name,
+    levels,
+    errorPatterns,
+    errorRatePerHour: {
+      before: beforeHours !== null ? before.errorCount / beforeHours : null,
+      after: afterHours !== null ? after.errorCount / afterHours : null,
+    },
+    newThreads: getNewValues(baseline.entries, compared.entries, 'threadId'),
+    newSources: getNewValues(baseline.entries, compared.entries, 'source'),
+  };
+}
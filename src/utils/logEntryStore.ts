@@ -0,0 +1,435 @@
+import { LogEntry } from '../types/log';
+import { PartialParseSummary } from '../types/worker';
+
+/**
+ * Columnar Log Entry Store
+ *
+ * Compact storage for entries while a file is being parsed. Instead of one
+ * object per entry, each field is kept in its own column: timestamps,
+ * offsets and levels in growable typed arrays, thread IDs and sources
+ * interned in dictionaries. Entry objects are only built when the parse is
+ * finished, so a large file never holds both its text and millions of
+ * half-built objects at once.
+ */
+
+/**
+ * Log levels in column order; the level column stores the index
+ */
+const LEVELS: LogEntry['level'][] = ['ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE'];
+
+/**
+ * Initial capacity of the typed columns
+ */
+const INITIAL_CAPACITY = 1024;
+
+/**
+ * Dictionary of repeated strings such as thread IDs
+ * Index 0 is reserved for "no value"
+ */
+interface StringDictionary {
+  values: string[];
+  lookup: Map<string, number>;
+}
+
+/**
+ * Columnar storage for parsed log entries
+ */
+export interface LogEntryStore {
+  /** Number of entries stored */
+  count: number;
+
+  /** Epoch milliseconds per entry; NaN when the entry has no timestamp */
+  timestamps: Float64Array;
+
+  /** UTC offset in minutes per entry; NaN when unknown */
+  utcOffsets: Float64Array;
+
+  /** Index into LEVELS per entry */
+  levels: Uint8Array;
+
+  /** 1 where the level was guessed from the message rather than written */
+  inferredLevels: Uint8Array;
+
+  /** Original line number per entry, used for entry IDs */
+  lineNumbers: Uint32Array;
+
+  /** Dictionary index of the thread ID per entry */
+  threadIds: Uint32Array;
+
+  /** Dictionary index of the source per entry */
+  sources: Uint32Array;
+
+  /** Message text per entry */
+  messages: string[];
+
+  /** Raw text per entry, including continuation lines */
+  raws: string[];
+
+  /** Continuation lines for the entries that have them */
+  stackTraces: Map<number, string[]>;
+
+  /** Distinct thread IDs referenced by threadIds */
+  threadDictionary: StringDictionary;
+
+  /** Distinct sources referenced by sources */
+  sourceDictionary: StringDictionary;
+
+  /** Running counts per level, for partial results */
+  levelCounts: number[];
+
+  /** Earliest and latest timestamps seen so far */
+  minTimestamp: number;
+  maxTimestamp: number;
+}
+
+/**
+ * Create an empty store
+ */
+export function createLogEntryStore(): LogEntryStore {
+  return {
+    count: 0,
+    timestamps: new Float64Array(INITIAL_CAPACITY),
+    utcOffsets: new Float64Array(INITIAL_CAPACITY),
+    levels: new Uint8Array(INITIAL_CAPACITY),
+    inferredLevels: new Uint8Array(INITIAL_CAPACITY),
+    lineNumbers: new Uint32Array(INITIAL_CAPACITY),
+    threadIds: new Uint32Array(INITIAL_CAPACITY),
+    sources: new Uint32Array(INITIAL_CAPACITY),
+    messages: [],
+    raws: [],
+    stackTraces: new Map(),
+    threadDictionary: { values: [''], lookup: new Map() },
+    sourceDictionary: { values: [''], lookup: new Map() },
+    levelCounts: LEVELS.map(() => 0),
+    minTimestamp: Infinity,
+    maxTimestamp: -Infinity,
+  };
+}
+
+/**
+ * Copy a typed column into a larger one
+ */
+function grow<T extends Float64Array | Uint32Array | Uint8Array>(column: T, capacity: number): T {
+  const larger = new (column.constructor as new (length: number) => T)(capacity);
+  larger.set(column);
+  return larger;
+}
+
+/**
+ * Look up or add a string in a dictionary
+ */
+function intern(dictionary: StringDictionary, value: string | undefined): number {
+  if (!value) return 0;
+
+  let index = dictionary.lookup.get(value);
+  if (index === undefined) {
+    index = dictionary.values.length;
+    dictionary.values.push(value);
+    dictionary.lookup.set(value, index);
+  }
+  return index;
+}
+
+/**
+ * Append a parsed entry to the store
+ *
+ * @param store - Store to append to
+ * @param entry - Parsed entry
+ * @param lineNumber - Original line index of the entry
+ */
+export function appendLogEntry(store: LogEntryStore, entry: LogEntry, lineNumber: number): void {
+  if (store.count === store.timestamps.length) {
+    const capacity = store.timestamps.length * 2;
+    store.timestamps = grow(store.timestamps, capacity);
+    store.utcOffsets = grow(store.utcOffsets, capacity);
+    store.levels = grow(store.levels, capacity);
+    store.inferredLevels = grow(store.inferredLevels, capacity);
+    store.lineNumbers = grow(store.lineNumbers, capacity);
+    store.threadIds = grow(store.threadIds, capacity);
+    store.sources = grow(store.sources, capacity);
+  }
+
+  const index = store.count;
+  const time = entry.timestamp ? entry.timestamp.getTime() : NaN;
+  const level = Math.max(LEVELS.indexOf(entry.level), 0);
+
+  store.timestamps[index] = time;
+  store.utcOffsets[index] = entry.utcOffset ?? NaN;
+  store.levels[index] = level;
+  store.inferredLevels[index] = entry.levelInferred ? 1 : 0;
+  store.lineNumbers[index] = lineNumber;
+  store.threadIds[index] = intern(store.threadDictionary, entry.threadId);
+  store.sources[index] = intern(store.sourceDictionary, entry.source);
+  store.messages.push(entry.message);
+  store.raws.push(entry.raw);
+  if (entry.stackTrace) {
+    store.stackTraces.set(index, entry.stackTrace);
+  }
+
+  store.levelCounts[level]++;
+  if (!isNaN(time)) {
+    store.minTimestamp = Math.min(store.minTimestamp, time);
+    store.maxTimestamp = Math.max(store.maxTimestamp, time);
+  }
+  store.count++;
+}
+
+/**
+ * Fold a continuation line into the most recent entry
+ *
+ * @param store - Store holding the entry
+ * @param line - Continuation line
+ * @returns False if the store is still empty
+ */
+export function appendContinuationToLast(store: LogEntryStore, line: string): boolean {
+  if (store.count === 0) return false;
+
+  const index = store.count - 1;
+  const stackTrace = store.stackTraces.get(index);
+  if (stackTrace) {
+    stackTrace.push(line);
+  } else {
+    store.stackTraces.set(index, [line]);
+  }
+  store.raws[index] = `${store.raws[index]}\n${line}`;
+  return true;
+}
+
+/**
+ * Build the entry object for one stored entry
+ *
+ * @param store - Store holding the entry
+ * @param index - Position of the entry in the store
+ * @returns LogEntry with the same fields the line parser produced
+ */
+export function getLogEntry(store: LogEntryStore, index: number): LogEntry {
+  const time = store.timestamps[index];
+  const utcOffset = store.utcOffsets[index];
+  const entry: LogEntry = {
+    id: `log-${store.lineNumbers[index]}`,
+    timestamp: isNaN(time) ? null : new Date(time),
+    level: LEVELS[store.levels[index]],
+    message: store.messages[index],
+    threadId: store.threadDictionary.values[store.threadIds[index]] || undefined,
+    source: store.sourceDictionary.values[store.sources[index]] || undefined,
+    raw: store.raws[index],
+  };
+
+  if (!isNaN(utcOffset)) entry.utcOffset = utcOffset;
+  if (store.inferredLevels[index]) entry.levelInferred = true;
+  const stackTrace = store.stackTraces.get(index);
+  if (stackTrace) entry.stackTrace = stackTrace;
+
+  return entry;
+}
+
+/**
+ * Build entry objects for the whole store
+ *
+ * @param store - Store to read
+ * @returns Entries in the order they were appended
+ */
+export function toLogEntries(store: LogEntryStore): LogEntry[] {
+  const entries: LogEntry[] = new Array(store.count);
+  for (let i = 0; i < store.count; i++) {
+    entries[i] = getLogEntry(store, i);
+  }
+  return entries;
+}
+
+/**
+ * Summarise what has been parsed so far
+ *
+ * Cheap enough to call while a file is still loading; outliers are not
+ * removed yet, so the time range may still widen or shrink at the end.
+ *
+ * @param store - Store to summarise
+ * @returns Running counts and time range
+ */
+export function summarizeLogEntryStore(store: LogEntryStore): PartialParseSummary {
+  return {
+    entryCount: store.count,
+    errorCount: store.levelCounts[LEVELS.indexOf('ERROR')],
+    warningCount: store.levelCounts[LEVELS.indexOf('WARN')],
+    timeRange: store.minTimestamp <= store.maxTimestamp
+      ? { start: new Date(store.minTimestamp), end: new Date(store.maxTimestamp) }
+      : null,
+  };
+}
+
+// ============================================================================
+// TRANSFER BETWEEN THREADS
+// ============================================================================
+
+/**
+ * Parsed entries in columnar form, as posted by the parse worker
+ *
+ * Structured-cloning millions of entry objects serialises every one of them
+ * and rebuilds them on the other side, doubling peak memory for large
+ * files. The typed columns here are transferred instead of copied, and
+ * repeated values travel once in their dictionaries, so only the message
+ * and raw text tables are cloned. Entry IDs are not stored: every parser
+ * run by the worker identifies an entry by its line as `log-N`.
+ */
+export interface PackedLogEntries {
+  /** Number of entries, in display order */
+  count: number;
+
+  /** Epoch milliseconds per entry; NaN when the entry has no timestamp */
+  timestamps: Float64Array;
+
+  /** UTC offset in minutes per entry; NaN when unknown */
+  utcOffsets: Float64Array;
+
+  /** Index into LEVELS per entry */
+  levels: Uint8Array;
+
+  /** PACKED_LEVEL_INFERRED and PACKED_TIMESTAMP_OUTLIER bits per entry */
+  flags: Uint8Array;
+
+  /** Line number of the entry ID per entry */
+  lineNumbers: Uint32Array;
+
+  /** Index into threadValues per entry; 0 for none */
+  threadIds: Uint32Array;
+
+  /** Index into sourceValues per entry; 0 for none */
+  sources: Uint32Array;
+
+  /** Distinct thread IDs, with "no value" at index 0 */
+  threadValues: string[];
+
+  /** Distinct sources, with "no value" at index 0 */
+  sourceValues: string[];
+
+  /** Message text per entry */
+  messages: string[];
+
+  /** Raw text per entry */
+  raws: string[];
+
+  /** Continuation lines of the entries that have them, by position */
+  stackTraces: [number, string[]][];
+
+  /** Structured record fields of the entries that have them, by position */
+  fields: [number, Record<string, string>][];
+}
+
+/**
+ * Flag bit set when the level was guessed from the message
+ */
+const PACKED_LEVEL_INFERRED = 1;
+
+/**
+ * Flag bit set when the timestamp lies far outside the rest of the file
+ */
+const PACKED_TIMESTAMP_OUTLIER = 2;
+
+/**
+ * Prefix of the entry IDs the worker's parsers assign
+ */
+const ENTRY_ID_PREFIX = 'log-';
+
+/**
+ * Pack entries into columns for posting to another thread
+ *
+ * @param entries - Entries in display order, with `log-N` IDs
+ * @returns Columnar copy of the entries; the text is shared, not copied
+ */
+export function packLogEntries(entries: LogEntry[]): PackedLogEntries {
+  const count = entries.length;
+  const threadDictionary: StringDictionary = { values: [''], lookup: new Map() };
+  const sourceDictionary: StringDictionary = { values: [''], lookup: new Map() };
+  const packed: PackedLogEntries = {
+    count,
+    timestamps: new Float64Array(count),
+    utcOffsets: new Float64Array(count),
+    levels: new Uint8Array(count),
+    flags: new Uint8Array(count),
+    lineNumbers: new Uint32Array(count),
+    threadIds: new Uint32Array(count),
+    sources: new Uint32Array(count),
+    threadValues: threadDictionary.values,
+    sourceValues: sourceDictionary.values,
+    messages: new Array(count),
+    raws: new Array(count),
+    stackTraces: [],
+    fields: [],
+  };
+
+  entries.forEach((entry, index) => {
+    packed.timestamps[index] = entry.timestamp ? entry.timestamp.getTime() : NaN;
+    packed.utcOffsets[index] = entry.utcOffset ?? NaN;
+    packed.levels[index] = Math.max(LEVELS.indexOf(entry.level), 0);
+    packed.flags[index] = (entry.levelInferred ? PACKED_LEVEL_INFERRED : 0) |
+      (entry.timestampOutlier ? PACKED_TIMESTAMP_OUTLIER : 0);
+    packed.lineNumbers[index] = parseInt(entry.id.slice(ENTRY_ID_PREFIX.length), 10) || 0;
+    packed.threadIds[index] = intern(threadDictionary, entry.threadId);
+    packed.sources[index] = intern(sourceDictionary, entry.source);
+    packed.messages[index] = entry.message;
+    packed.raws[index] = entry.raw;
+    if (entry.stackTrace) packed.stackTraces.push([index, entry.stackTrace]);
+    if (entry.fields) packed.fields.push([index, entry.fields]);
+  });
+
+  return packed;
+}
+
+/**
+ * Buffers of the typed columns, to pass as postMessage's transfer list
+ *
+ * The columns are unusable in the sending thread once transferred.
+ *
+ * @param packed - Packed entries about to be posted
+ * @returns Buffers to transfer
+ */
+export function getPackedLogEntryTransferables(packed: PackedLogEntries): ArrayBuffer[] {
+  return [
+    packed.timestamps,
+    packed.utcOffsets,
+    packed.levels,
+    packed.flags,
+    packed.lineNumbers,
+    packed.threadIds,
+    packed.sources,
+  ].map(column => column.buffer as ArrayBuffer);
+}
+
+/**
+ * Build entry objects from packed columns
+ *
+ * @param packed - Packed entries received from another thread
+ * @returns Entries in the packed (display) order
+ */
+export function unpackLogEntries(packed: PackedLogEntries): LogEntry[] {
+  const stackTraces = new Map(packed.stackTraces);
+  const fields = new Map(packed.fields);
+  const entries: LogEntry[] = new Array(packed.count);
+
+  for (let i = 0; i < packed.count; i++) {
+    const time = packed.timestamps[i];
+    const utcOffset = packed.utcOffsets[i];
+    const flags = packed.flags[i];
+    const entry: LogEntry = {
+      id: `${ENTRY_ID_PREFIX}${packed.lineNumbers[i]}`,
+      timestamp: isNaN(time) ? null : new Date(time),
+      level: LEVELS[packed.levels[i]],
+      message: packed.messages[i],
+      threadId: packed.threadValues[packed.threadIds[i]] || undefined,
+      source: packed.sourceValues[packed.sources[i]] || undefined,
+      raw: packed.raws[i],
+    };
+
+    if (!isNaN(utcOffset)) entry.utcOffset = utcOffset;
+    if (flags & PACKED_LEVEL_INFERRED) entry.levelInferred = true;
+    if (flags & PACKED_TIMESTAMP_OUTLIER) entry.timestampOutlier = true;
+    const stackTrace = stackTraces.get(i);
+    if (stackTrace) entry.stackTrace = stackTrace;
+    const entryFields = fields.get(i);
+    if (entryFields) entry.fields = entryFields;
+
+    entries[i] = entry;
+  }
+
+  return entries;
+}
@@ -0,0 +1,222 @@
+import { LogEntry, LogFormatDefinition } from '../types/log';
+
+/**
+ * Log Format Registry
+ *
+ * This module holds the declarative definitions of the log layouts the parser
+ * knows about and picks the best one for an uploaded file. Adding support for
+ * a new product log means adding a definition here rather than editing the
+ * heuristics in parseLogLine.
+ *
+ * Detection works by scoring every registered format against a sample of the
+ * file's first lines. The format matching the most lines wins; when nothing
+ * scores high enough the parser falls back to its generic heuristics.
+ */
+
+// ============================================================================
+// DETECTION SETTINGS
+// ============================================================================
+
+/**
+ * Number of content lines sampled from the start of the file for detection
+ */
+export const FORMAT_DETECTION_SAMPLE_SIZE = 100;
+
+/**
+ * Minimum share of sampled lines a format must match to be selected
+ */
+const MIN_FORMAT_SCORE = 0.6;
+
+/**
+ * Score bonus for formats whose header line appears in the sample
+ */
+const HEADER_MATCH_BONUS = 0.25;
+
+// ============================================================================
+// LEVEL MAPPINGS
+// ============================================================================
+
+/**
+ * Map syslog severity (taken from the PRI value) to a standard level
+ *
+ * Severity is PRI modulo 8: 0-3 emergency..error, 4 warning,
+ * 5-6 notice/informational, 7 debug.
+ */
+function mapSyslogPriority(value: string): LogEntry['level'] | undefined {
+  const priority = parseInt(value, 10);
+  if (isNaN(priority)) return undefined;
+
+  const severity = priority % 8;
+  if (severity <= 3) return 'ERROR';
+  if (severity === 4) return 'WARN';
+  if (severity <= 6) return 'INFO';
+  return 'DEBUG';
+}
+
+/**
+ * Map an HTTP status code from an IIS log to a standard level
+ */
+function mapHttpStatus(value: string): LogEntry['level'] | undefined {
+  const status = parseInt(value, 10);
+  if (isNaN(status)) return undefined;
+
+  if (status >= 500) return 'ERROR';
+  if (status >= 400) return 'WARN';
+  return 'INFO';
+}
+
+// ============================================================================
+// BUILT-IN FORMAT DEFINITIONS
+// ============================================================================
+
+/**
+ * Formats shipped with the application
+ *
+ * Order matters only for ties: more specific formats come first so that a
+ * generic layout does not win against a product-specific one.
+ */
+const BUILT_IN_LOG_FORMATS: LogFormatDefinition[] = [
+  {
+    id: 'projectwise-integration-server',
+    name: 'ProjectWise Integration Server',
+    description: 'Integration Server (dmsgen/pwlogger) log with bracketed component and thread',
+    // 2025-01-15 10:30:00,123 ERROR [dmsgen] [4312] Message
+    linePattern: /^(?<timestamp>\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2},\d{3})\s+(?<level>[A-Z]+)\s+\[(?<source>[^\]]+)\]\s+\[(?<thread>\d+)\]\s+(?<message>.*)$/,
+    timestampFormat: 'yyyy-MM-dd HH:mm:ss,SSS',
+  },
+  {
+    id: 'projectwise-design-integration',
+    name: 'ProjectWise Design Integration Client',
+    description: 'Explorer / Design Integration client log with thread before the level',
+    // 2025-01-15 10:30:00.123 [4312] ERROR pwc.dll: Message
+    linePattern: /^(?<timestamp>\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{3})\s+\[(?<thread>\d+)\]\s+(?<level>[A-Z]+)\s+(?:(?<source>[\w.-]+):\s+)?(?<message>.*)$/,
+    timestampFormat: 'yyyy-MM-dd HH:mm:ss.SSS',
+  },
+  {
+    id: 'iis-w3c',
+    name: 'IIS W3C Extended',
+    description: 'Microsoft IIS access log in the default W3C field order',
+    // 2025-01-15 10:30:00 10.0.0.5 GET /ws/api - 443 - 10.0.0.9 Mozilla/5.0 - 500 0 0 125
+    linePattern: /^(?<timestamp>\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\s+(?<source>\S+)\s+(?<message>\S+\s+\S+\s+\S+\s+\d+\s+\S+\s+\S+\s+\S+\s+\S+)\s+(?<level>\d{3})\s+\d+\s+\d+\s+\d+$/,
+    timestampFormat: 'yyyy-MM-dd HH:mm:ss',
+    headerPattern: /^#Software: Microsoft Internet Information Services/,
+    ignorePattern: /^#/,
+    mapLevel: mapHttpStatus,
+  },
+  {
+    id: 'syslog-rfc5424',
+    name: 'Syslog (RFC 5424)',
+    description: 'Structured syslog with PRI, version and ISO timestamp',
+    // <34>1 2025-01-15T10:30:00.003Z host app 4312 ID47 - Message
+    linePattern: /^<(?<level>\d{1,3})>1\s+(?<timestamp>\S+)\s+\S+\s+(?<source>\S+)\s+(?<thread>\S+)\s+\S+\s+(?:-|\[.*?\])\s*(?<message>.*)$/,
+    timestampFormat: 'iso',
+    mapLevel: mapSyslogPriority,
+  },
+  {
+    id: 'log4j-pattern',
+    name: 'log4j Pattern Layout',
+    description: 'Default log4j / log4net layout: %d [%t] %-5p %c - %m',
+    // 2025-01-15 10:30:00,123 [main] ERROR com.example.Service - Message
+    linePattern: /^(?<timestamp>\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2},\d{3})\s+\[(?<thread>[^\]]+)\]\s+(?<level>[A-Z]+)\s+(?<source>\S+)\s+-\s+(?<message>.*)$/,
+    timestampFormat: 'yyyy-MM-dd HH:mm:ss,SSS',
+  },
+];
+
+/**
+ * Active format registry
+ * Starts with the built-in formats; more can be added at runtime
+ */
+const formatRegistry: LogFormatDefinition[] = [...BUILT_IN_LOG_FORMATS];
+
+// ============================================================================
+// REGISTRY ACCESS
+// ============================================================================
+
+/**
+ * Register a log format definition
+ *
+ * A definition with the same id as an existing one replaces it, so callers
+ * can re-register edited formats without clearing the registry first.
+ *
+ * @param format - Format definition to register
+ */
+export function registerLogFormat(format: LogFormatDefinition): void {
+  const existingIndex = formatRegistry.findIndex(f => f.id === format.id);
+  if (existingIndex !== -1) {
+    formatRegistry[existingIndex] = format;
+  } else {
+    formatRegistry.push(format);
+  }
+}
+
+/**
+ * Remove a log format definition from the registry
+ *
+ * @param id - Identifier of the format to remove
+ */
+export function unregisterLogFormat(id: string): void {
+  const existingIndex = formatRegistry.findIndex(f => f.id === id);
+  if (existingIndex !== -1) {
+    formatRegistry.splice(existingIndex, 1);
+  }
+}
+
+/**
+ * Get all registered log formats
+ *
+ * @returns Registered format definitions in detection order
+ */
+export function getLogFormats(): LogFormatDefinition[] {
+  return [...formatRegistry];
+}
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Score a single format against a sample of lines
+ *
+ * The score is the share of content lines matched by the format's line
+ * pattern, plus a bonus when one of its header lines is present.
+ *
+ * @param format - Format definition to score
+ * @param lines - Sample lines from the start of the file
+ * @returns Detection score (0 when nothing matches)
+ */
+export function scoreLogFormat(format: LogFormatDefinition, lines: string[]): number {
+  const contentLines = lines.filter(line => !format.ignorePattern?.test(line));
+  if (contentLines.length === 0) return 0;
+
+  const matched = contentLines.filter(line => format.linePattern.test(line)).length;
+  const hasHeader = !!format.headerPattern && lines.some(line => format.headerPattern!.test(line));
+
+  return matched / contentLines.length + (hasHeader ? HEADER_MATCH_BONUS : 0);
+}
+
+/**
+ * Pick the best registered format for a file
+ *
+ * Continuation lines (stack frames etc.) never match a line pattern, so the
+ * caller should pass lines that can start an entry when it can tell them apart.
+ *
+ * @param lines - Lines from the file (only the first sample is examined)
+ * @returns Best-scoring format, or null to fall back to heuristic parsing
+ */
+export function detectLogFormat(lines: string[]): LogFormatDefinition | null {
+  const sample = lines.filter(line => line.trim()).slice(0, FORMAT_DETECTION_SAMPLE_SIZE);
+  if (sample.length === 0) return null;
+
+  let bestFormat: LogFormatDefinition | null = null;
+  let bestScore = 0;
+
+  formatRegistry.forEach(format => {
+    const score = scoreLogFormat(format, sample);
+    if (score > bestScore) {
+      bestScore = score;
+      bestFormat = format;
+    }
+  });
+
+  return bestScore >= MIN_FORMAT_SCORE ? bestFormat : null;
+}
@@ -1,4 +1,9 @@
-import { LogEntry, LogSummary } from '../types/log';
+import { FileLevelCounts, LogEntry, LogFormatDefinition, LogParseOptions, LogSummary } from '../types/log';
+import { ParseProgressCallback, PartialParseSummary } from '../types/worker';
+import { FORMAT_DETECTION_SAMPLE_SIZE, detectLogFormat, getLogFormats } from './logFormats';
+import { appendContinuationToLast, appendLogEntry, createLogEntryStore, summarizeLogEntryStore, toLogEntries } from './logEntryStore';
+import { LOCAL_TIMEZONE, hasExplicitOffset, isPlausibleTimestamp, markTimestampOutliers, parseTimestampWithFormat, resolveUtcOffset, wallClockToInstant } from './timestampUtils';
+import { YEARLESS_TIMESTAMP_PATTERNS, buildDateWithYear, createYearTracker, inferStartYear, parseYearlessTimestamp } from './yearInference';
 
 /**
  * Log Parser Utilities
@@ -8,6 +13,7 @@ import { LogEntry, LogSummary } from '../types/log';
  * and visualized throughout the application.
  * 
  * Key Features:
+ * - Known-format detection through the format registry (see logFormats.ts)
  * - Multi-format log parsing (various timestamp formats, log levels)
  * - Robust timestamp extraction and validation
  * - Log level detection and normalization
@@ -18,6 +24,22 @@ import { LogEntry, LogSummary } from '../types/log';
  * No log content is ever transmitted to external services.
  */
 
+/**
+ * Number of lines between progress updates
+ */
+const PROGRESS_INTERVAL = 5000;
+
+/**
+ * Result of parsing a whole log file
+ */
+export interface ParsedLogFile {
+  /** Parsed entries, newest first */
+  entries: LogEntry[];
+
+  /** Name of the format the file was parsed with, null for the generic heuristics */
+  formatName: string | null;
+}
+
 /**
  * Main log file parsing function
  * 
@@ -26,33 +48,285 @@ import { LogEntry, LogSummary } from '../types/log';
  * parsing for unrecognized formats.
  * 
  * @param content - Raw text content of the log file
- * @returns Array of parsed LogEntry objects
+ * @param options - Upload-time parse settings such as the source timezone
+ * @param onProgress - Optional callback receiving line progress updates
+ * @returns Parsed entries and the format used
  */
-export function parseLogFile(content: string): LogEntry[] {
+export function parseLogFile(
+  content: string,
+  options: LogParseOptions = {},
+  onProgress?: ParseProgressCallback
+): ParsedLogFile {
   // Split content into individual lines and filter out empty lines
-  const lines = content.split('\n').filter(line => line.trim());
-  const entries: LogEntry[] = [];
+  const lines = content.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+
+  // Work out the year for lines stamped without one (01-15 10:30:00, Jan 15 10:30:00)
+  const parser = createLogLineParser(options, inferStartYear(lines, options));
+
+  for (let i = 0; i < lines.length; i += PROGRESS_INTERVAL) {
+    onProgress?.({ phase: 'parsing', processed: i, total: lines.length });
+    parser.pushLines(lines.slice(i, i + PROGRESS_INTERVAL));
+  }
+
+  onProgress?.({ phase: 'parsing', processed: lines.length, total: lines.length });
+
+  const entries = parser.finish();
+  return { entries, formatName: parser.getFormatName() };
+}
+
+/**
+ * Incremental Log Line Parser
+ * 
+ * Parses a file a batch of lines at a time, so streamed files never have to
+ * be held in memory as one string. Entries are kept in a columnar store
+ * until the parse is finished.
+ */
+export interface LogLineParser {
+  /** Parse the next lines of the file, in file order */
+  pushLines: (lines: string[]) => void;
+
+  /** Running totals for the lines parsed so far */
+  getPartialSummary: () => PartialParseSummary;
+
+  /** Parse any buffered lines, flag outliers and return entries newest first */
+  finish: () => LogEntry[];
+
+  /** Name of the format in use, null while detecting or when none fits */
+  getFormatName: () => string | null;
+}
+
+/**
+ * Create an incremental parser for one log file
+ * 
+ * The first lines are held back until enough have arrived to detect the
+ * file's format; after that each line is parsed as soon as it is pushed.
+ * 
+ * @param options - Upload-time parse settings such as the source timezone
+ * @param startYear - Year of the first yearless timestamp, if known
+ * @returns Parser to push the file's lines into
+ */
+export function createLogLineParser(options: LogParseOptions = {}, startYear: number | null = null): LogLineParser {
+  const timeZone = options.sourceTimezone || LOCAL_TIMEZONE;
+  const store = createLogEntryStore();
+  const yearOf = createYearTracker(startYear);
+
+  // undefined until detection has run; null means no registered format fits
+  // and the heuristics are used. A requested format skips detection.
+  let format: LogFormatDefinition | null | undefined = options.formatId
+    ? getLogFormats().find(definition => definition.id === options.formatId)
+    : undefined;
+  let detectionBuffer: string[] = [];
+  let detectionSampleCount = 0;
+  let lineIndex = 0;
+
+  /**
+   * Parse one line, folding stack trace continuation lines into the entry
+   * they belong to instead of creating a separate entry per frame
+   */
+  const parseLine = (line: string, index: number) => {
+    const inferredYear = yearOf(line);
+
+    if (format?.ignorePattern?.test(line)) return;
+
+    const formatEntry = format ? parseLogLineWithFormat(line, index, format, timeZone) : null;
+    if (formatEntry) {
+      appendLogEntry(store, formatEntry, index);
+      return;
+    }
+
+    if (isContinuationLine(line) && appendContinuationToLast(store, line)) {
+      return;
+    }
 
-  // Process each line individually
-  lines.forEach((line, index) => {
-    const entry = parseLogLine(line, index);
+    const entry = parseLogLine(line, index, timeZone, inferredYear);
     if (entry) {
-      entries.push(entry);
+      appendLogEntry(store, entry, index);
     }
-  });
+  };
+
+  /**
+   * Pick the best matching known format from the first lines of the file
+   * and parse the lines held back for detection
+   */
+  const detectAndFlush = () => {
+    format = detectLogFormat(detectionBuffer.filter(line => !isContinuationLine(line)));
+    if (format) {
+      console.log(`Detected log format: ${format.name}`);
+    }
+
+    const firstIndex = lineIndex - detectionBuffer.length;
+    detectionBuffer.forEach((line, offset) => parseLine(line, firstIndex + offset));
+    detectionBuffer = [];
+  };
+
+  return {
+    pushLines: (lines: string[]) => {
+      lines.forEach(rawLine => {
+        const line = rawLine.replace(/\r$/, '');
+        if (!line.trim()) return;
+
+        const index = lineIndex++;
+        if (format !== undefined) {
+          parseLine(line, index);
+          return;
+        }
 
-  // Sort entries by timestamp (newest first for display)
-  // This provides a consistent ordering regardless of input file order
-  entries.sort((a, b) => {
+        detectionBuffer.push(line);
+        if (!isContinuationLine(line)) detectionSampleCount++;
+        if (detectionSampleCount >= FORMAT_DETECTION_SAMPLE_SIZE) {
+          detectAndFlush();
+        }
+      });
+    },
+
+    getPartialSummary: () => summarizeLogEntryStore(store),
+
+    finish: () => {
+      if (format === undefined) {
+        detectAndFlush();
+      }
+
+      const entries = toLogEntries(store);
+
+      // Flag timestamps far away from the rest of the file (usually misparsed
+      // dates) so they do not stretch the time range or the charts
+      const outliers = markTimestampOutliers(entries, options.timestampWindow);
+      if (outliers > 0) {
+        console.warn(`${outliers} timestamps fall outside the file's time window`);
+      }
+
+      return sortLogEntriesNewestFirst(entries);
+    },
+
+    getFormatName: () => format?.name ?? null,
+  };
+}
+
+/**
+ * Sort entries by timestamp, newest first for display
+ * This provides a consistent ordering regardless of input file order;
+ * entries without a timestamp go last, in file order
+ *
+ * @param entries - Entries to sort in place
+ * @returns The same array, sorted
+ */
+export function sortLogEntriesNewestFirst(entries: LogEntry[]): LogEntry[] {
+  return entries.sort((a, b) => {
     // Handle null timestamps - put them at the end
     if (!a.timestamp && !b.timestamp) return 0;
     if (!a.timestamp) return 1;
     if (!b.timestamp) return -1;
-    
+
     return b.timestamp.getTime() - a.timestamp.getTime();
   });
+}
+
+// ============================================================================
+// MULTI-LINE ENTRY ASSEMBLY
+// ============================================================================
+
+/**
+ * Patterns for lines that continue the previous entry rather than start a new one
+ *
+ * Covers Java and .NET stack frames, exception chains and the markers .NET
+ * writes between inner and outer exceptions.
+ */
+const CONTINUATION_PATTERNS = [
+  /^\s*at\s+\S+/,                                     // at com.example.Foo.bar(Foo.java:42)
+  /^\s*Caused by:/,                                    // Caused by: java.io.IOException: ...
+  /^\s*Suppressed:/,                                   // Suppressed: ...
+  /^\s*\.\.\.\s*\d+\s+(?:more|common frames omitted)/,   // ... 12 more
+  /^\s*---\s*End of (?:inner exception )?stack trace/i, // --- End of inner exception stack trace ---
+  /^\s*--->\s*\S+/,                                    // ---> System.IO.IOException: ...
+  /^(?:[\w$]+\.)+[\w$]*(?:Exception|Error|Throwable)\b/, // java.lang.NullPointerException: ...
+  /^\s*Traceback \(most recent call last\)/,           // Python tracebacks
+  /^\s*File ".*", line \d+/,                           //   File "app.py", line 10, in main
+];
+
+/**
+ * Check whether a line continues the previous log entry
+ *
+ * Indented lines are treated as continuations unless they start with a
+ * timestamp of their own, so indented log formats still split correctly.
+ *
+ * @param line - Single line from log file
+ * @returns True if the line should be folded into the previous entry
+ */
+export function isContinuationLine(line: string): boolean {
+  if (startsWithTimestamp(line.trim())) return false;
+
+  if (/^[ \t]+\S/.test(line)) return true;
 
-  return entries;
+  return CONTINUATION_PATTERNS.some(pattern => pattern.test(line));
+}
+
+/**
+ * Check whether a line begins with one of the recognised timestamp formats
+ *
+ * @param line - Trimmed log line
+ * @returns True if a parseable timestamp starts the line
+ */
+function startsWithTimestamp(line: string): boolean {
+  const match = line.match(/^\[?(\d{4}-\d{2}-\d{2}[\sT]\d{2}:\d{2}:\d{2}(?:\.\d{3})?)/);
+  if (match) return parseTimestampStrict(match[1].replace('T', ' ')) !== null;
+
+  return YEARLESS_TIMESTAMP_PATTERNS.some(pattern => {
+    const yearless = line.match(pattern);
+    return !!yearless && parseYearlessTimestamp(yearless[1]) !== null;
+  });
+}
+
+/**
+ * Parse a log line using a known format definition
+ * 
+ * Maps the named groups of the format's line pattern straight onto the
+ * LogEntry fields. Lines the pattern does not match return null so the
+ * caller can treat them as continuations or fall back to the heuristics.
+ * 
+ * @param line - Single line from log file
+ * @param index - Line index for unique ID generation
+ * @param format - Format definition detected for the file
+ * @param timeZone - Source timezone for timestamps without an offset
+ * @returns Parsed LogEntry object or null if the line does not match
+ */
+export function parseLogLineWithFormat(
+  line: string,
+  index: number,
+  format: LogFormatDefinition,
+  timeZone: string = LOCAL_TIMEZONE
+): LogEntry | null {
+  const match = line.match(format.linePattern);
+  if (!match) return null;
+
+  const groups = match.groups || {};
+  const message = (groups.message ?? line).trim();
+
+  const timestamp = groups.timestamp
+    ? (format.timestampFormat
+      ? parseTimestampWithFormat(groups.timestamp, format.timestampFormat, timeZone)
+      : parseTimestampStrict(groups.timestamp, timeZone))
+    : null;
+
+  // Prefer the format's own level mapping, then the standard level names,
+  // then keyword detection on the message
+  let level: string | undefined;
+  if (groups.level) {
+    level = format.mapLevel
+      ? format.mapLevel(groups.level)
+      : (isLogLevel(groups.level) ? normalizeLogLevel(groups.level) : undefined);
+  }
+
+  return {
+    id: `log-${index}`,
+    timestamp,
+    utcOffset: timestamp ? resolveUtcOffset(groups.timestamp, timestamp, timeZone) : undefined,
+    threadId: groups.thread?.trim() || undefined,
+    level: (level || detectLevelFromMessage(message)) as LogEntry['level'],
+    levelInferred: !level || undefined,
+    message: message || line,
+    source: groups.source?.trim() || undefined,
+    raw: line,
+  };
 }
 
 /**
@@ -66,12 +340,20 @@ export function parseLogFile(content: string): LogEntry[] {
  * 
  * @param line - Single line from log file
  * @param index - Line index for unique ID generation
+ * @param timeZone - Source timezone for timestamps without an offset
+ * @param inferredYear - Year inferred for a timestamp written without one
  * @returns Parsed LogEntry object or null if line is invalid
  */
-function parseLogLine(line: string, index: number): LogEntry | null {
+export function parseLogLine(
+  line: string,
+  index: number,
+  timeZone: string = LOCAL_TIMEZONE,
+  inferredYear?: number
+): LogEntry | null {
   if (!line.trim()) return null;
 
   let timestamp: Date | null = null;
+  let timestampText = '';
   let level = 'INFO';
   let message = line;
   let source = '';
@@ -90,9 +372,10 @@ function parseLogLine(line: string, index: number): LogEntry | null {
     const timestampPart = line.substring(0, commaIndex).trim();
     const remainingPart = line.substring(commaIndex + 1).trim();
     
-    const parsedDate = parseTimestampStrict(timestampPart);
+    const parsedDate = parseTimestampStrict(timestampPart, timeZone);
     if (parsedDate) {
       timestamp = parsedDate;
+      timestampText = timestampPart;
       message = remainingPart;
     }
   }
@@ -102,10 +385,8 @@ function parseLogLine(line: string, index: number): LogEntry | null {
     const timestampPatterns = [
       // YYYY-MM-DD HH:mm:ss at start
       /^(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}(?:\.\d{3})?)\s+(.*)$/,
-      // MM-DD HH:mm:ss at start (with current year)
-      /^(\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2})\s+(.*)$/,
-      // ISO timestamp
-      /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{3})?Z?)\s+(.*)$/,
+      // ISO timestamp, optionally with a UTC offset
+      /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{3})?(?:Z|[+-]\d{2}:?\d{2})?)\s+(.*)$/,
       // Bracketed timestamp
       /^\[(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}(?:\.\d{3})?)\]\s+(.*)$/,
     ];
@@ -113,9 +394,10 @@ function parseLogLine(line: string, index: number): LogEntry | null {
     for (const pattern of timestampPatterns) {
       const match = line.match(pattern);
       if (match) {
-        const parsedDate = parseTimestampStrict(match[1]);
+        const parsedDate = parseTimestampStrict(match[1], timeZone);
         if (parsedDate) {
           timestamp = parsedDate;
+          timestampText = match[1];
           message = match[2] || '';
           break;
         }
@@ -123,12 +405,26 @@ function parseLogLine(line: string, index: number): LogEntry | null {
     }
   }
 
+  // Method 3: Yearless timestamps (MM-DD or syslog 'Jan 15'), only when a
+  // year could be inferred for this line - never assume the current year
+  if (!timestamp && inferredYear !== undefined) {
+    for (const pattern of YEARLESS_TIMESTAMP_PATTERNS) {
+      const match = line.match(pattern);
+      const parts = match ? parseYearlessTimestamp(match[1]) : null;
+      const localDate = parts ? buildDateWithYear(parts, inferredYear) : null;
+      if (match && localDate) {
+        timestamp = wallClockToInstant(localDate, timeZone);
+        timestampText = match[1];
+        message = match[2] || '';
+        break;
+      }
+    }
+  }
+
   // If we still don't have a valid timestamp, leave it as null
   // DO NOT use current date/time or placeholder dates
-  if (!timestamp) {
-    console.warn(`No valid timestamp found in log line: ${line.substring(0, 50)}...`);
-    // timestamp remains null - this will be handled in display components
-  }
+  // Such lines are counted and listed in the parse diagnostics instead of
+  // being logged one by one
 
   // ============================================================================
   // THREAD ID EXTRACTION
@@ -226,8 +522,10 @@ function parseLogLine(line: string, index: number): LogEntry | null {
   return {
     id: `log-${index}`,
     timestamp, // This can be null now
+    utcOffset: timestamp ? resolveUtcOffset(timestampText, timestamp, timeZone) : undefined,
     threadId,
     level: level as LogEntry['level'],
+    levelInferred: !matched || undefined,
     message: cleanMessage || message,
     source: source || undefined,
     raw: line,
@@ -240,10 +538,14 @@ function parseLogLine(line: string, index: number): LogEntry | null {
  * Only parses specific timestamp formats that are known to exist in log files.
  * Does NOT create fallback dates to avoid misleading analysis.
  * 
+ * Wall-clock timestamps are interpreted in the source timezone; ISO
+ * timestamps with an explicit offset use that offset.
+ * 
  * @param str - Timestamp string to parse
+ * @param timeZone - Source timezone for timestamps without an offset
  * @returns Parsed Date object or null if invalid
  */
-function parseTimestampStrict(str: string): Date | null {
+export function parseTimestampStrict(str: string, timeZone: string = LOCAL_TIMEZONE): Date | null {
   if (!str || typeof str !== 'string') return null;
   
   const trimmed = str.trim();
@@ -254,19 +556,21 @@ function parseTimestampStrict(str: string): Date | null {
 
   // Format 1: YYYY-MM-DD HH:mm:ss (most common format)
   if (/^\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}(?:\.\d{3})?$/.test(trimmed)) {
-    const date = new Date(trimmed);
-    if (!isNaN(date.getTime()) && date.getFullYear() >= 2020 && date.getFullYear() <= 2030) {
+    const date = wallClockToInstant(new Date(trimmed), timeZone);
+    if (isPlausibleTimestamp(date)) {
       return date;
     }
   }
 
-  // Format 2: MM-DD HH:mm:ss - ONLY if we can determine the year from context
-  // For now, skip this format to avoid year assumptions
+  // Format 2: MM-DD HH:mm:ss has no year - handled by parseLogLine once a
+  // year has been inferred for the line (see yearInference.ts)
   
-  // Format 3: ISO format (2025-01-15T10:30:00Z)
-  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{3})?Z?$/.test(trimmed)) {
-    const date = new Date(trimmed);
-    if (!isNaN(date.getTime()) && date.getFullYear() >= 2020 && date.getFullYear() <= 2030) {
+  // Format 3: ISO format (2025-01-15T10:30:00Z, 2025-01-15T10:30:00+10:00)
+  // Without an offset the wall-clock reading is taken in the source timezone
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{3})?(?:Z|[+-]\d{2}:?\d{2})?$/.test(trimmed)) {
+    const parsed = new Date(trimmed);
+    const date = hasExplicitOffset(trimmed) ? parsed : wallClockToInstant(parsed, timeZone);
+    if (isPlausibleTimestamp(date)) {
       return date;
     }
   }
@@ -285,7 +589,7 @@ function parseTimestampStrict(str: string): Date | null {
  * @param message - Log message content
  * @returns Inferred log level
  */
-function detectLevelFromMessage(message: string): string {
+export function detectLevelFromMessage(message: string): string {
   const lowerMessage = message.toLowerCase();
   
   // Error-indicating keywords
@@ -326,7 +630,7 @@ function detectLevelFromMessage(message: string): string {
  * @param str - String to check
  * @returns True if string is a recognized log level
  */
-function isLogLevel(str: string): boolean {
+export function isLogLevel(str: string): boolean {
   if (!str) return false;
   const normalized = str.toUpperCase().trim();
   return ['ERROR', 'ERR', 'WARN', 'WARNING', 'INFO', 'DEBUG', 'TRACE', 'FATAL', 'CRITICAL'].includes(normalized);
@@ -340,7 +644,7 @@ function isLogLevel(str: string): boolean {
  * @param level - Raw log level string
  * @returns Normalized log level
  */
-function normalizeLogLevel(level: string): string {
+export function normalizeLogLevel(level: string): string {
   if (!level) return 'INFO';
   
   const normalized = level.toUpperCase().trim();
@@ -362,11 +666,13 @@ function normalizeLogLevel(level: string): string {
  * Creates statistical analysis and insights from parsed log entries.
  * Includes error counts, critical issue identification, time range analysis,
  * and pattern detection for the most common errors.
+ * For a multi-file session the level counts are also broken down per file.
  * 
  * @param entries - Array of parsed log entries
+ * @param files - Session file names in load order (optional)
  * @returns Comprehensive LogSummary object
  */
-export function generateLogSummary(entries: LogEntry[]): LogSummary {
+export function generateLogSummary(entries: LogEntry[], files: string[] = []): LogSummary {
   // ============================================================================
   // BASIC STATISTICS CALCULATION
   // ============================================================================
@@ -395,61 +701,49 @@ export function generateLogSummary(entries: LogEntry[]): LogSummary {
     ))
     .slice(0, 10); // Limit to top 10 for performance
 
-  // ============================================================================
-  // ERROR PATTERN ANALYSIS
-  // ============================================================================
-  
-  // Count error message frequencies to identify patterns
-  const errorMessages = entries
-    .filter(e => e.level === 'ERROR')
-    .reduce((acc, entry) => {
-      // Normalize error messages by removing timestamps and numbers
-      let key = entry.message
-        .replace(/\d{4}-\d{2}-\d{2}[\sT]\d{2}:\d{2}:\d{2}(?:\.\d{3})?/g, '') // Remove timestamps
-        .replace(/\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}/g, '') // Remove MM-DD timestamps
-        .replace(/\[[^\]]+\]/g, '') // Remove bracketed content
-        .replace(/\b\d+\b/g, 'N') // Replace numbers with 'N'
-        .substring(0, 80) // Limit length
-        .trim();
-      
-      // Fallback to original message if normalized version is too short
-      if (key.length < 10) key = entry.message.substring(0, 80);
-      
-      acc[key] = (acc[key] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-  // Get top 5 most frequent error patterns
-  const topErrors = Object.entries(errorMessages)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 5)
-    .map(([message, count]) => ({ message, count }));
-
   // ============================================================================
   // TIME RANGE ANALYSIS
   // ============================================================================
   
   // CRITICAL: Only use timestamps that are actually valid
-  // Filter out null timestamps and invalid dates
+  // Null timestamps and outliers flagged at parse time are left out
   const validTimestamps = entries
-    .map(e => e.timestamp)
-    .filter((t): t is Date => 
-      t !== null && 
-      !isNaN(t.getTime()) && 
-      t.getFullYear() > 2020 && 
-      t.getFullYear() < 2030 &&
-      t.getTime() > new Date('2020-01-01').getTime()
-    );
+    .filter(e => e.timestamp && !isNaN(e.timestamp.getTime()) && !e.timestampOutlier)
+    .map(e => e.timestamp!.getTime());
 
   // Calculate time range from valid timestamps
+  // If none were found the range stays null - never use a placeholder range
   const timeRange = validTimestamps.length > 0 ? {
-    start: new Date(Math.min(...validTimestamps.map(t => t.getTime()))),
-    end: new Date(Math.max(...validTimestamps.map(t => t.getTime()))),
-  } : { 
-    // If no valid timestamps found, use placeholder range
-    start: new Date('2025-01-01'), 
-    end: new Date('2025-01-01') 
-  };
+    start: new Date(validTimestamps.reduce((min, t) => Math.min(min, t), Infinity)),
+    end: new Date(validTimestamps.reduce((max, t) => Math.max(max, t), -Infinity)),
+  } : null;
+
+  // ============================================================================
+  // PER-FILE BREAKDOWN
+  // ============================================================================
+
+  // Only worth showing when the session holds more than one file
+  let fileBreakdown: FileLevelCounts[] | undefined;
+  if (files.length > 1) {
+    const byFile = new Map<string, FileLevelCounts>(files.map(file => [file, {
+      file,
+      totalEntries: 0,
+      errorCount: 0,
+      warningCount: 0,
+      infoCount: 0,
+      debugCount: 0,
+    }]));
+    entries.forEach(entry => {
+      const counts = entry.sourceFile ? byFile.get(entry.sourceFile) : undefined;
+      if (!counts) return;
+      counts.totalEntries++;
+      if (entry.level === 'ERROR') counts.errorCount++;
+      else if (entry.level === 'WARN') counts.warningCount++;
+      else if (entry.level === 'INFO') counts.infoCount++;
+      else if (entry.level === 'DEBUG') counts.debugCount++;
+    });
+    fileBreakdown = Array.from(byFile.values());
+  }
 
   // ============================================================================
   // RETURN COMPREHENSIVE SUMMARY
@@ -462,7 +756,11 @@ export function generateLogSummary(entries: LogEntry[]): LogSummary {
     infoCount,
     debugCount,
     criticalErrors,
-    topErrors,
+    // Filled in from the session's templates, which every view shares
+    topErrors: [],
     timeRange,
+    outlierTimestampCount: entries.filter(e => e.timestampOutlier).length,
+    sourceUtcOffset: entries.find(e => e.timestamp && e.utcOffset !== undefined)?.utcOffset,
+    fileBreakdown,
   };
 }
\ No newline at end of file
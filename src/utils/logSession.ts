@@ -0,0 +1,107 @@
+import { LogEntry } from '../types/log';
+
+/**
+ * Multi-file Sessions
+ *
+ * Several log files can be loaded into one analysis, e.g. an Integration
+ * Server log and the client log of the session that failed against it.
+ * Each file's entries are tagged with the file's name and merged into one
+ * timeline, newest first, so the views work on the session as a whole and
+ * can still tell the files apart by name and colour.
+ */
+
+/**
+ * Colours that tell session files apart, assigned in load order
+ * Class names are written out in full so Tailwind keeps them
+ */
+const FILE_COLORS = [
+  { dot: 'bg-blue-500', badge: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' },
+  { dot: 'bg-emerald-500', badge: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-300' },
+  { dot: 'bg-purple-500', badge: 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300' },
+  { dot: 'bg-orange-500', badge: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300' },
+  { dot: 'bg-pink-500', badge: 'bg-pink-100 dark:bg-pink-900/30 text-pink-800 dark:text-pink-300' },
+  { dot: 'bg-cyan-500', badge: 'bg-cyan-100 dark:bg-cyan-900/30 text-cyan-800 dark:text-cyan-300' },
+  { dot: 'bg-lime-500', badge: 'bg-lime-100 dark:bg-lime-900/30 text-lime-800 dark:text-lime-300' },
+  { dot: 'bg-rose-500', badge: 'bg-rose-100 dark:bg-rose-900/30 text-rose-800 dark:text-rose-300' },
+];
+
+/**
+ * Get the colour classes of a session file
+ *
+ * @param index - Position of the file in load order
+ * @returns Classes for a colour dot and a name badge
+ */
+export function getSessionFileColor(index: number): { dot: string; badge: string } {
+  return FILE_COLORS[Math.max(index, 0) % FILE_COLORS.length];
+}
+
+/**
+ * Give a file a name no other file in the session has
+ *
+ * @param name - Uploaded file name
+ * @param existing - Names already in the session
+ * @returns The name, with a counter added if it is taken, e.g. "app.log (2)"
+ */
+export function getUniqueSessionFileName(name: string, existing: string[]): string {
+  if (!existing.includes(name)) return name;
+
+  let counter = 2;
+  while (existing.includes(`${name} (${counter})`)) counter++;
+  return `${name} (${counter})`;
+}
+
+/**
+ * Tag the entries of a newly parsed file for the session
+ *
+ * Entry IDs are only unique within a file, so they are prefixed with the
+ * file's position. Entries are modified in place.
+ *
+ * @param entries - Entries of the file
+ * @param fileName - Session name of the file
+ * @param fileIndex - Position of the file in load order
+ * @returns The same entries
+ */
+export function tagSessionEntries(entries: LogEntry[], fileName: string, fileIndex: number): LogEntry[] {
+  entries.forEach(entry => {
+    entry.id = `${fileIndex}:${entry.id}`;
+    entry.sourceFile = fileName;
+  });
+  return entries;
+}
+
+/**
+ * Merge two timelines sorted newest first into one
+ *
+ * Entries without a timestamp stay at the end, earlier files first; on
+ * equal timestamps the session's existing entries come first.
+ *
+ * @param session - Entries already in the session
+ * @param added - Entries of the file being added
+ * @returns New array with every entry, newest first
+ */
+export function mergeSessionEntries(session: LogEntry[], added: LogEntry[]): LogEntry[] {
+  const merged: LogEntry[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < session.length && j < added.length) {
+    const a = session[i].timestamp;
+    const b = added[j].timestamp;
+    if (b && (!a || b.getTime() > a.getTime())) {
+      merged.push(added[j++]);
+    } else if (a) {
+      merged.push(session[i++]);
+    } else {
+      // Both sides have reached their undated entries
+      break;
+    }
+  }
+
+  // Dated leftovers come before either side's undated entries
+  while (i < session.length && session[i].timestamp) merged.push(session[i++]);
+  while (j < added.length && added[j].timestamp) merged.push(added[j++]);
+  while (i < session.length) merged.push(session[i++]);
+  while (j < added.length) merged.push(added[j++]);
+
+  return merged;
+}
@@ -0,0 +1,142 @@
+import { LogParseOptions } from '../types/log';
+import { ParseProgressCallback } from '../types/worker';
+import { ParsedLogFile, createLogLineParser } from './logParser';
+import { createStartYearScanner, hasYearlessTimestamps } from './yearInference';
+
+/**
+ * Streaming Log File Parser
+ *
+ * Parses log files far larger than the browser could hold as one string
+ * (PWDI logs of several hundred MB to a few GB). The file is read with
+ * File.stream(), decoded chunk by chunk and fed line by line into the
+ * incremental parser, which keeps entries in compact columnar storage.
+ * Progress updates include running totals so partial results can be shown
+ * while the rest of the file is still loading.
+ *
+ * Security Note: The file is read locally by the browser; nothing is uploaded.
+ */
+
+/**
+ * Bytes read from the start of the file to decide whether years need inferring
+ */
+export const LOG_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Minimum time between progress updates while streaming
+ */
+const PROGRESS_THROTTLE_MS = 250;
+
+/**
+ * Read a file as batches of lines
+ *
+ * Lines split across chunk boundaries are carried over to the next batch.
+ *
+ * @param file - File to read
+ * @returns Batches of complete lines with the number of bytes read so far
+ */
+async function* readFileLines(file: File): AsyncGenerator<{ lines: string[]; bytesRead: number }> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let remainder = '';
+  let bytesRead = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      const lines = (remainder + decoder.decode(value, { stream: true })).split('\n');
+      remainder = lines.pop() ?? '';
+      yield { lines, bytesRead };
+    }
+
+    const rest = remainder + decoder.decode();
+    if (rest) {
+      yield { lines: [rest], bytesRead };
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+/**
+ * Read the first lines of a file without loading the rest
+ *
+ * @param file - File to sample
+ * @returns Lines from the first LOG_SAMPLE_BYTES, without the last partial line
+ */
+export async function readLogSample(file: File): Promise<string[]> {
+  const text = await file.slice(0, LOG_SAMPLE_BYTES).text();
+  const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+  if (file.size > LOG_SAMPLE_BYTES) lines.pop();
+  return lines;
+}
+
+/**
+ * Work out the year of the first yearless timestamp in a streamed file
+ *
+ * Only reads ahead when the start of the file has yearless timestamps, and
+ * stops at the first fully dated line.
+ *
+ * @param file - File to scan
+ * @param options - Upload-time options holding the year hint and file date
+ * @returns Start year, or null if not needed or not known
+ */
+async function inferStreamStartYear(file: File, options: LogParseOptions): Promise<number | null> {
+  if (options.referenceYear !== undefined) return options.referenceYear;
+  if (!hasYearlessTimestamps(await readLogSample(file))) return null;
+
+  const scanner = createStartYearScanner(options.fileLastModified);
+  for await (const { lines } of readFileLines(file)) {
+    if (lines.some(line => scanner.push(line.replace(/\r$/, '')))) break;
+  }
+  return scanner.finish();
+}
+
+/**
+ * Parse a log file by streaming it
+ *
+ * Produces the same entries as parseLogFile without reading the whole file
+ * into memory first.
+ *
+ * @param file - Log file to parse
+ * @param options - Upload-time parse settings such as the source timezone
+ * @param onProgress - Optional callback receiving byte progress and partial results
+ * @returns Parsed entries, newest first, and the format used
+ */
+export async function parseLogFileStream(
+  file: File,
+  options: LogParseOptions = {},
+  onProgress?: ParseProgressCallback
+): Promise<ParsedLogFile> {
+  const parser = createLogLineParser(options, await inferStreamStartYear(file, options));
+  let lastProgressAt = 0;
+
+  for await (const { lines, bytesRead } of readFileLines(file)) {
+    parser.pushLines(lines);
+
+    const now = Date.now();
+    if (onProgress && now - lastProgressAt >= PROGRESS_THROTTLE_MS) {
+      lastProgressAt = now;
+      onProgress({
+        phase: 'parsing',
+        unit: 'bytes',
+        processed: bytesRead,
+        total: file.size,
+        partial: parser.getPartialSummary(),
+      });
+    }
+  }
+
+  onProgress?.({
+    phase: 'parsing',
+    unit: 'bytes',
+    processed: file.size,
+    total: file.size,
+    partial: parser.getPartialSummary(),
+  });
+
+  const entries = parser.finish();
+  return { entries, formatName: parser.getFormatName() };
+}
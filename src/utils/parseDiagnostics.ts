@@ -0,0 +1,106 @@
+import { LogEntry, ParseDiagnostics } from '../types/log';
+
+/**
+ * Parse Diagnostics
+ *
+ * Measures how well a log file parsed from the entries it produced: how
+ * many got a timestamp, an explicit level, a thread and a source, and which
+ * lines no timestamp could be read from. Lines without a timestamp usually
+ * mean the format was not recognised, so they are collected for review
+ * rather than logged to the console one by one.
+ */
+
+/**
+ * Unparsed lines kept as examples in the diagnostics
+ */
+export const UNPARSED_SAMPLE_SIZE = 10;
+
+/**
+ * Longest example line kept, in characters
+ */
+const MAX_SAMPLE_LENGTH = 300;
+
+/**
+ * Read the position of an entry's first line from its ID
+ *
+ * @param entry - Parsed entry with an ID of the form log-<index>, which a
+ *   session may have prefixed with the file's position
+ * @returns Index among the file's non-empty lines, or Infinity if the ID has none
+ */
+function getEntryLineIndex(entry: LogEntry): number {
+  const match = entry.id.match(/(?:^|:)log-(\d+)$/);
+  return match ? parseInt(match[1], 10) : Infinity;
+}
+
+/**
+ * Entries without a timestamp, in file order
+ *
+ * @param entries - Parsed entries in any order
+ * @returns Entries no timestamp could be read from
+ */
+function getUnparsedEntries(entries: LogEntry[]): LogEntry[] {
+  return entries
+    .filter(entry => !entry.timestamp)
+    .sort((a, b) => getEntryLineIndex(a) - getEntryLineIndex(b));
+}
+
+/**
+ * Compute diagnostics for a parsed file
+ *
+ * @param entries - Parsed entries in any order
+ * @param formatName - Format or parser the file was read with, null for the heuristics
+ * @returns Field coverage, level detection counts and example unparsed lines
+ */
+export function computeParseDiagnostics(entries: LogEntry[], formatName: string | null): ParseDiagnostics {
+  const diagnostics: ParseDiagnostics = {
+    formatName,
+    totalLines: 0,
+    entryCount: entries.length,
+    withTimestamp: 0,
+    explicitLevels: 0,
+    inferredLevels: 0,
+    withThread: 0,
+    withSource: 0,
+    unparsedCount: 0,
+    unparsedSamples: [],
+  };
+
+  entries.forEach(entry => {
+    diagnostics.totalLines += 1 + (entry.stackTrace?.length ?? 0);
+    if (entry.timestamp) diagnostics.withTimestamp++;
+    if (entry.levelInferred) {
+      diagnostics.inferredLevels++;
+    } else {
+      diagnostics.explicitLevels++;
+    }
+    if (entry.threadId) diagnostics.withThread++;
+    if (entry.source) diagnostics.withSource++;
+  });
+
+  const unparsed = getUnparsedEntries(entries);
+  diagnostics.unparsedCount = unparsed.length;
+  diagnostics.unparsedSamples = unparsed.slice(0, UNPARSED_SAMPLE_SIZE).map(entry => {
+    const text = entry.raw.split('\n')[0];
+    const lineIndex = getEntryLineIndex(entry);
+    return {
+      line: isFinite(lineIndex) ? lineIndex + 1 : 0,
+      text: text.length > MAX_SAMPLE_LENGTH ? `${text.slice(0, MAX_SAMPLE_LENGTH)}...` : text,
+    };
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Build the text of every unparsed line for download
+ *
+ * @param entries - Parsed entries in any order
+ * @param sourceFile - Only include entries from this session file (optional)
+ * @returns Raw text of the entries without a timestamp, one per line in file order
+ */
+export function buildUnparsedLinesText(entries: LogEntry[], sourceFile?: string): string {
+  const fileEntries = sourceFile === undefined
+    ? entries
+    : entries.filter(entry => entry.sourceFile === sourceFile);
+  return getUnparsedEntries(fileEntries).map(entry => entry.raw).join('\n');
+}
@@ -0,0 +1,136 @@
+import { LogEntry, LogParseOptions, LogSummary, ParseDiagnostics } from '../types/log';
+import { AuditEntry, AuditSummary } from '../types/audit';
+import { ParseProgressCallback, ParseWorkerRequest, ParseWorkerResponse } from '../types/worker';
+import { loadCustomFormats } from './customFormats';
+import { unpackLogEntries } from './logEntryStore';
+
+/**
+ * Parse Worker Client
+ *
+ * Main-thread API for the background parse worker. Each call starts a fresh
+ * worker, forwards its progress updates and resolves with the parsed entries
+ * and summary. Log entries arrive as packed columns and are turned into
+ * entry objects here, once the worker's copy is gone. Aborting the signal
+ * terminates the worker immediately, even in the middle of a long
+ * synchronous parse.
+ */
+
+/**
+ * Handlers for an in-flight parse
+ */
+interface ParseWorkerHandlers {
+  /** Receives progress updates from the worker */
+  onProgress?: ParseProgressCallback;
+
+  /** Aborting this signal cancels the parse */
+  signal?: AbortSignal;
+}
+
+/**
+ * Message used when a parse is cancelled
+ */
+export const PARSE_CANCELLED_MESSAGE = 'Parsing cancelled';
+
+/**
+ * Run a single request in a new parse worker
+ *
+ * @param request - Request to send to the worker
+ * @param handlers - Progress callback and abort signal
+ * @returns The worker's result message
+ */
+function runParseWorker(
+  request: ParseWorkerRequest,
+  { onProgress, signal }: ParseWorkerHandlers
+): Promise<ParseWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(PARSE_CANCELLED_MESSAGE));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/parseWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new Error(PARSE_CANCELLED_MESSAGE));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const response = event.data;
+
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+
+      finish();
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+      } else {
+        resolve(response);
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Parse worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Parse a log file in the background worker
+ *
+ * Saved custom formats are read here and passed along, since the worker
+ * cannot access localStorage.
+ *
+ * @param source - Raw text content of the log file, or the File to stream
+ * @param options - Upload-time parse settings
+ * @param handlers - Progress callback and abort signal
+ * @returns Parsed entries, summary and parse diagnostics
+ */
+export async function parseLogFileInWorker(
+  source: string | File,
+  options: LogParseOptions,
+  handlers: ParseWorkerHandlers = {}
+): Promise<{ entries: LogEntry[]; summary: LogSummary; diagnostics: ParseDiagnostics }> {
+  const response = await runParseWorker(
+    { type: 'parseLog', source, options, customFormats: loadCustomFormats() },
+    handlers
+  );
+
+  if (response.type !== 'logResult') {
+    throw new Error('Unexpected response from parse worker');
+  }
+
+  return { entries: unpackLogEntries(response.entries), summary: response.summary, diagnostics: response.diagnostics };
+}
+
+/**
+ * Parse an audit trail CSV in the background worker
+ *
+ * @param content - Raw CSV content of the audit trail file
+ * @param handlers - Progress callback and abort signal
+ * @returns Parsed entries and summary
+ */
+export async function parseAuditFileInWorker(
+  content: string,
+  handlers: ParseWorkerHandlers = {}
+): Promise<{ entries: AuditEntry[]; summary: AuditSummary }> {
+  const response = await runParseWorker({ type: 'parseAudit', content }, handlers);
+
+  if (response.type !== 'auditResult') {
+    throw new Error('Unexpected response from parse worker');
+  }
+
+  return { entries: response.entries, summary: response.summary };
+}
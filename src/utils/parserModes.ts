@@ -0,0 +1,125 @@
+import { ParserMode } from '../types/log';
+import { LlmConfig } from '../types/llm';
+import { LLM_PROVIDER_LABELS, getLlmConfig, getLlmHost, isLlmConfigured } from './llmClient';
+
+/**
+ * Parser Modes
+ *
+ * Describes the three ways a log file can be parsed and, for the AI modes,
+ * which language model receives the file content. The model comes from
+ * configuration (see llmClient), so the same mode may send to a cloud
+ * service or to a model on the local network. The descriptions here are
+ * shown in the mode selector and the consent dialog, so they must stay
+ * accurate about what is sent where.
+ */
+
+/**
+ * Parser Mode Definition Interface
+ *
+ * @interface ParserModeDefinition
+ */
+export interface ParserModeDefinition {
+  /** Mode identifier */
+  id: ParserMode;
+
+  /** Short name shown in the selector */
+  label: string;
+
+  /** One-line explanation of what the mode does */
+  description: string;
+
+  /** Provider used when VITE_LLM_PROVIDER is not set, absent for local parsing */
+  defaultProvider?: LlmConfig['provider'];
+
+  /** What part of the file is sent to the model, absent for local parsing */
+  dataSent?: string;
+}
+
+/**
+ * Language model an AI parser mode sends content to
+ */
+export interface ParserModeService {
+  /** Provider and model name */
+  name: string;
+
+  /** Host the content is sent to */
+  host: string;
+}
+
+/**
+ * All parser modes in selector order; local is the default
+ */
+export const PARSER_MODES: ParserModeDefinition[] = [
+  {
+    id: 'local',
+    label: 'Local',
+    description: 'Parsed entirely in your browser. No log content is sent anywhere.',
+  },
+  {
+    id: 'hybrid',
+    label: 'Hybrid AI',
+    description: 'A language model learns the log format from a sample and the file is parsed locally with it; formats are saved for later uploads.',
+    defaultProvider: 'openai',
+    dataSent: 'A sample of the first 50 lines; every log line in batches of 100 only if no format can be learned',
+  },
+  {
+    id: 'ai',
+    label: 'Full AI',
+    description: 'A language model parses every entry of the file; statistics are computed locally.',
+    defaultProvider: 'gemini',
+    dataSent: 'The complete file content, in requests of up to 150 lines',
+  },
+];
+
+/**
+ * Parser mode used until the user picks another
+ */
+export const DEFAULT_PARSER_MODE: ParserMode = 'local';
+
+/**
+ * Look up the definition of a parser mode
+ *
+ * @param mode - Mode identifier
+ * @returns The mode's definition
+ */
+export function getParserMode(mode: ParserMode): ParserModeDefinition {
+  return PARSER_MODES.find(definition => definition.id === mode) ?? PARSER_MODES[0];
+}
+
+/**
+ * Read the language model configuration for an AI parser mode
+ *
+ * @param mode - Mode identifier
+ * @returns Configuration, or null for local mode
+ */
+export function getParserModeLlmConfig(mode: ParserMode): LlmConfig | null {
+  const { defaultProvider } = getParserMode(mode);
+  return defaultProvider ? getLlmConfig(defaultProvider) : null;
+}
+
+/**
+ * Check whether a parser mode can be used with the current configuration
+ *
+ * @param mode - Mode identifier
+ * @returns True for local mode, or if the mode's model is configured
+ */
+export function isParserModeAvailable(mode: ParserMode): boolean {
+  const config = getParserModeLlmConfig(mode);
+  return !config || isLlmConfigured(config);
+}
+
+/**
+ * Describe where an AI parser mode sends content
+ *
+ * @param mode - Mode identifier
+ * @returns Model name and host, or null for local mode
+ */
+export function getParserModeService(mode: ParserMode): ParserModeService | null {
+  const config = getParserModeLlmConfig(mode);
+  if (!config) return null;
+
+  return {
+    name: `${LLM_PROVIDER_LABELS[config.provider]} (${config.model})`,
+    host: getLlmHost(config),
+  };
+}
@@ -1,6 +1,8 @@
 import jsPDF from 'jspdf';
-import { LogEntry, LogSummary } from '../types/log';
+import { DisplayTimezone, LogEntry, LogSummary } from '../types/log';
 import { format } from 'date-fns';
+import { formatTimestampInZone, getDisplayTimezoneLabel } from './timestampUtils';
+import { ErrorPatternChangeKind, LogComparison } from './logComparison';
 
 /**
  * PDF Report Generator
@@ -14,6 +16,7 @@ import { format } from 'date-fns';
  * - Visual charts and data representations
  * - Critical error analysis
  * - Actionable recommendations
+ * - Before/after comparison of two logs of the session
  * - Custom additional content from AI assistant
  * 
  * Security: All PDF generation happens client-side in the browser.
@@ -31,8 +34,33 @@ interface PDFReportOptions {
   summaryRef?: HTMLElement | null;
   chartsRef?: HTMLElement | null;
   additionalDetails?: string;
+  displayTimezone?: DisplayTimezone;
+  comparison?: LogComparison | null;
 }
 
+/**
+ * Wording of each kind of error pattern change in the comparison section
+ */
+const COMPARISON_CHANGE_LABELS: Record<ErrorPatternChangeKind, string> = {
+  new: 'NEW',
+  resolved: 'RESOLVED',
+  increased: 'MORE FREQUENT',
+  decreased: 'LESS FREQUENT',
+  unchanged: 'UNCHANGED',
+};
+
+/**
+ * Text colour of each kind of error pattern change: red for worse, green
+ * for better
+ */
+const COMPARISON_CHANGE_COLORS: Record<ErrorPatternChangeKind, [number, number, number]> = {
+  new: [185, 28, 28],
+  increased: [185, 28, 28],
+  resolved: [21, 128, 61],
+  decreased: [21, 128, 61],
+  unchanged: [107, 114, 128],
+};
+
 /**
  * Main PDF report generation function
  * 
@@ -70,7 +98,7 @@ export async function generatePDFReport(options: PDFReportOptions): Promise<void
  * @returns Configured jsPDF document ready for download
  */
 async function createPDFDocument(options: PDFReportOptions): Promise<jsPDF> {
-  const { logs, summary, filename, additionalDetails } = options;
+  const { logs, summary, filename, additionalDetails, displayTimezone = 'local', comparison } = options;
   
   // ============================================================================
   // INPUT VALIDATION
@@ -208,14 +236,15 @@ async function createPDFDocument(options: PDFReportOptions): Promise<jsPDF> {
    * Format timestamp for PDF display
    * 
    * Provides consistent timestamp formatting throughout the report
-   * with proper error handling for invalid dates.
+   * with proper error handling for invalid dates. Uses the display
+   * timezone selected in the application.
    */
-  const formatTimestamp = (timestamp: Date | null) => {
+  const formatTimestamp = (timestamp: Date | null, utcOffset = summary.sourceUtcOffset) => {
     if (!timestamp || isNaN(timestamp.getTime())) {
       return 'N/A';
     }
     try {
-      return format(timestamp, 'MMM dd, yyyy HH:mm:ss');
+      return formatTimestampInZone(timestamp, 'MMM dd, yyyy HH:mm:ss', displayTimezone, utcOffset);
     } catch (error) {
       return 'Invalid Date';
     }
@@ -254,7 +283,7 @@ async function createPDFDocument(options: PDFReportOptions): Promise<jsPDF> {
     // Report metadata card with key information
     pdf.setFillColor(249, 250, 251);
     pdf.setDrawColor(229, 231, 235);
-    pdf.roundedRect(margin, currentY, contentWidth, 55, 5, 5, 'FD');
+    pdf.roundedRect(margin, currentY, contentWidth, 63, 5, 5, 'FD');
     
     currentY += 15;
     pdf.setFontSize(16);
@@ -271,7 +300,10 @@ async function createPDFDocument(options: PDFReportOptions): Promise<jsPDF> {
     const reportDetails = [
       ['File Analyzed:', filename || 'Unknown'],
       ['Generated:', format(new Date(), 'MMMM dd, yyyy \'at\' HH:mm:ss')],
-      ['Analysis Period:', `${formatTimestamp(summary.timeRange?.start)} to ${formatTimestamp(summary.timeRange?.end)}`],
+      ['Analysis Period:', summary.timeRange
+        ? `${formatTimestamp(summary.timeRange.start)} to ${formatTimestamp(summary.timeRange.end)}`
+        : 'No timestamps found'],
+      ['Timezone:', getDisplayTimezoneLabel(displayTimezone)],
       ['Total Entries:', (summary.totalEntries || 0).toLocaleString()]
     ];
 
@@ -539,7 +571,7 @@ async function createPDFDocument(options: PDFReportOptions): Promise<jsPDF> {
         pdf.setFont('helvetica', 'normal');
         pdf.setTextColor(107, 114, 128);
         pdf.setFontSize(9);
-        const timestamp = formatTimestamp(error.timestamp);
+        const timestamp = formatTimestamp(error.timestamp, error.utcOffset);
         pdf.text(`Occurred: ${timestamp}`, margin + 20, currentY + 12);
 
         // Error message - properly positioned
@@ -604,6 +636,90 @@ async function createPDFDocument(options: PDFReportOptions): Promise<jsPDF> {
       currentY += 15;
     }
 
+    // ========================================================================
+    // BEFORE / AFTER COMPARISON SECTION
+    // ========================================================================
+
+    if (comparison) {
+      checkPageBreak(50);
+      addSectionHeader('Before / After Comparison', [99, 102, 241]);
+
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(75, 85, 99);
+      addWrappedText(`Baseline: ${comparison.baselineName}    After: ${comparison.comparedName}`, margin, contentWidth, 10, 1.4);
+      currentY += 6;
+
+      // Level counts as a small table
+      const columns = [margin + 5, margin + 60, margin + 95, margin + 130];
+      pdf.setFillColor(238, 242, 255);
+      pdf.rect(margin, currentY - 5, contentWidth, 8, 'F');
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(55, 65, 81);
+      ['Level', 'Before', 'After', 'Change'].forEach((heading, index) => pdf.text(heading, columns[index], currentY));
+      currentY += 8;
+
+      pdf.setFont('helvetica', 'normal');
+      comparison.levels.forEach(level => {
+        checkPageBreak(8);
+        const delta = level.after - level.before;
+        [level.label, level.before.toLocaleString(), level.after.toLocaleString(), `${delta > 0 ? '+' : ''}${delta.toLocaleString()}`]
+          .forEach((value, index) => pdf.text(value, columns[index], currentY));
+        currentY += 7;
+      });
+
+      const formatRate = (rate: number | null) => rate === null ? 'n/a' : rate.toFixed(2);
+      currentY += 4;
+      pdf.setFont('helvetica', 'bold');
+      pdf.text(
+        `Errors per hour: ${formatRate(comparison.errorRatePerHour.before)} before, ${formatRate(comparison.errorRatePerHour.after)} after`,
+        margin, currentY
+      );
+      currentY += 12;
+
+      // Error patterns with how they changed
+      if (comparison.errorPatterns.length > 0) {
+        checkPageBreak(20);
+        pdf.setFontSize(12);
+        pdf.text('Error Patterns', margin, currentY);
+        currentY += 8;
+
+        comparison.errorPatterns.forEach(pattern => {
+          checkPageBreak(18);
+          pdf.setFontSize(9);
+          pdf.setFont('helvetica', 'bold');
+          const [red, green, blue] = COMPARISON_CHANGE_COLORS[pattern.change];
+          pdf.setTextColor(red, green, blue);
+          pdf.text(`${COMPARISON_CHANGE_LABELS[pattern.change]}  ${pattern.before} -> ${pattern.after}`, margin, currentY);
+          currentY += 5;
+          pdf.setFont('helvetica', 'normal');
+          pdf.setTextColor(55, 65, 81);
+          addWrappedText(pattern.message, margin + 5, contentWidth - 5, 9, 1.3);
+          currentY += 3;
+        });
+        currentY += 5;
+      }
+
+      // Threads and sources only the later log has
+      [
+        { title: 'New threads', values: comparison.newThreads },
+        { title: 'New sources', values: comparison.newSources },
+      ].forEach(({ title, values }) => {
+        checkPageBreak(15);
+        pdf.setFontSize(10);
+        pdf.setFont('helvetica', 'bold');
+        pdf.setTextColor(55, 65, 81);
+        pdf.text(`${title} (${values.length})`, margin, currentY);
+        currentY += 6;
+        pdf.setFont('helvetica', 'normal');
+        const listed = values.slice(0, 30).join(', ') + (values.length > 30 ? `, and ${values.length - 30} more` : '');
+        addWrappedText(listed || 'None', margin + 5, contentWidth - 5, 9, 1.3);
+        currentY += 5;
+      });
+
+      currentY += 15;
+    }
+
     // ========================================================================
     // ADDITIONAL DETAILS SECTION
     // ========================================================================
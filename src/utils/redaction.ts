@@ -0,0 +1,325 @@
+/**
+ * Redaction of Sensitive Values
+ *
+ * Replaces emails, UNC paths, hostnames, IP addresses, datasource names,
+ * connection strings and secrets with stable tokens before any log text is
+ * sent to an AI service. Each value gets the same token everywhere in one
+ * upload (jdoe@bentley.com becomes user_1@domain_1 on every line), so the
+ * model still sees which lines mention the same thing. The AI's structured
+ * output is then re-hydrated locally, putting the real values back.
+ *
+ * The token map lives only in memory for the duration of one upload and is
+ * never sent or stored. Only the rule settings are kept in localStorage.
+ */
+
+/**
+ * localStorage key holding the redaction settings
+ */
+const REDACTION_SETTINGS_STORAGE_KEY = 'logAnalyzerRedactionSettings';
+
+/**
+ * Redaction Rule Interface
+ *
+ * Rules are plain data so user-defined rules can be stored. When the
+ * pattern has capture groups, each group is replaced by a token of the
+ * category at the same position in `tokens` and the rest of the match is
+ * kept; without groups the whole match is replaced by a `tokens[0]` token.
+ *
+ * @interface RedactionRule
+ */
+export interface RedactionRule {
+  /** Unique identifier for the rule */
+  id: string;
+
+  /** Name shown in the settings */
+  label: string;
+
+  /** Regular expression source */
+  pattern: string;
+
+  /** Regular expression flags; 'g' is always added */
+  flags?: string;
+
+  /** Token category per capture group, e.g. ['user', 'domain'] */
+  tokens: string[];
+}
+
+/**
+ * Redaction Settings Interface
+ *
+ * @interface RedactionSettings
+ */
+export interface RedactionSettings {
+  /** Redact before sending; only the user can turn this off */
+  enabled: boolean;
+
+  /** Ids of built-in rules the user has switched off */
+  disabledRules: string[];
+
+  /** User-defined rules, applied after the built-in ones */
+  customRules: RedactionRule[];
+}
+
+/**
+ * Built-in rules in the order they are applied
+ * Broad patterns run after specific ones so that, for example, the domain of
+ * an email is tokenized as part of the email and not again as a hostname
+ */
+export const BUILT_IN_REDACTION_RULES: RedactionRule[] = [
+  {
+    id: 'connection-string',
+    label: 'Connection strings',
+    pattern: '((?:\\b(?:Server|Data Source|Database|Initial Catalog|User ID|UID|Password|PWD|Provider|Host|Port|Integrated Security|Trusted_Connection|Persist Security Info)\\s*=[^;\\r\\n]*;\\s*)+\\b(?:Server|Data Source|Database|Initial Catalog|User ID|UID|Password|PWD|Provider|Host|Port|Integrated Security|Trusted_Connection|Persist Security Info)\\s*=[^;\\r\\n"\']*)',
+    flags: 'i',
+    tokens: ['connection'],
+  },
+  {
+    id: 'secret',
+    label: 'Passwords, tokens and API keys',
+    pattern: '\\b(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)\\b\\s*[=:]\\s*["\']?([^\\s;,"\']+)',
+    flags: 'i',
+    tokens: ['secret'],
+  },
+  {
+    id: 'email',
+    label: 'Email addresses',
+    pattern: '\\b([A-Za-z0-9._%+-]+)@([A-Za-z0-9-]+(?:\\.[A-Za-z0-9-]+)+)\\b',
+    tokens: ['user', 'domain'],
+  },
+  {
+    id: 'unc-path',
+    label: 'UNC server and share names',
+    pattern: '\\\\\\\\([^\\\\\\s"\'<>|]+)\\\\([^\\\\\\s"\'<>|]+)',
+    tokens: ['host', 'share'],
+  },
+  {
+    id: 'user-profile',
+    label: 'User names in profile paths',
+    pattern: '\\b[A-Za-z]:\\\\(?:Users|Documents and Settings)\\\\([^\\\\\\s"\']+)',
+    flags: 'i',
+    tokens: ['user'],
+  },
+  {
+    id: 'datasource',
+    label: 'Datasource names',
+    pattern: '\\b(?:datasource|data source)(?:\\s+name)?(?:\\s*[=:]\\s*["\']?|\\s+["\'])([\\w.-]+(?::[\\w.-]+)?)',
+    flags: 'i',
+    tokens: ['datasource'],
+  },
+  {
+    id: 'ipv4',
+    label: 'IPv4 addresses',
+    pattern: '\\b(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\b',
+    tokens: ['ip'],
+  },
+  {
+    id: 'ipv6',
+    label: 'IPv6 addresses',
+    pattern: '\\b(?:(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*::(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*)?)\\b',
+    flags: 'i',
+    tokens: ['ip'],
+  },
+  {
+    id: 'host-keyword',
+    label: 'Host and machine names',
+    pattern: '\\b(?:host(?:name)?|server|machine(?:name)?|computer(?:name)?)\\s*[=:]\\s*["\']?([A-Za-z0-9][\\w.-]*)',
+    flags: 'i',
+    tokens: ['host'],
+  },
+  {
+    id: 'fqdn',
+    label: 'Fully qualified domain names',
+    pattern: '\\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\\.)+(?:com|net|org|edu|gov|mil|int|io|biz|info|local|lan|corp|internal|intranet|cloud|uk|de|fr|nl|au|ca|in|jp|cn)\\b',
+    flags: 'i',
+    tokens: ['host'],
+  },
+];
+
+/**
+ * Settings used until the user changes them: every built-in rule on
+ */
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  disabledRules: [],
+  customRules: [],
+};
+
+// ============================================================================
+// STORAGE OPERATIONS
+// ============================================================================
+
+/**
+ * Load the redaction settings from localStorage
+ *
+ * @returns Saved settings, or the defaults if none or storage is unavailable
+ */
+export function loadRedactionSettings(): RedactionSettings {
+  try {
+    const stored = localStorage.getItem(REDACTION_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_REDACTION_SETTINGS;
+
+    const parsed = JSON.parse(stored);
+    return {
+      enabled: parsed.enabled !== false,
+      disabledRules: Array.isArray(parsed.disabledRules) ? parsed.disabledRules : [],
+      customRules: Array.isArray(parsed.customRules) ? parsed.customRules : [],
+    };
+  } catch (error) {
+    console.error('Failed to load redaction settings:', error);
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+}
+
+/**
+ * Persist the redaction settings
+ *
+ * @param settings - Settings to save
+ */
+export function saveRedactionSettings(settings: RedactionSettings): void {
+  localStorage.setItem(REDACTION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Compile and validate the pattern of a user-defined rule
+ *
+ * @param pattern - Regular expression source entered by the user
+ * @returns Compiled RegExp, or an error message describing the problem
+ */
+export function compileRedactionPattern(pattern: string, flags = ''): { regex: RegExp } | { error: string } {
+  if (!pattern.trim()) {
+    return { error: 'Enter a regular expression' };
+  }
+
+  try {
+    const regex = new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`);
+    if (regex.test('')) {
+      return { error: 'Pattern must not match empty text' };
+    }
+    return { regex };
+  } catch (error) {
+    return { error: `Invalid regular expression: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
+
+/**
+ * Rules that apply under the given settings, in order
+ *
+ * @param settings - Redaction settings
+ * @returns Enabled built-in rules followed by the custom rules
+ */
+export function getActiveRedactionRules(settings: RedactionSettings): RedactionRule[] {
+  if (!settings.enabled) return [];
+  return [
+    ...BUILT_IN_REDACTION_RULES.filter(rule => !settings.disabledRules.includes(rule.id)),
+    ...settings.customRules,
+  ];
+}
+
+// ============================================================================
+// TOKENIZATION
+// ============================================================================
+
+/**
+ * Redactor Interface
+ *
+ * Holds the token map for one upload.
+ *
+ * @interface Redactor
+ */
+export interface Redactor {
+  /** Replace sensitive values in text with tokens */
+  redact: (text: string) => string;
+
+  /** Put the real values back into text containing tokens */
+  rehydrate: (text: string) => string;
+
+  /** Put the real values back into every string of a parsed AI response */
+  rehydrateValue: <T>(value: T) => T;
+
+  /** Number of distinct values replaced so far, per token category */
+  getCounts: () => Record<string, number>;
+}
+
+/**
+ * Create a redactor for one upload
+ *
+ * @param settings - Redaction settings; the saved settings by default
+ * @returns Redactor with an empty token map
+ */
+export function createRedactor(settings: RedactionSettings = loadRedactionSettings()): Redactor {
+  const rules = getActiveRedactionRules(settings).flatMap(rule => {
+    const compiled = compileRedactionPattern(rule.pattern, rule.flags);
+    if ('error' in compiled) {
+      console.warn(`Skipping redaction rule "${rule.label}": ${compiled.error}`);
+      return [];
+    }
+    return [{ regex: compiled.regex, tokens: rule.tokens.length > 0 ? rule.tokens : ['redacted'] }];
+  });
+
+  const tokenByValue = new Map<string, string>();
+  const valueByToken = new Map<string, string>();
+  const counts: Record<string, number> = {};
+
+  /**
+   * Token for a value, issuing a new one the first time it is seen
+   * Text that already is a token is left alone so rules never nest tokens
+   */
+  const tokenFor = (category: string, value: string): string => {
+    if (valueByToken.has(value)) return value;
+
+    const key = `${category}\u0000${value}`;
+    let token = tokenByValue.get(key);
+    if (!token) {
+      counts[category] = (counts[category] ?? 0) + 1;
+      token = `${category}_${counts[category]}`;
+      tokenByValue.set(key, token);
+      valueByToken.set(token, value);
+    }
+    return token;
+  };
+
+  const redact = (text: string): string =>
+    rules.reduce((current, { regex, tokens }) =>
+      current.replace(regex, (match: string, ...args: unknown[]) => {
+        // replace() passes the groups, the offset, the whole text and, when
+        // the regex has named groups, a groups object last
+        const namedGroups = typeof args[args.length - 1] === 'object';
+        const groups = args.slice(0, args.length - (namedGroups ? 3 : 2)) as (string | undefined)[];
+        if (groups.length === 0) return tokenFor(tokens[0], match);
+
+        // Replace each captured value in place, keeping the text around it
+        let result = '';
+        let cursor = 0;
+        groups.forEach((group, index) => {
+          if (!group) return;
+          const start = match.indexOf(group, cursor);
+          if (start < 0) return;
+          result += match.slice(cursor, start) + tokenFor(tokens[index] ?? tokens[0], group);
+          cursor = start + group.length;
+        });
+        return result + match.slice(cursor);
+      }), text);
+
+  const rehydrate = (text: string): string => {
+    if (valueByToken.size === 0) return text;
+    return text.replace(/\b[a-z][a-z0-9_]*?_\d+\b/gi, token => valueByToken.get(token) ?? token);
+  };
+
+  const rehydrateValue = <T>(value: T): T => {
+    if (typeof value === 'string') return rehydrate(value) as T;
+    if (Array.isArray(value)) return value.map(item => rehydrateValue(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, rehydrateValue(item)])
+      ) as T;
+    }
+    return value;
+  };
+
+  return {
+    redact,
+    rehydrate,
+    rehydrateValue,
+    getCounts: () => ({ ...counts }),
+  };
+}
@@ -0,0 +1,183 @@
+import { LogEntry } from '../types/log';
+import { sortLogEntriesNewestFirst } from './logParser';
+
+/**
+ * Rotated Log Stitching
+ *
+ * Integration Server and Caching Server logs rotate by size, leaving
+ * server.log, server.log.1, server.log.2 and so on. When the files of one
+ * rotated log are uploaded together they are stitched back into a single
+ * log: ordered oldest first, entries repeated across a rotation removed,
+ * and the first entry of each later file marked as a rotation boundary.
+ */
+
+/**
+ * A file of a rotated log
+ */
+export interface RotatedLogFile<T> {
+  /** The uploaded file or other payload */
+  file: T;
+
+  /** File name */
+  name: string;
+
+  /** Name shared by every file of the series, e.g. server.log */
+  baseName: string;
+
+  /** Rotation number, 0 for the live file */
+  index: number;
+}
+
+/**
+ * A parsed file of a rotated log, ready to stitch
+ */
+export interface RotatedLogPart {
+  name: string;
+  index: number;
+  entries: LogEntry[];
+}
+
+/**
+ * Result of stitching a rotated log
+ */
+export interface StitchedRotatedLog {
+  /** Entries of every file, newest first */
+  entries: LogEntry[];
+
+  /** File names, oldest first */
+  files: string[];
+
+  /** Entries dropped because an older file already had them */
+  duplicateCount: number;
+}
+
+/**
+ * Rotation names: server.log.1, and server_1.log or server.1.log
+ */
+const ROTATION_PATTERNS: { pattern: RegExp; toBaseName: (match: RegExpMatchArray) => string }[] = [
+  { pattern: /^(.+)\.(\d+)$/, toBaseName: match => match[1] },
+  { pattern: /^(.+?)[._-](\d+)(\.(?:log|txt|out))$/i, toBaseName: match => `${match[1]}${match[3]}` },
+];
+
+// ============================================================================
+// SERIES DETECTION
+// ============================================================================
+
+/**
+ * Read the base name and rotation number from a file name
+ *
+ * @param name - File name
+ * @returns Base name and number; a name without a number is the live file
+ */
+export function getRotatedLogName(name: string): { baseName: string; index: number } {
+  for (const { pattern, toBaseName } of ROTATION_PATTERNS) {
+    const match = name.match(pattern);
+    if (match) return { baseName: toBaseName(match), index: parseInt(match[2], 10) };
+  }
+  return { baseName: name, index: 0 };
+}
+
+/**
+ * Recognise a set of files as one rotated log
+ *
+ * @param files - Uploaded files with their names
+ * @returns The files with their rotation numbers, or null unless there are
+ *   at least two, they share a base name and no number repeats
+ */
+export function findRotatedSeries<T>(files: { file: T; name: string }[]): RotatedLogFile<T>[] | null {
+  if (files.length < 2) return null;
+
+  const series = files.map(({ file, name }) => ({ file, name, ...getRotatedLogName(name) }));
+  const sameBase = series.every(part => part.baseName === series[0].baseName);
+  const distinct = new Set(series.map(part => part.index)).size === series.length;
+  return sameBase && distinct ? series : null;
+}
+
+// ============================================================================
+// STITCHING
+// ============================================================================
+
+/**
+ * Earliest trusted timestamp of a parsed file
+ */
+function getFirstTimestamp(entries: LogEntry[]): number | null {
+  let first: number | null = null;
+  entries.forEach(entry => {
+    if (!entry.timestamp || entry.timestampOutlier) return;
+    const time = entry.timestamp.getTime();
+    if (first === null || time < first) first = time;
+  });
+  return first;
+}
+
+/**
+ * Key that identifies an entry repeated across a rotation
+ */
+const getDuplicateKey = (entry: LogEntry) => `${entry.timestamp!.getTime()}|${entry.raw}`;
+
+/**
+ * Stitch the parsed files of a rotated log into one log
+ *
+ * Files are ordered by their first timestamp when every file has one, since
+ * rotation numbering runs either way depending on the appender. Otherwise
+ * they are ordered by number, and the files that have timestamps only
+ * decide which way the numbering runs; higher is older if they cannot tell.
+ * Where a file repeats entries from the
+ * end of the one before it, the repeats are dropped. Entry IDs are prefixed
+ * with the file's position so they stay unique, and the first entry of
+ * each file after the oldest gets a rotationBoundary. Entries are modified
+ * in place.
+ *
+ * @param parts - Parsed files of the series, in any order
+ * @returns One log, newest first, with the file order and duplicate count
+ */
+export function stitchRotatedLogs(parts: RotatedLogPart[]): StitchedRotatedLog {
+  const ordered = parts
+    .map(part => ({ ...part, firstTimestamp: getFirstTimestamp(part.entries) }))
+    .sort((a, b) => a.index - b.index);
+
+  const dated = ordered.filter(part => part.firstTimestamp !== null);
+  if (dated.length === ordered.length) {
+    ordered.sort((a, b) => a.firstTimestamp! - b.firstTimestamp! || b.index - a.index);
+  } else if (dated.length < 2 || dated[0].firstTimestamp! >= dated[dated.length - 1].firstTimestamp!) {
+    // Oldest first: numbering runs from newest to oldest
+    ordered.reverse();
+  }
+
+  let duplicateCount = 0;
+  const kept: LogEntry[][] = ordered.map((part, position) => {
+    let entries = part.entries;
+
+    if (position > 0 && part.firstTimestamp !== null) {
+      // Only the previous file's entries from this file's start can repeat
+      const previous = new Set(ordered[position - 1].entries
+        .filter(entry => entry.timestamp && entry.timestamp.getTime() >= part.firstTimestamp!)
+        .map(getDuplicateKey));
+      if (previous.size > 0) {
+        entries = entries.filter(entry => !entry.timestamp || !previous.has(getDuplicateKey(entry)));
+        duplicateCount += part.entries.length - entries.length;
+      }
+    }
+
+    entries.forEach(entry => {
+      entry.id = `${position}:${entry.id}`;
+    });
+    return entries;
+  });
+
+  // Mark where each later file takes over
+  ordered.forEach((part, position) => {
+    if (position === 0) return;
+    const first = kept[position]
+      .filter(entry => entry.timestamp && !entry.timestampOutlier)
+      .reduce<LogEntry | null>((oldest, entry) =>
+        !oldest || entry.timestamp!.getTime() < oldest.timestamp!.getTime() ? entry : oldest, null);
+    if (first) first.rotationBoundary = { file: part.name, previousFile: ordered[position - 1].name };
+  });
+
+  return {
+    entries: sortLogEntriesNewestFirst(kept.flat()),
+    files: ordered.map(part => part.name),
+    duplicateCount,
+  };
+}
@@ -0,0 +1,315 @@
+import { LogEntry, LogSummary } from '../types/log';
+
+/**
+ * Message Template Miner
+ *
+ * Groups log messages into templates such as
+ * `Failed to open document <*> in folder <*>`, following the Drain
+ * algorithm: obvious variables (GUIDs, paths, URLs, addresses, hex codes,
+ * numbers, quoted values) are masked first, messages are routed by token
+ * count and leading tokens to a small set of candidate templates, and a
+ * message joins the most similar one, turning the tokens that differ into
+ * wildcards. Templates therefore stay stable however many distinct IDs or
+ * paths the log contains.
+ */
+
+/**
+ * Placeholder for a variable part of a message
+ */
+export const TEMPLATE_WILDCARD = '<*>';
+
+/**
+ * Share of tokens a message must have in common with a template to join it
+ */
+const SIMILARITY_THRESHOLD = 0.4;
+
+/**
+ * Leading tokens used to route a message to its candidate templates
+ */
+const PREFIX_DEPTH = 1;
+
+/**
+ * Distinct tokens a routing node keeps before sending new ones to the
+ * wildcard branch, so high-cardinality leading tokens do not fragment
+ */
+const MAX_CHILDREN = 100;
+
+/**
+ * Characters of a message that are mined; the rest rarely adds structure
+ */
+const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * Variables masked before tokenising, most specific first
+ */
+const VARIABLE_PATTERNS: RegExp[] = [
+  /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, // GUIDs
+  /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>]+/gi, // URLs
+  /\b[a-z]:\\[^\s"'<>]*/gi, // Windows paths
+  /\\\\[^\s"'<>]+/g, // UNC paths
+  /(?<=^|[\s"'=(:])\/[^\s"'<>]+/g, // Unix paths
+  /(?<=^|[\s=(:,])(["'])[^"'\n]*?\1(?=$|[\s),.;:])/g, // Quoted values
+  /\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, // IPv4 addresses
+  /\b0x[0-9a-f]+\b/gi, // Hex codes
+  /\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, // Hashes and long hex IDs
+  /\b\d+(?:\.\d+)?\b/g, // Numbers
+];
+
+/**
+ * A template found by the miner
+ */
+export interface MinedTemplate {
+  /** Stable ID, assigned when the template is first seen */
+  id: string;
+
+  /** Template tokens, with TEMPLATE_WILDCARD for variable parts */
+  tokens: string[];
+
+  /** Messages that joined the template */
+  count: number;
+}
+
+/**
+ * Incremental template miner
+ */
+export interface TemplateMiner {
+  /** Add a message and return the template it joined */
+  add: (message: string) => MinedTemplate;
+
+  /** Every template found so far, in the order first seen */
+  getTemplates: () => MinedTemplate[];
+}
+
+/**
+ * A template of a log with where and when it occurred
+ */
+export interface LogTemplate {
+  /** Template ID, also set on the entries as templateId */
+  id: string;
+
+  /** Template text, e.g. "Failed to open document <*> in folder <*>" */
+  template: string;
+
+  /** Entries that match the template */
+  count: number;
+
+  /** Matching entries per level */
+  levelCounts: Partial<Record<LogEntry['level'], number>>;
+
+  /** Earliest trusted timestamp of a matching entry */
+  firstSeen: Date | null;
+
+  /** Latest trusted timestamp of a matching entry */
+  lastSeen: Date | null;
+
+  /** First few matching entries, newest first */
+  examples: LogEntry[];
+}
+
+/**
+ * Template miner for the entries of a session, which files are added to
+ * one at a time
+ */
+export interface LogTemplateMiner {
+  /** Mine the entries of one more file, newest first, setting templateId on each */
+  add: (entries: LogEntry[]) => void;
+
+  /** Templates of every entry added so far, most frequent first */
+  getTemplates: () => LogTemplate[];
+}
+
+/**
+ * Routing node of the template tree
+ */
+interface PrefixNode {
+  children: Map<string, PrefixNode>;
+  templates: MinedTemplate[];
+}
+
+/**
+ * Example entries kept per template
+ */
+const MAX_EXAMPLES = 3;
+
+// ============================================================================
+// MINING
+// ============================================================================
+
+/**
+ * Mask obvious variables and split a message into tokens
+ */
+function tokenize(message: string): string[] {
+  let text = message.split('\n')[0].substring(0, MAX_MESSAGE_LENGTH);
+  VARIABLE_PATTERNS.forEach(pattern => {
+    text = text.replace(pattern, TEMPLATE_WILDCARD);
+  });
+  return text.split(/\s+/).filter(token => token.length > 0);
+}
+
+/**
+ * Share of a template's tokens a message matches exactly
+ */
+function getSimilarity(template: string[], tokens: string[]): number {
+  if (tokens.length === 0) return 1;
+  let same = 0;
+  template.forEach((token, index) => {
+    if (token === tokens[index]) same++;
+  });
+  return same / tokens.length;
+}
+
+/**
+ * Create an empty template miner
+ *
+ * @returns Miner that messages are added to one at a time
+ */
+export function createTemplateMiner(): TemplateMiner {
+  const root: PrefixNode = { children: new Map(), templates: [] };
+  const templates: MinedTemplate[] = [];
+
+  /**
+   * Find the node for the message's length and leading tokens
+   * Tokens containing digits are routed as wildcards, since they are
+   * usually variables the masks missed
+   */
+  const findLeaf = (tokens: string[]): PrefixNode => {
+    const path = [String(tokens.length), ...tokens.slice(0, PREFIX_DEPTH)
+      .map(token => /\d/.test(token) ? TEMPLATE_WILDCARD : token)];
+
+    let node = root;
+    path.forEach(key => {
+      let child = node.children.get(key);
+      if (!child) {
+        if (node !== root && node.children.size >= MAX_CHILDREN) key = TEMPLATE_WILDCARD;
+        child = node.children.get(key) ?? { children: new Map(), templates: [] };
+        node.children.set(key, child);
+      }
+      node = child;
+    });
+    return node;
+  };
+
+  return {
+    add: (message: string) => {
+      const tokens = tokenize(message);
+      const leaf = findLeaf(tokens);
+
+      // Most similar template; ties go to the one with more wildcards
+      let best: MinedTemplate | null = null;
+      let bestSimilarity = -1;
+      let bestWildcards = -1;
+      for (const template of leaf.templates) {
+        const similarity = getSimilarity(template.tokens, tokens);
+        const wildcards = template.tokens.filter(token => token === TEMPLATE_WILDCARD).length;
+        if (similarity > bestSimilarity || (similarity === bestSimilarity && wildcards > bestWildcards)) {
+          best = template;
+          bestSimilarity = similarity;
+          bestWildcards = wildcards;
+        }
+      }
+
+      if (best && bestSimilarity >= SIMILARITY_THRESHOLD) {
+        best.tokens = best.tokens.map((token, index) => token === tokens[index] ? token : TEMPLATE_WILDCARD);
+        best.count++;
+        return best;
+      }
+
+      const created: MinedTemplate = { id: `tpl-${templates.length + 1}`, tokens, count: 1 };
+      leaf.templates.push(created);
+      templates.push(created);
+      return created;
+    },
+
+    getTemplates: () => templates,
+  };
+}
+
+// ============================================================================
+// LOG TEMPLATES
+// ============================================================================
+
+/**
+ * Keep an entry among a template's examples if it is one of the newest
+ * Entries without a timestamp count as the oldest
+ */
+function addExample(examples: LogEntry[], entry: LogEntry): void {
+  const time = entry.timestamp?.getTime() ?? -Infinity;
+  const index = examples.findIndex(example => (example.timestamp?.getTime() ?? -Infinity) < time);
+  if (index === -1) {
+    if (examples.length < MAX_EXAMPLES) examples.push(entry);
+    return;
+  }
+  examples.splice(index, 0, entry);
+  if (examples.length > MAX_EXAMPLES) examples.pop();
+}
+
+/**
+ * Create a template miner for the entries of a session
+ *
+ * Every entry gets the ID of its template as templateId, so views can
+ * filter by template. Entries are modified in place. The miner keeps its
+ * state between files, so adding a file only mines that file's entries
+ * instead of the whole session again. Templates found in earlier files
+ * still widen as later messages join them.
+ *
+ * @returns Miner that files' entries are added to
+ */
+export function createLogTemplateMiner(): LogTemplateMiner {
+  const miner = createTemplateMiner();
+  const byId = new Map<string, LogTemplate>();
+
+  return {
+    add: (entries) => {
+      entries.forEach(entry => {
+        const mined = miner.add(entry.message);
+        entry.templateId = mined.id;
+
+        let template = byId.get(mined.id);
+        if (!template) {
+          template = { id: mined.id, template: '', count: 0, levelCounts: {}, firstSeen: null, lastSeen: null, examples: [] };
+          byId.set(mined.id, template);
+        }
+        template.count++;
+        template.levelCounts[entry.level] = (template.levelCounts[entry.level] ?? 0) + 1;
+        addExample(template.examples, entry);
+
+        if (entry.timestamp && !entry.timestampOutlier) {
+          if (!template.firstSeen || entry.timestamp < template.firstSeen) template.firstSeen = entry.timestamp;
+          if (!template.lastSeen || entry.timestamp > template.lastSeen) template.lastSeen = entry.timestamp;
+        }
+      });
+    },
+
+    // Template text is only final once every message has joined, so it is
+    // read from the miner each time; copies keep earlier results unchanged
+    getTemplates: () => miner.getTemplates()
+      .map(mined => {
+        const template = byId.get(mined.id)!;
+        return {
+          ...template,
+          template: mined.tokens.join(' '),
+          levelCounts: { ...template.levelCounts },
+          examples: [...template.examples],
+        };
+      })
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Most frequent error templates of a session
+ *
+ * Taken from the session's templates, so the text and IDs are the same as
+ * in the Patterns tab and the log table's template filter.
+ *
+ * @param templates - Templates of the session
+ * @param limit - Templates to return
+ * @returns Template ID, text and error count, most frequent first
+ */
+export function getTopErrorTemplates(templates: LogTemplate[], limit: number): LogSummary['topErrors'] {
+  return templates
+    .filter(template => (template.levelCounts.ERROR ?? 0) > 0)
+    .sort((a, b) => b.levelCounts.ERROR! - a.levelCounts.ERROR!)
+    .slice(0, limit)
+    .map(template => ({ templateId: template.id, message: template.template, count: template.levelCounts.ERROR! }));
+}
@@ -0,0 +1,92 @@
+import { LogEntry } from '../types/log';
+
+/**
+ * Timeline Buckets
+ *
+ * Counts entries per level over fixed time intervals for the timeline
+ * chart. The interval is the smallest of a fixed ladder that keeps the
+ * chart within MAX_TIMELINE_BUCKETS bars, so a ten-minute log is shown by
+ * the second and a month-long one by the day.
+ */
+
+/**
+ * Most bars drawn on the timeline
+ */
+export const MAX_TIMELINE_BUCKETS = 120;
+
+/**
+ * Interval ladder, in milliseconds
+ */
+const BUCKET_SIZES = [
+  1000,
+  5 * 1000,
+  15 * 1000,
+  60 * 1000,
+  5 * 60 * 1000,
+  15 * 60 * 1000,
+  30 * 60 * 1000,
+  60 * 60 * 1000,
+  3 * 60 * 60 * 1000,
+  6 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+  24 * 60 * 60 * 1000,
+  7 * 24 * 60 * 60 * 1000,
+];
+
+/**
+ * Levels counted on the timeline, in stacking order
+ */
+export const TIMELINE_LEVELS: LogEntry['level'][] = ['ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE'];
+
+/**
+ * Entry counts per level over fixed time intervals
+ */
+export interface TimelineBuckets {
+  /** Start of the first interval, in milliseconds */
+  start: number;
+
+  /** Length of each interval, in milliseconds */
+  size: number;
+
+  /** Entries per interval for each level */
+  counts: Record<LogEntry['level'], number[]>;
+}
+
+/**
+ * Count entries per level over time
+ *
+ * Entries without a timestamp and outliers are left out.
+ *
+ * @param logs - Entries in any order
+ * @returns Buckets, or null if no entry has a usable timestamp
+ */
+export function buildTimelineBuckets(logs: LogEntry[]): TimelineBuckets | null {
+  let first = Infinity;
+  let last = -Infinity;
+  logs.forEach(log => {
+    if (!log.timestamp || log.timestampOutlier) return;
+    const time = log.timestamp.getTime();
+    if (isNaN(time)) return;
+    if (time < first) first = time;
+    if (time > last) last = time;
+  });
+  if (first === Infinity) return null;
+
+  const size = BUCKET_SIZES.find(candidate => (last - first) / candidate < MAX_TIMELINE_BUCKETS)
+    ?? BUCKET_SIZES[BUCKET_SIZES.length - 1];
+  const start = Math.floor(first / size) * size;
+  const bucketCount = Math.floor((last - start) / size) + 1;
+
+  const counts = Object.fromEntries(
+    TIMELINE_LEVELS.map(level => [level, new Array<number>(bucketCount).fill(0)])
+  ) as Record<LogEntry['level'], number[]>;
+
+  logs.forEach(log => {
+    if (!log.timestamp || log.timestampOutlier) return;
+    const time = log.timestamp.getTime();
+    if (isNaN(time)) return;
+    counts[log.level][Math.floor((time - start) / size)]++;
+  });
+
+  return { start, size, counts };
+}
@@ -0,0 +1,344 @@
+import { format, parse, parseISO } from 'date-fns';
+import { DisplayTimezone, LogEntry, TimestampWindowOptions } from '../types/log';
+
+/**
+ * Timestamp Utilities
+ * 
+ * Shared helpers for turning timestamp strings found in log files into Date
+ * objects. Used by the heuristic log parser and by the format registry.
+ * 
+ * Like the rest of the parsing code, these helpers never invent a date:
+ * anything that cannot be parsed exactly returns null.
+ * 
+ * Timezones: log timestamps are usually wall-clock times without an offset.
+ * They are interpreted in the source timezone chosen at upload (the browser's
+ * own zone by default) and stored as absolute instants. Timestamps with an
+ * explicit offset (Z, +10:00) always use that offset instead.
+ */
+
+/**
+ * Source timezone value meaning "the analyst's browser timezone"
+ */
+export const LOCAL_TIMEZONE = 'local';
+
+/**
+ * Timezones offered at upload in addition to the browser's own zone
+ */
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+/**
+ * Broad sanity bounds applied while parsing
+ * Anything outside is a parsing accident (epoch zero, two-digit years); the
+ * tighter window is derived afterwards from the file's own timestamps
+ */
+const MIN_PLAUSIBLE_YEAR = 1980;
+const MAX_PLAUSIBLE_YEAR = 2100;
+
+/**
+ * Default multiple of the interquartile range beyond which a timestamp is an outlier
+ */
+const DEFAULT_OUTLIER_FACTOR = 3;
+
+/**
+ * Default minimum distance from the quartiles before a timestamp is an outlier
+ * Keeps short logs whose entries share the same minute from flagging everything
+ */
+const DEFAULT_MIN_TOLERANCE_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a parsed date looks like a real log timestamp
+ * 
+ * @param date - Parsed date to validate
+ * @returns True if the date is valid and inside the broad sanity bounds
+ */
+export function isPlausibleTimestamp(date: Date): boolean {
+  return !isNaN(date.getTime()) &&
+    date.getFullYear() >= MIN_PLAUSIBLE_YEAR &&
+    date.getFullYear() <= MAX_PLAUSIBLE_YEAR;
+}
+
+/**
+ * Parse a timestamp string using an explicit format
+ * 
+ * @param value - Timestamp text captured from the log line
+ * @param timestampFormat - date-fns format string, or 'iso' for ISO-8601
+ * @returns Parsed Date or null if the text does not match the format, or
+ *   if the format itself is invalid (date-fns throws a RangeError for
+ *   mistakes such as `YYYY` or an unescaped `T`)
+ */
+export function parseTimestampWithFormat(value: string, timestampFormat: string, timeZone: string = LOCAL_TIMEZONE): Date | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  let date: Date;
+  try {
+    date = timestampFormat === 'iso'
+      ? parseISO(trimmed)
+      : parse(trimmed, timestampFormat, new Date());
+  } catch {
+    return null;
+  }
+
+  // Formats carrying their own offset are already absolute instants
+  const formatHasOffset = timestampFormat === 'iso' ? hasExplicitOffset(trimmed) : /[XxOz]/.test(timestampFormat);
+  if (!formatHasOffset) {
+    date = wallClockToInstant(date, timeZone);
+  }
+
+  return isPlausibleTimestamp(date) ? date : null;
+}
+
+// ============================================================================
+// TIMEZONE CONVERSION
+// ============================================================================
+
+/**
+ * Get the browser's own IANA timezone name
+ * 
+ * @returns Timezone name such as 'Europe/London', or 'UTC' if unavailable
+ */
+export function getBrowserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Check whether a timestamp string ends with an explicit UTC offset
+ * 
+ * @param value - Timestamp text
+ * @returns True for suffixes like Z, +10:00, -0500
+ */
+export function hasExplicitOffset(value: string): boolean {
+  return /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+}
+
+/**
+ * Read the explicit UTC offset from a timestamp string
+ * 
+ * @param value - Timestamp text
+ * @returns Offset in minutes east of UTC, or undefined if none is present
+ */
+export function parseExplicitOffset(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/Z$/i.test(trimmed)) return 0;
+
+  const match = trimmed.match(/([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return undefined;
+
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Get the UTC offset of a timezone at a given instant
+ * 
+ * Uses Intl so daylight saving rules of the zone are honoured.
+ * 
+ * @param timeZone - 'local', 'UTC' or an IANA timezone name
+ * @param date - Instant to evaluate the offset at
+ * @returns Offset in minutes east of UTC
+ */
+export function getTimezoneOffsetMinutes(timeZone: string, date: Date): number {
+  if (timeZone === LOCAL_TIMEZONE) return -date.getTimezoneOffset();
+  if (timeZone === 'UTC') return 0;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Reinterpret a wall-clock date in a source timezone
+ * 
+ * Parsers build dates from the browser's local fields; this moves the
+ * wall-clock reading to the chosen source timezone, returning the instant at
+ * which that timezone's clock showed the same reading.
+ * 
+ * @param localDate - Date whose local fields hold the wall-clock reading
+ * @param timeZone - Source timezone ('local', 'UTC' or IANA name)
+ * @returns Absolute instant
+ */
+export function wallClockToInstant(localDate: Date, timeZone: string): Date {
+  if (timeZone === LOCAL_TIMEZONE || isNaN(localDate.getTime())) return localDate;
+
+  const asUtc = Date.UTC(
+    localDate.getFullYear(), localDate.getMonth(), localDate.getDate(),
+    localDate.getHours(), localDate.getMinutes(), localDate.getSeconds(), localDate.getMilliseconds()
+  );
+
+  // Evaluate the offset twice so readings near a DST change land correctly
+  const firstOffset = getTimezoneOffsetMinutes(timeZone, new Date(asUtc));
+  let instant = asUtc - firstOffset * 60000;
+  const secondOffset = getTimezoneOffsetMinutes(timeZone, new Date(instant));
+  if (secondOffset !== firstOffset) {
+    instant = asUtc - secondOffset * 60000;
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Resolve the UTC offset a timestamp was written with
+ * 
+ * @param text - Original timestamp text
+ * @param date - Parsed instant
+ * @param timeZone - Source timezone chosen at upload
+ * @returns Offset in minutes east of UTC
+ */
+export function resolveUtcOffset(text: string, date: Date, timeZone: string): number {
+  return parseExplicitOffset(text) ?? getTimezoneOffsetMinutes(timeZone, date);
+}
+
+// ============================================================================
+// DISPLAY FORMATTING
+// ============================================================================
+
+/**
+ * Format an instant for display in the selected display timezone
+ * 
+ * @param date - Instant to format
+ * @param pattern - date-fns format pattern
+ * @param displayTimezone - 'local', 'UTC' or 'source'
+ * @param sourceOffset - Offset the entry was written with, used for 'source'
+ * @returns Formatted timestamp
+ */
+export function formatTimestampInZone(
+  date: Date,
+  pattern: string,
+  displayTimezone: DisplayTimezone,
+  sourceOffset?: number
+): string {
+  if (displayTimezone === 'local' || (displayTimezone === 'source' && sourceOffset === undefined)) {
+    return format(date, pattern);
+  }
+
+  const offset = displayTimezone === 'UTC' ? 0 : sourceOffset!;
+  const shifted = new Date(date.getTime() + offset * 60000);
+  const wallClock = new Date(
+    shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate(),
+    shifted.getUTCHours(), shifted.getUTCMinutes(), shifted.getUTCSeconds(), shifted.getUTCMilliseconds()
+  );
+
+  return format(wallClock, pattern);
+}
+
+/**
+ * Short label for a display timezone, used next to formatted timestamps
+ * 
+ * @param displayTimezone - Display timezone
+ * @returns Label such as 'UTC' or 'Europe/London'
+ */
+export function getDisplayTimezoneLabel(displayTimezone: DisplayTimezone): string {
+  switch (displayTimezone) {
+    case 'UTC':
+      return 'UTC';
+    case 'source':
+      return 'source time';
+    default:
+      return getBrowserTimezone();
+  }
+}
+
+// ============================================================================
+// PLAUSIBILITY WINDOW
+// ============================================================================
+
+/**
+ * Derive the plausible time window from a file's own timestamps
+ *
+ * Optional fixed year bounds are applied first. The window is then the
+ * interquartile range widened by `outlierFactor` IQRs (at least
+ * `minToleranceDays`) on both sides, so a handful of misparsed dates years
+ * away from the rest of the log fall outside it.
+ *
+ * @param timestamps - Parsed timestamps from the file
+ * @param options - Fixed year bounds and outlier sensitivity
+ * @returns Window of accepted timestamps, or null if none are usable
+ */
+export function computeTimestampWindow(
+  timestamps: Date[],
+  options: TimestampWindowOptions = {}
+): { start: Date; end: Date } | null {
+  const minTime = options.minYear !== undefined ? new Date(options.minYear, 0, 1).getTime() : -Infinity;
+  const maxTime = options.maxYear !== undefined ? new Date(options.maxYear + 1, 0, 1).getTime() - 1 : Infinity;
+
+  const times = Float64Array.from(
+    timestamps.map(t => t.getTime()).filter(time => !isNaN(time) && time >= minTime && time <= maxTime)
+  ).sort();
+  if (times.length === 0) return null;
+
+  const q1 = times[Math.floor((times.length - 1) * 0.25)];
+  const q3 = times[Math.ceil((times.length - 1) * 0.75)];
+  const tolerance = Math.max(
+    (q3 - q1) * (options.outlierFactor ?? DEFAULT_OUTLIER_FACTOR),
+    (options.minToleranceDays ?? DEFAULT_MIN_TOLERANCE_DAYS) * MS_PER_DAY
+  );
+
+  return {
+    start: new Date(Math.max(q1 - tolerance, minTime)),
+    end: new Date(Math.min(q3 + tolerance, maxTime)),
+  };
+}
+
+/**
+ * Flag entries whose timestamps fall outside the file's plausible window
+ *
+ * Flagged entries keep their timestamp for display but are left out of the
+ * summary time range and the charts.
+ *
+ * @param entries - Parsed entries, updated in place
+ * @param options - Fixed year bounds and outlier sensitivity
+ * @returns Number of entries flagged as outliers
+ */
+export function markTimestampOutliers(entries: LogEntry[], options: TimestampWindowOptions = {}): number {
+  const window = computeTimestampWindow(
+    entries.flatMap(e => (e.timestamp ? [e.timestamp] : [])),
+    options
+  );
+
+  let outliers = 0;
+  entries.forEach(entry => {
+    if (!entry.timestamp) return;
+
+    const time = entry.timestamp.getTime();
+    const isOutlier = !window || time < window.start.getTime() || time > window.end.getTime();
+    if (isOutlier) {
+      entry.timestampOutlier = true;
+      outliers++;
+    } else {
+      delete entry.timestampOutlier;
+    }
+  });
+
+  return outliers;
+}
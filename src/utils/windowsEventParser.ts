@@ -0,0 +1,509 @@
+import { LogEntry, LogParseOptions, WindowsEventLogLayout } from '../types/log';
+import { ParseProgressCallback } from '../types/worker';
+import { ParsedLogFile, sortLogEntriesNewestFirst } from './logParser';
+import { LOCAL_TIMEZONE, markTimestampOutliers, parseTimestampWithFormat, resolveUtcOffset } from './timestampUtils';
+
+/**
+ * Windows Event Log Import
+ *
+ * Reads the Application and System event logs customers export from Event
+ * Viewer ("Save Selected Events" as XML, or "Save All Events As" CSV) and
+ * PowerShell's `Get-WinEvent | Export-Csv`. Each event becomes a LogEntry:
+ * the provider is the source, Event Viewer levels map onto log levels, and
+ * Event ID, computer, channel, keywords and the event data are kept as
+ * fields, so events can be analysed alongside product logs in the same
+ * table and charts.
+ *
+ * Binary .evtx files are not read; Event Viewer can save them as XML.
+ * The XML is scanned with patterns rather than a DOM parser because parsing
+ * runs in a worker, where DOMParser is not available.
+ */
+
+/**
+ * Number of events between progress updates
+ */
+const PROGRESS_INTERVAL = 2000;
+
+/**
+ * Rows used to pick the date format of a CSV export
+ */
+const DATE_FORMAT_SAMPLE_SIZE = 50;
+
+/**
+ * Format names reported in the parse diagnostics
+ */
+const LAYOUT_NAMES: Record<WindowsEventLogLayout, string> = {
+  xml: 'Windows Event Log (XML)',
+  csv: 'Windows Event Log (CSV)',
+};
+
+/**
+ * Event Viewer levels, by number and by display name
+ * Audit failures are the only level 0 events worth attention
+ */
+const EVENT_LEVELS: Record<string, LogEntry['level']> = {
+  '0': 'INFO',
+  '1': 'ERROR',
+  '2': 'ERROR',
+  '3': 'WARN',
+  '4': 'INFO',
+  '5': 'DEBUG',
+  'critical': 'ERROR',
+  'error': 'ERROR',
+  'warning': 'WARN',
+  'information': 'INFO',
+  'verbose': 'DEBUG',
+  'audit success': 'INFO',
+  'audit failure': 'WARN',
+  'successaudit': 'INFO',
+  'failureaudit': 'WARN',
+};
+
+/**
+ * Names of the standard keyword bits, shown when the export has no
+ * rendered keyword names
+ */
+const KEYWORD_NAMES: [bigint, string][] = [
+  [0x10000000000000n, 'Audit Failure'],
+  [0x20000000000000n, 'Audit Success'],
+  [0x80000000000000n, 'Classic'],
+  [0x4000000000000n, 'WDI Context'],
+  [0x8000000000000n, 'WDI Diagnostic'],
+  [0x40000000000000n, 'Correlation Hint'],
+];
+
+/**
+ * Columns a CSV export may name each event property with, lower case
+ * Covers Event Viewer, Get-WinEvent and Get-EventLog exports
+ */
+const CSV_COLUMNS = {
+  level: ['level', 'leveldisplayname', 'entrytype'],
+  time: ['date and time', 'timecreated', 'timegenerated', 'timewritten'],
+  provider: ['source', 'providername', 'provider'],
+  eventId: ['event id', 'id', 'eventid', 'instanceid'],
+  task: ['task category', 'taskdisplayname', 'category'],
+  computer: ['computer', 'machinename'],
+  keywords: ['keywordsdisplaynames', 'keywords'],
+  message: ['message', 'description'],
+  thread: ['threadid'],
+} as const;
+
+/**
+ * Date formats a CSV export may use, tried in order
+ * Event Viewer writes dates in the exporting machine's locale
+ */
+const CSV_DATE_FORMATS = [
+  'M/d/yyyy h:mm:ss a',
+  'd/M/yyyy h:mm:ss a',
+  'M/d/yyyy H:mm:ss',
+  'd/M/yyyy H:mm:ss',
+  'dd.MM.yyyy HH:mm:ss',
+  'yyyy-MM-dd HH:mm:ss',
+  'yyyy/MM/dd H:mm:ss',
+  'iso',
+];
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Check whether content is a Windows event log export
+ *
+ * @param content - File content
+ * @returns The export layout, or null for anything else
+ */
+export function detectWindowsEventLog(content: string): WindowsEventLogLayout | null {
+  const head = content.slice(0, 4096);
+  if (/<Event[\s>]/.test(head) && head.includes('schemas.microsoft.com/win/2004/08/events/event')) {
+    return 'xml';
+  }
+
+  const header = readCsvRecords(head, 2)[0];
+  return header && findCsvColumns(header) ? 'csv' : null;
+}
+
+// ============================================================================
+// SHARED MAPPING
+// ============================================================================
+
+/**
+ * Map an Event Viewer level onto a log level
+ *
+ * @param level - Level number or display name
+ * @returns Matching level, INFO if unknown
+ */
+function mapEventLevel(level: string): LogEntry['level'] {
+  return EVENT_LEVELS[level.trim().toLowerCase()] ?? 'INFO';
+}
+
+/**
+ * Name the bits of a keywords mask
+ *
+ * @param mask - Keywords as hex text, e.g. 0x80000000000000
+ * @returns Comma-separated names, with unnamed bits left as hex
+ */
+function describeKeywords(mask: string): string {
+  let value: bigint;
+  try {
+    value = BigInt(mask);
+  } catch {
+    return mask;
+  }
+
+  const names: string[] = [];
+  KEYWORD_NAMES.forEach(([bit, name]) => {
+    if (value & bit) {
+      names.push(name);
+      value &= ~bit;
+    }
+  });
+  // The top byte holds reserved flags set on most events
+  value &= 0x00FFFFFFFFFFFFFFn;
+  if (value) names.push(`0x${value.toString(16)}`);
+  return names.join(', ');
+}
+
+/**
+ * Put the fields of an event in a map, leaving out empty values
+ */
+function toFields(values: Record<string, string | undefined>): Record<string, string> | undefined {
+  const fields: Record<string, string> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    if (value) fields[key] = value;
+  });
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+// ============================================================================
+// XML EXPORTS
+// ============================================================================
+
+/**
+ * Decode the XML entities in element text or an attribute value
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_: string, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_: string, decimal: string) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the text of the first element with a given name
+ *
+ * @param xml - XML fragment to search
+ * @param tag - Element name
+ * @returns Decoded, trimmed text, or undefined if the element is missing or empty
+ */
+function readElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  const text = match ? decodeXml(match[1]).replace(/\r\n?/g, '\n').trim() : '';
+  return text || undefined;
+}
+
+/**
+ * Read an attribute of the first element with a given name
+ *
+ * @param xml - XML fragment to search
+ * @param tag - Element name
+ * @param attribute - Attribute name
+ * @returns Decoded value, or undefined if missing
+ */
+function readAttribute(xml: string, tag: string, attribute: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}\\s[^>]*?\\b${attribute}=["']([^"']*)["']`));
+  return match ? decodeXml(match[1]) || undefined : undefined;
+}
+
+/**
+ * Read the event data of an event
+ * Named values become `EventData.<Name>` fields; unnamed ones are listed
+ * in order for the message
+ *
+ * @param eventXml - XML of one event
+ * @returns Named values and all values in order
+ */
+function readEventData(eventXml: string): { named: Record<string, string>; values: string[] } {
+  const named: Record<string, string> = {};
+  const values: string[] = [];
+  const eventData = eventXml.match(/<EventData>([\s\S]*?)<\/EventData>/)?.[1] ?? '';
+
+  for (const match of eventData.matchAll(/<Data(?:\s+Name=["']([^"']*)["'])?\s*(?:\/>|>([\s\S]*?)<\/Data>)/g)) {
+    const value = decodeXml(match[2] ?? '').trim();
+    if (!value) continue;
+    if (match[1]) named[`EventData.${match[1]}`] = value;
+    values.push(match[1] ? `${match[1]}: ${value}` : value);
+  }
+
+  // Providers with their own schema write UserData instead
+  if (values.length === 0) {
+    const userData = eventXml.match(/<UserData>([\s\S]*?)<\/UserData>/)?.[1];
+    const text = userData ? decodeXml(userData.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim() : '';
+    if (text) values.push(text);
+  }
+
+  return { named, values };
+}
+
+/**
+ * Build a LogEntry from the XML of one event
+ *
+ * @param eventXml - XML of one event
+ * @param index - Event index for unique ID generation
+ * @param timeZone - Source timezone, used only for the offset shown
+ * @returns Parsed entry
+ */
+function parseEventXml(eventXml: string, index: number, timeZone: string): LogEntry {
+  const system = eventXml.match(/<System>([\s\S]*?)<\/System>/)?.[1] ?? '';
+  const rendering = eventXml.match(/<RenderingInfo[^>]*>([\s\S]*?)<\/RenderingInfo>/)?.[1] ?? '';
+
+  // SystemTime is UTC with up to seven fraction digits
+  const systemTime = readAttribute(system, 'TimeCreated', 'SystemTime');
+  const timestampText = systemTime?.replace(/(\.\d{3})\d+/, '$1');
+  const date = timestampText ? new Date(timestampText) : null;
+  const timestamp = date && !isNaN(date.getTime()) ? date : null;
+
+  const provider = readAttribute(system, 'Provider', 'Name');
+  const eventId = readElement(system, 'EventID');
+  const renderedKeywords = Array.from(rendering.matchAll(/<Keyword>([\s\S]*?)<\/Keyword>/g), match => decodeXml(match[1]).trim());
+  const keywordMask = readElement(system, 'Keywords');
+  const { named, values } = readEventData(eventXml);
+
+  // Audit events are all level 0; their keyword says whether they failed
+  const levelName = readElement(rendering, 'Level');
+  const keywords = renderedKeywords.length > 0 ? renderedKeywords.join(', ') : keywordMask ? describeKeywords(keywordMask) : undefined;
+  const level = keywords?.includes('Audit Failure')
+    ? 'WARN'
+    : mapEventLevel(levelName ?? readElement(system, 'Level') ?? '4');
+
+  const message = readElement(rendering, 'Message')
+    ?? (values.length > 0 ? values.join('; ') : `Event ${eventId ?? ''} from ${provider ?? 'unknown provider'}`.trim());
+
+  return {
+    id: `log-${index}`,
+    timestamp,
+    utcOffset: timestamp && systemTime ? resolveUtcOffset(systemTime, timestamp, timeZone) : undefined,
+    level,
+    message,
+    threadId: readAttribute(system, 'Execution', 'ThreadID'),
+    source: provider,
+    fields: toFields({
+      EventID: eventId,
+      Computer: readElement(system, 'Computer'),
+      Channel: readElement(system, 'Channel'),
+      Keywords: keywords,
+      Task: readElement(rendering, 'Task') ?? readElement(system, 'Task'),
+      EventRecordID: readElement(system, 'EventRecordID'),
+      ProcessID: readAttribute(system, 'Execution', 'ProcessID'),
+      User: readAttribute(system, 'Security', 'UserID'),
+      ...named,
+    }),
+    raw: eventXml,
+  };
+}
+
+/**
+ * Parse an Event Viewer XML export
+ *
+ * @param content - XML text
+ * @param timeZone - Source timezone, used only for the offset shown
+ * @param onProgress - Optional callback receiving event progress updates
+ * @returns Parsed entries in file order
+ */
+function parseEventXmlFile(content: string, timeZone: string, onProgress?: ParseProgressCallback): LogEntry[] {
+  const events = content.match(/<Event[\s>][\s\S]*?<\/Event>/g) ?? [];
+  return events.map((eventXml, index) => {
+    if (index % PROGRESS_INTERVAL === 0) {
+      onProgress?.({ phase: 'parsing', processed: index, total: events.length });
+    }
+    return parseEventXml(eventXml, index, timeZone);
+  });
+}
+
+// ============================================================================
+// CSV EXPORTS
+// ============================================================================
+
+/**
+ * Split CSV text into records
+ * Quoted values may contain commas, doubled quotes and line breaks, as
+ * event messages usually do
+ *
+ * @param content - CSV text
+ * @param limit - Stop after this many records (optional)
+ * @returns Records as arrays of values
+ */
+function readCsvRecords(content: string, limit = Infinity): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(value);
+    // PowerShell's Export-Csv writes a #TYPE line before the header
+    if (record.some(item => item.trim()) && !(records.length === 0 && record[0].startsWith('#TYPE'))) {
+      records.push(record);
+    }
+    record = [];
+    value = '';
+  };
+
+  for (let i = 0; i < content.length && records.length < limit; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n') {
+      endRecord();
+    } else if (char !== '\r') {
+      value += char;
+    }
+  }
+  if (records.length < limit && (value || record.length > 0)) endRecord();
+
+  return records;
+}
+
+/**
+ * Find the column of each event property in a CSV header
+ *
+ * @param header - Header record
+ * @returns Column index per property, or null if the header is not an event log export
+ */
+function findCsvColumns(header: string[]): Partial<Record<keyof typeof CSV_COLUMNS, number>> | null {
+  const names = header.map(name => name.trim().toLowerCase());
+  const columns: Partial<Record<keyof typeof CSV_COLUMNS, number>> = {};
+  (Object.keys(CSV_COLUMNS) as (keyof typeof CSV_COLUMNS)[]).forEach(property => {
+    const index = names.findIndex(name => (CSV_COLUMNS[property] as readonly string[]).includes(name));
+    if (index !== -1) columns[property] = index;
+  });
+
+  if (columns.time === undefined || columns.provider === undefined) return null;
+  if (columns.eventId === undefined && columns.level === undefined) return null;
+
+  // Event Viewer leaves the description column without a header
+  if (columns.message === undefined) columns.message = header.length;
+  return columns;
+}
+
+/**
+ * Pick the date format that reads every sampled date
+ *
+ * @param dates - Date texts from the first rows
+ * @param timeZone - Source timezone of the dates
+ * @returns date-fns format, or null if none fits
+ */
+function pickCsvDateFormat(dates: string[], timeZone: string): string | null {
+  const sample = dates.filter(Boolean).slice(0, DATE_FORMAT_SAMPLE_SIZE);
+  return CSV_DATE_FORMATS.find(format =>
+    sample.every(date => parseTimestampWithFormat(date, format, timeZone))) ?? null;
+}
+
+/**
+ * Parse an Event Viewer or PowerShell CSV export
+ *
+ * @param content - CSV text
+ * @param timeZone - Timezone the dates were written in
+ * @param onProgress - Optional callback receiving event progress updates
+ * @returns Parsed entries in file order
+ */
+function parseEventCsvFile(content: string, timeZone: string, onProgress?: ParseProgressCallback): LogEntry[] {
+  const [header, ...rows] = readCsvRecords(content);
+  const columns = header ? findCsvColumns(header) : null;
+  if (!columns) return [];
+
+  const cell = (row: string[], column: number | undefined) => column === undefined ? '' : (row[column] ?? '').trim();
+  const dateFormat = pickCsvDateFormat(rows.map(row => cell(row, columns.time)), timeZone);
+  const mapped = new Set(Object.values(columns));
+
+  return rows.map((row, index) => {
+    if (index % PROGRESS_INTERVAL === 0) {
+      onProgress?.({ phase: 'parsing', processed: index, total: rows.length });
+    }
+
+    const dateText = cell(row, columns.time);
+    const timestamp = dateFormat ? parseTimestampWithFormat(dateText, dateFormat, timeZone) : null;
+    const provider = cell(row, columns.provider);
+    const eventId = cell(row, columns.eventId);
+    // Export-Csv writes collections as their type name, which says nothing
+    const keywordText = cell(row, columns.keywords).replace(/^\{|\}$/g, '');
+    const keywords = keywordText.startsWith('System.Collections') ? '' : keywordText;
+
+    // Columns not mapped above are kept under their own header
+    const extra: Record<string, string> = {};
+    header.forEach((name, column) => {
+      if (!mapped.has(column) && name.trim()) extra[name.trim()] = cell(row, column);
+    });
+
+    return {
+      id: `log-${index}`,
+      timestamp,
+      utcOffset: timestamp ? resolveUtcOffset(dateText, timestamp, timeZone) : undefined,
+      level: keywords.includes('Audit Failure') ? 'WARN' : mapEventLevel(cell(row, columns.level) || '4'),
+      message: cell(row, columns.message) || `Event ${eventId} from ${provider || 'unknown provider'}`,
+      threadId: cell(row, columns.thread) || undefined,
+      source: provider || undefined,
+      fields: toFields({
+        EventID: eventId,
+        Computer: cell(row, columns.computer),
+        Keywords: /^0x[0-9a-f]+$/i.test(keywords) ? describeKeywords(keywords) : keywords,
+        Task: cell(row, columns.task),
+        ...extra,
+      }),
+      raw: row.join(','),
+    };
+  });
+}
+
+// ============================================================================
+// FILE PARSING
+// ============================================================================
+
+/**
+ * Parse a Windows event log export
+ *
+ * @param content - Exported XML or CSV text
+ * @param options - Upload-time parse settings, with the layout in windowsEventLog
+ * @param onProgress - Optional callback receiving event progress updates
+ * @returns Parsed entries, newest first, and the export layout as format name
+ */
+export function parseWindowsEventLog(
+  content: string,
+  options: LogParseOptions = {},
+  onProgress?: ParseProgressCallback
+): ParsedLogFile {
+  const layout = options.windowsEventLog ?? detectWindowsEventLog(content) ?? 'xml';
+  const timeZone = options.sourceTimezone || LOCAL_TIMEZONE;
+
+  const entries = layout === 'xml'
+    ? parseEventXmlFile(content, timeZone, onProgress)
+    : parseEventCsvFile(content, timeZone, onProgress);
+  onProgress?.({ phase: 'parsing', processed: entries.length, total: entries.length });
+
+  if (entries.length === 0) {
+    throw new Error('No events found in the Windows event log export');
+  }
+
+  const outliers = markTimestampOutliers(entries, options.timestampWindow);
+  if (outliers > 0) {
+    console.warn(`${outliers} timestamps fall outside the file's time window`);
+  }
+
+  return { entries: sortLogEntriesNewestFirst(entries), formatName: LAYOUT_NAMES[layout] };
+}
@@ -0,0 +1,293 @@
+import { LogParseOptions } from '../types/log';
+
+/**
+ * Year Inference for Yearless Timestamps
+ *
+ * Many logs write timestamps without a year: `01-15 10:30:00` (MM-DD) or the
+ * classic syslog `Jan 15 10:30:00`. Parsing those with the current year gives
+ * wrong results, so the parser works out the year for each such line from,
+ * in order of preference:
+ *
+ * 1. The year the user entered at upload for the first entry
+ * 2. Fully dated lines in the same file (nearest one wins)
+ * 3. The file's last-modified date, which is taken as the end of the log
+ *
+ * Year rollovers are detected from the month sequence: a jump from December
+ * back to January moves to the next year. If none of these sources exist the
+ * timestamps stay null rather than guessing.
+ */
+
+/**
+ * Month names used by syslog-style timestamps
+ */
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * A month going back by more than this many months is treated as a rollover
+ * into the next year; smaller steps back are just out-of-order lines
+ */
+const ROLLOVER_MONTH_GAP = 6;
+
+/**
+ * Line-start patterns for yearless timestamps
+ * Group 1 is the timestamp text, group 2 the rest of the line
+ */
+export const YEARLESS_TIMESTAMP_PATTERNS = [
+  // 01-15 10:30:00 or 01-15 10:30:00.123
+  /^\[?(\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}(?:[.,]\d{3})?)\]?\s+(.*)$/,
+  // Jan 15 10:30:00 (syslog RFC 3164)
+  /^\[?([A-Z][a-z]{2}\s+\d{1,2}\s+\d{2}:\d{2}:\d{2}(?:[.,]\d{3})?)\]?\s+(.*)$/,
+];
+
+/**
+ * Date and time parts read from a yearless timestamp
+ */
+interface YearlessTimestamp {
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+// ============================================================================
+// TIMESTAMP READING
+// ============================================================================
+
+/**
+ * Read the parts of a yearless timestamp
+ *
+ * @param text - Timestamp text such as '01-15 10:30:00' or 'Jan 15 10:30:00'
+ * @returns Timestamp parts (month is 1-based), or null if not recognised
+ */
+export function parseYearlessTimestamp(text: string): YearlessTimestamp | null {
+  const trimmed = text.trim();
+
+  const numeric = trimmed.match(/^(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})(?:[.,](\d{3}))?$/);
+  const named = trimmed.match(/^([A-Z][a-z]{2})\s+(\d{1,2})\s+(\d{2}):(\d{2}):(\d{2})(?:[.,](\d{3}))?$/);
+
+  let month: number;
+  let rest: RegExpMatchArray;
+  if (numeric) {
+    month = parseInt(numeric[1], 10);
+    rest = numeric;
+  } else if (named) {
+    month = MONTH_NAMES.indexOf(named[1].toLowerCase()) + 1;
+    rest = named;
+  } else {
+    return null;
+  }
+
+  const parts = {
+    month,
+    day: parseInt(rest[2], 10),
+    hours: parseInt(rest[3], 10),
+    minutes: parseInt(rest[4], 10),
+    seconds: parseInt(rest[5], 10),
+    milliseconds: rest[6] ? parseInt(rest[6], 10) : 0,
+  };
+
+  if (parts.month < 1 || parts.month > 12 || parts.day < 1 || parts.day > 31 || parts.hours > 23 || parts.minutes > 59 || parts.seconds > 59) {
+    return null;
+  }
+
+  return parts;
+}
+
+/**
+ * Build a local wall-clock date from yearless parts and a year
+ *
+ * @param parts - Yearless timestamp parts
+ * @param year - Year inferred for the line
+ * @returns Date in the browser's local fields, or null if the day is invalid
+ */
+export function buildDateWithYear(parts: YearlessTimestamp, year: number): Date | null {
+  const date = new Date(year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds, parts.milliseconds);
+
+  // Reject dates that rolled over, e.g. 02-30
+  return date.getMonth() === parts.month - 1 ? date : null;
+}
+
+/**
+ * Find the parts of a yearless timestamp at the start of a line
+ */
+function readYearlessTimestamp(line: string): YearlessTimestamp | null {
+  for (const pattern of YEARLESS_TIMESTAMP_PATTERNS) {
+    const match = line.match(pattern);
+    if (match) {
+      return parseYearlessTimestamp(match[1]);
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the month of a yearless timestamp at the start of a line
+ */
+function readYearlessMonth(line: string): number | null {
+  return readYearlessTimestamp(line)?.month ?? null;
+}
+
+/**
+ * Find the year and month of a fully dated timestamp at the start of a line
+ */
+function readDatedYearMonth(line: string): { year: number; month: number } | null {
+  const match = line.match(/^\[?(\d{4})-(\d{2})-\d{2}[\sT]\d{2}:\d{2}/);
+  if (!match) return null;
+
+  return { year: parseInt(match[1], 10), month: parseInt(match[2], 10) };
+}
+
+// ============================================================================
+// YEAR INFERENCE
+// ============================================================================
+
+/**
+ * Check whether any line starts with a yearless timestamp
+ *
+ * @param lines - Lines to check
+ * @returns True if at least one line has a yearless timestamp
+ */
+export function hasYearlessTimestamps(lines: string[]): boolean {
+  return lines.some(line => readYearlessMonth(line) !== null);
+}
+
+/**
+ * Check whether a file uses yearless timestamps with nothing to anchor them
+ *
+ * Used at upload to decide whether to ask the user for a year.
+ *
+ * @param lines - Lines from the start of the file
+ * @returns True if yearless timestamps appear and no fully dated line does
+ */
+export function needsYearPrompt(lines: string[]): boolean {
+  const hasDated = lines.some(line => readDatedYearMonth(line) !== null);
+  return hasYearlessTimestamps(lines) && !hasDated;
+}
+
+/**
+ * Function returning the inferred year for the next line of a file
+ * Undefined for lines without a yearless timestamp or with no year known
+ */
+export type YearTracker = (line: string) => number | undefined;
+
+/**
+ * Create a tracker that assigns years to lines in file order
+ *
+ * Each fully dated line sets the current year; yearless lines take the
+ * current year, moving to the next one when the month jumps back (December
+ * to January).
+ *
+ * @param startYear - Year of the first yearless line, or null if unknown
+ * @returns Tracker to call once per line in file order
+ */
+export function createYearTracker(startYear: number | null): YearTracker {
+  let currentYear = startYear;
+  let lastMonth: number | null = null;
+
+  return (line: string) => {
+    const dated = readDatedYearMonth(line);
+    if (dated) {
+      currentYear = dated.year;
+      lastMonth = dated.month;
+      return undefined;
+    }
+
+    const month = readYearlessMonth(line);
+    if (month === null || currentYear === null) return undefined;
+
+    if (lastMonth !== null && month < lastMonth - ROLLOVER_MONTH_GAP) {
+      currentYear++;
+    }
+    lastMonth = month;
+    return currentYear;
+  };
+}
+
+/**
+ * Scanner working out the year of the first yearless line
+ */
+export interface StartYearScanner {
+  /** Feed the next line; returns true once the start year is known */
+  push: (line: string) => boolean;
+
+  /** Start year after the last line, or null if nothing anchors it */
+  finish: () => number | null;
+}
+
+/**
+ * Create a scanner for the year of a file's first yearless line
+ *
+ * Rollovers are counted up to the first fully dated line, whose year then
+ * gives the start year. Without any dated line the file's modified date
+ * marks the end of the log: no line can have been written after it, so the
+ * last line falls in the latest year that keeps it on or before that date.
+ * Lines can be fed one at a time, so streamed
+ * files are scanned without holding them in memory, and scanning can stop
+ * as soon as push() returns true.
+ *
+ * @param fileLastModified - Last-modified time of the file (optional)
+ * @returns Scanner to feed lines in file order
+ */
+export function createStartYearScanner(fileLastModified?: number): StartYearScanner {
+  let rollovers = 0;
+  let lastMonth: number | null = null;
+  let lastDay = 1;
+  let startYear: number | null = null;
+
+  return {
+    push: (line: string) => {
+      if (startYear !== null) return true;
+
+      const dated = readDatedYearMonth(line);
+      if (dated) {
+        if (lastMonth !== null && dated.month < lastMonth - ROLLOVER_MONTH_GAP) {
+          rollovers++;
+        }
+        startYear = dated.year - rollovers;
+        return true;
+      }
+
+      const parts = readYearlessTimestamp(line);
+      if (parts === null) return false;
+
+      if (lastMonth !== null && parts.month < lastMonth - ROLLOVER_MONTH_GAP) {
+        rollovers++;
+      }
+      lastMonth = parts.month;
+      lastDay = parts.day;
+      return false;
+    },
+
+    finish: () => {
+      if (startYear !== null) return startYear;
+      if (lastMonth === null || !fileLastModified) return null;
+
+      // The file's modified date is the end of the log; a last line later in
+      // the calendar than it (July line, March mtime) was written the year before
+      const modified = new Date(fileLastModified);
+      const modifiedMonth = modified.getMonth() + 1;
+      const afterModified = lastMonth > modifiedMonth || (lastMonth === modifiedMonth && lastDay > modified.getDate());
+      const endRollover = afterModified ? 1 : 0;
+      return modified.getFullYear() - endRollover - rollovers;
+    },
+  };
+}
+
+/**
+ * Work out the start year for a file held in memory
+ *
+ * @param lines - All lines of the file in original order
+ * @param options - Upload-time options holding the year hint and file date
+ * @returns Year of the first yearless line, or null if unknown
+ */
+export function inferStartYear(lines: string[], options: LogParseOptions = {}): number | null {
+  if (options.referenceYear !== undefined) return options.referenceYear;
+
+  const scanner = createStartYearScanner(options.fileLastModified);
+  for (const line of lines) {
+    if (scanner.push(line)) break;
+  }
+  return scanner.finish();
+}
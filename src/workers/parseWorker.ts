@@ -0,0 +1,80 @@
+import { parseLogFile, generateLogSummary } from '../utils/logParser';
+import { parseLogFileStream } from '../utils/logStreamParser';
+import { parseJsonLogFile } from '../utils/jsonLogParser';
+import { parseWindowsEventLog } from '../utils/windowsEventParser';
+import { parseAuditTrailCSV, generateAuditSummary } from '../utils/auditParser';
+import { computeParseDiagnostics } from '../utils/parseDiagnostics';
+import { registerCustomFormats } from '../utils/customFormats';
+import { getPackedLogEntryTransferables, packLogEntries } from '../utils/logEntryStore';
+import { ParseProgress, ParseWorkerRequest, ParseWorkerResponse } from '../types/worker';
+
+/**
+ * Parse Worker
+ *
+ * Runs log and audit trail parsing in a background thread so large files do
+ * not freeze the tab. Log files passed as a File are streamed rather than
+ * read into one string; JSON logs and Windows event log exports are read
+ * as structured records. Parsed log entries are posted back as packed
+ * columns, with the column buffers transferred rather than cloned. Each
+ * worker handles a single request; the main thread cancels a parse by
+ * terminating the worker.
+ *
+ * Security Note: The worker runs in the same browser sandbox as the page.
+ * No content leaves the browser.
+ */
+
+/**
+ * The worker's global scope
+ * Typed locally because the app compiles against the DOM library, where
+ * `self` is a Window and postMessage requires a target origin
+ */
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseWorkerRequest>) => void) | null;
+  postMessage: (message: ParseWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+/**
+ * Forward progress updates to the main thread
+ */
+const reportProgress = (progress: ParseProgress) => {
+  workerScope.postMessage({ type: 'progress', progress });
+};
+
+workerScope.onmessage = async (event) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'parseLog') {
+      registerCustomFormats(request.customFormats);
+
+      // JSON and event log uploads always arrive as text, marked in the options
+      const { entries, formatName } = typeof request.source !== 'string'
+        ? await parseLogFileStream(request.source, request.options, reportProgress)
+        : request.options.jsonFields
+          ? parseJsonLogFile(request.source, request.options, reportProgress)
+          : request.options.windowsEventLog
+            ? parseWindowsEventLog(request.source, request.options, reportProgress)
+            : parseLogFile(request.source, request.options, reportProgress);
+      reportProgress({ phase: 'summarizing', processed: 0, total: entries.length });
+      const summary = generateLogSummary(entries);
+      const diagnostics = computeParseDiagnostics(entries, formatName);
+
+      const packed = packLogEntries(entries);
+      workerScope.postMessage(
+        { type: 'logResult', entries: packed, summary, diagnostics },
+        getPackedLogEntryTransferables(packed)
+      );
+    } else {
+      const entries = parseAuditTrailCSV(request.content, reportProgress);
+      reportProgress({ phase: 'summarizing', processed: 0, total: entries.length });
+      const summary = generateAuditSummary(entries);
+
+      workerScope.postMessage({ type: 'auditResult', entries, summary });
+    }
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};